@@ -18,6 +18,14 @@ const sidebars: SidebarsConfig = {
       items: [
         'recipes/human-in-the-loop',
         'recipes/custom-adapter',
+        'recipes/interceptors',
+        'recipes/event-bus',
+        'recipes/diagrams',
+        'recipes/declarative-definitions',
+        'recipes/step-functions',
+        'recipes/versioning',
+        'recipes/persistence',
+        'recipes/testing',
       ],
     },
     {
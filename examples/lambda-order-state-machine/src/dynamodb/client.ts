@@ -1,9 +1,9 @@
 import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
-import { DynamoDBDocumentClient } from '@aws-sdk/lib-dynamodb';
+import { DynamoDBDocument } from '@aws-sdk/lib-dynamodb';
 
 const dynamoDBClient = new DynamoDBClient();
 
-export const DocumentClient = DynamoDBDocumentClient.from(dynamoDBClient, {
+export const DocumentClient = DynamoDBDocument.from(dynamoDBClient, {
   marshallOptions: {
     // Specify your client options as usual
     removeUndefinedValues: true,
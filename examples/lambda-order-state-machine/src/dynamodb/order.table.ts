@@ -9,9 +9,11 @@ export enum OrderState {
   FAILED = 'failed',
 }
 
+export const ORDER_TABLE_NAME = process.env.DYNAMODB_TABLE ?? 'order';
+
 export const OrderTable = new Table({
   documentClient: DocumentClient,
-  name: process.env.DYNAMODB_TABLE ?? 'order',
+  name: ORDER_TABLE_NAME,
   partitionKey: {
     name: 'id',
     type: 'string',
@@ -1,4 +1,4 @@
-import { OrchestratorService, type IWorkflowEvent, type TransitResult } from '@/core';
+import { OrchestratorService, type IChildWorkflowInvocation, type IWorkflowEvent, type TransitResult } from '@/core';
 
 /**
  * Abstract base for workflow adapters.
@@ -14,36 +14,143 @@ export abstract class BaseWorkflowAdapter<TContext, TResult> {
   constructor(protected readonly orchestrator: OrchestratorService) {}
 
   /**
-   * Run the workflow loop until a final state is reached.
+   * Run the workflow loop until a final state is reached, or until a hook
+   * returns no event to go on with.
+   *
+   * Branches forked by a parallel state are queued and run one after the
+   * other; the loop only waits for an external event (idle / no_transition)
+   * once no branch is pending. Child workflows are run inline by
+   * {@link runChildWorkflow} and share the parent's iteration counter, so
+   * step names stay unique within one execution.
    */
   protected async runWorkflowLoop(initialEvent: IWorkflowEvent, ctx: TContext): Promise<TResult> {
+    const { result, event } = await this.driveWorkflow(initialEvent, ctx, { iteration: 0 });
+    return result.status === 'final' ? this.onFinal(result, event, ctx) : this.onStopped(result, event, ctx);
+  }
+
+  /**
+   * Loop over `transit()` results until the entity of `initialEvent` reaches a
+   * final state, or a hook returned no next event.
+   */
+  private async driveWorkflow(
+    initialEvent: IWorkflowEvent,
+    ctx: TContext,
+    counter: { iteration: number },
+  ): Promise<{ result: TransitResult; event: IWorkflowEvent }> {
     let currentEvent = initialEvent;
-    let iteration = 0;
+    const pendingBranches: IWorkflowEvent[] = [];
 
     while (true) {
+      const iteration = counter.iteration++;
       const result = await this.executeTransit(currentEvent, iteration, ctx);
+      let nextEvent: IWorkflowEvent | null | undefined;
 
       switch (result.status) {
         case 'final':
-          return this.onFinal(result, currentEvent, ctx);
+          return { result, event: currentEvent };
 
         case 'idle':
-          currentEvent = await this.onIdle(result, currentEvent, iteration, ctx);
+          if (result.child) {
+            nextEvent = await this.runChildWorkflow(result.child, ctx, counter);
+          } else {
+            nextEvent = pendingBranches.shift() ?? (await this.onIdle(result, currentEvent, iteration, ctx));
+          }
           break;
 
         case 'continued':
-          currentEvent = await this.onContinued(result, iteration, ctx);
+          nextEvent = await this.onContinued(result, iteration, ctx);
           break;
 
+        case 'forked': {
+          const [first, ...rest] = await this.onForked(result, iteration, ctx);
+          pendingBranches.push(...rest);
+          nextEvent = first;
+          break;
+        }
+
         case 'no_transition':
-          currentEvent = await this.onNoTransition(result, currentEvent, iteration, ctx);
+          nextEvent = pendingBranches.shift() ?? (await this.onNoTransition(result, currentEvent, iteration, ctx));
           break;
       }
 
-      iteration++;
+      if (!nextEvent) return { result, event: currentEvent };
+      currentEvent = nextEvent;
     }
   }
 
+  /**
+   * The loop stopped before a final state because a hook returned no next
+   * event — the workflow goes on in a later invocation, e.g. from a queued
+   * message. Override in adapters whose hooks stop the loop.
+   *
+   * @throws {Error} By default, as the hooks of adapters not overriding it always return an event.
+   */
+  protected onStopped(result: TransitResult, event: IWorkflowEvent, _ctx: TContext): TResult {
+    throw new Error(`Workflow of ${event.urn} stopped after a ${result.status} transit without reaching a final state`);
+  }
+
+  /**
+   * Run a child workflow to completion and return the completion event for
+   * its parent. A child that throws after moving to its failed state still
+   * completes the parent (with `onFailed`); other errors are rethrown.
+   */
+  private async runChildWorkflow(
+    invocation: IChildWorkflowInvocation,
+    ctx: TContext,
+    counter: { iteration: number },
+  ): Promise<IWorkflowEvent> {
+    let failure: unknown;
+    try {
+      await this.driveWorkflow(invocation.start, ctx, counter);
+    } catch (e) {
+      failure = e;
+    }
+
+    const completion = await this.onChildSettled(invocation, counter.iteration++, ctx);
+    if (!completion) {
+      throw (
+        failure ?? new Error(`Child workflow ${invocation.start.workflow} (${invocation.start.urn}) did not complete`)
+      );
+    }
+    return completion;
+  }
+
+  /**
+   * Let a saga undo the completed steps of an event whose handler failed.
+   * Returns `null` when the entity is not in its failed state — the event was
+   * rejected before its handler ran — or when the workflow has no saga.
+   */
+  protected async compensateFailure(event: IWorkflowEvent): Promise<TransitResult | null> {
+    if (!(await this.orchestrator.isFailed(event.urn, event.event, event.workflow))) return null;
+    return this.orchestrator.compensate(event);
+  }
+
+  /**
+   * A child workflow stopped — return the parent's completion event, or `null`
+   * when the child did not reach a final or failed state. Override to
+   * checkpoint the lookup.
+   */
+  protected async onChildSettled(
+    invocation: IChildWorkflowInvocation,
+    _iteration: number,
+    _ctx: TContext,
+  ): Promise<IWorkflowEvent | null> {
+    return this.orchestrator.completeChildWorkflow(invocation);
+  }
+
+  /**
+   * Parallel regions started — return the branch events to run. No branch
+   * stops the loop. Runs every branch in this invocation by default; override
+   * to checkpoint them or hand them to another worker.
+   */
+  protected onForked(
+    result: Extract<TransitResult, { status: 'forked' }>,
+    _iteration: number,
+    _ctx: TContext,
+  ): Promise<IWorkflowEvent[]> {
+    return Promise.resolve(result.branches);
+  }
+
   // ─── Abstract hooks ────────────────────────────────────────────────
 
   /** Execute a single transit step (may include retry, checkpointing, etc.) */
@@ -56,26 +163,29 @@ export abstract class BaseWorkflowAdapter<TContext, TResult> {
     ctx: TContext,
   ): TResult;
 
-  /** Entity is idle — wait for an external callback and return the next event. */
+  /**
+   * Entity is idle — wait for an external callback and return the next event,
+   * or `null` to stop the loop (see {@link onStopped}).
+   */
   protected abstract onIdle(
     result: Extract<TransitResult, { status: 'idle' }>,
     event: IWorkflowEvent,
     iteration: number,
     ctx: TContext,
-  ): Promise<IWorkflowEvent>;
+  ): Promise<IWorkflowEvent | null>;
 
-  /** Auto-transition found — checkpoint if needed and return the next event. */
+  /** Auto-transition found — checkpoint if needed and return the next event, or `null` to stop the loop. */
   protected abstract onContinued(
     result: Extract<TransitResult, { status: 'continued' }>,
     iteration: number,
     ctx: TContext,
-  ): Promise<IWorkflowEvent>;
+  ): Promise<IWorkflowEvent | null>;
 
-  /** No unambiguous transition — wait for an explicit external event. */
+  /** No unambiguous transition — wait for an explicit external event, or return `null` to stop the loop. */
   protected abstract onNoTransition(
     result: Extract<TransitResult, { status: 'no_transition' }>,
     event: IWorkflowEvent,
     iteration: number,
     ctx: TContext,
-  ): Promise<IWorkflowEvent>;
+  ): Promise<IWorkflowEvent | null>;
 }
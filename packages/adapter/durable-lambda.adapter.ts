@@ -1,11 +1,20 @@
 import type { INestApplicationContext } from '@nestjs/common';
-import { OrchestratorService, RetryBackoff, type IWorkflowEvent, type TransitResult } from '@/core';
+import {
+  OrchestratorService,
+  RetryBackoff,
+  type IChildWorkflowInvocation,
+  type IWorkflowEvent,
+  type TransitResult,
+} from '@/core';
 import { UnretriableException } from '@/exception/unretriable.exception';
+import { WorkflowConflictException } from '@/exception/workflow-conflict.exception';
 import { BaseWorkflowAdapter } from './base-workflow.adapter';
 
 export interface DurableWorkflowEvent {
   urn: string | number;
   initialEvent: string;
+  /** Workflow handling the events — required when the event name is shared by several workflows. */
+  workflow?: string;
   payload?: any;
 }
 
@@ -39,6 +48,9 @@ export type WithDurableExecution = <TEvent, TResult>(
 
 const DEFAULT_CALLBACK_TIMEOUT = { hours: 24 };
 
+/** How many times a transit is re-run after a {@link WorkflowConflictException}. */
+const MAX_CONFLICT_RETRIES = 3;
+
 /**
  * Parse a callback result from the SDK.
  * The real SDK delivers callback results as JSON strings via SendDurableExecutionCallbackSuccess.
@@ -54,6 +66,16 @@ function parseCallbackResult<T>(raw: unknown): T {
   return raw as T;
 }
 
+/**
+ * Whether a `waitForCallback()` rejection is the SDK's timeout. The SDK
+ * rejects with a `CallbackError` both when the wait timed out and when the
+ * callback was failed explicitly (`SendDurableExecutionCallbackFailure`) —
+ * only the message of a timeout tells them apart.
+ */
+function isCallbackTimeout(error: unknown): boolean {
+  return error instanceof Error && error.name === 'CallbackError' && /^Callback timed out/.test(error.message);
+}
+
 /**
  * Concrete adapter that wraps the workflow orchestrator in an AWS durable execution.
  *
@@ -71,6 +93,7 @@ class DurableLambdaWorkflowAdapter extends BaseWorkflowAdapter<IDurableContext,
     this.urn = event.urn;
     const initialEvent: IWorkflowEvent = {
       event: event.initialEvent,
+      workflow: event.workflow,
       urn: event.urn,
       payload: event.payload,
       attempt: 0,
@@ -83,31 +106,46 @@ class DurableLambdaWorkflowAdapter extends BaseWorkflowAdapter<IDurableContext,
     iteration: number,
     ctx: IDurableContext,
   ): Promise<TransitResult> {
-    const retryConfig = this.orchestrator.getRetryConfig(currentEvent.event);
+    const retryConfig = this.orchestrator.getRetryConfig(currentEvent.event, currentEvent.workflow);
     const maxAttempts = retryConfig?.maxAttempts ?? 1;
 
-    let lastError: Error | undefined;
+    let attempt = 0;
+    let conflicts = 0;
 
-    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    while (true) {
       try {
-        return await ctx.step(`transit:${currentEvent.event}:${iteration}:${attempt}`, () =>
-          this.orchestrator.transit(currentEvent),
+        return await ctx.step(`transit:${currentEvent.event}:${iteration}:${attempt + conflicts}`, () =>
+          this.orchestrator.transit({ ...currentEvent, attempt }),
         );
       } catch (e) {
         if (e instanceof UnretriableException) throw e;
-        lastError = e as Error;
 
-        if (attempt < maxAttempts - 1) {
-          const delay = RetryBackoff.calculateDelay(attempt, retryConfig!);
-          ctx.logger.info(
-            `Handler ${currentEvent.event} failed (attempt ${attempt + 1}/${maxAttempts}), retrying in ${delay}ms`,
+        // Concurrent update — re-run immediately against the reloaded entity
+        if (e instanceof WorkflowConflictException && conflicts < MAX_CONFLICT_RETRIES) {
+          conflicts++;
+          ctx.logger.info(`Handler ${currentEvent.event} hit a concurrent update, retrying (${conflicts})`);
+          continue;
+        }
+
+        attempt++;
+        if (attempt >= maxAttempts) {
+          if (e instanceof WorkflowConflictException) throw e;
+          // Retries exhausted — let a saga undo the completed steps of a failed handler before giving up
+          const compensated = await ctx.step(`compensate:${currentEvent.event}:${iteration}`, () =>
+            this.compensateFailure(currentEvent),
           );
-          await ctx.wait({ seconds: Math.ceil(delay / 1000) });
+          if (compensated) return compensated;
+          throw e;
         }
+
+        const delay = RetryBackoff.calculateDelay(attempt - 1, retryConfig!);
+        ctx.logger.info(
+          `Handler ${currentEvent.event} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms`,
+        );
+        await this.orchestrator.flushEvents();
+        await ctx.wait({ seconds: Math.ceil(delay / 1000) });
       }
     }
-
-    throw lastError!;
   }
 
   // TODO: review adapter hooks' logic
@@ -121,22 +159,30 @@ class DurableLambdaWorkflowAdapter extends BaseWorkflowAdapter<IDurableContext,
 
   protected async onIdle(
     result: Extract<TransitResult, { status: 'idle' }>,
-    _event: IWorkflowEvent,
+    event: IWorkflowEvent,
     iteration: number,
     ctx: IDurableContext,
   ): Promise<IWorkflowEvent> {
     const timeout = result.timeout ?? DEFAULT_CALLBACK_TIMEOUT;
-    const raw = await ctx.waitForCallback<string>(
-      `idle:${result.state}:${iteration}`,
-      async (callbackId: string) => {
-        ctx.logger.info(`Waiting for callback at idle state ${result.state}`, { callbackId });
-      },
-      { timeout },
-    );
-    const callbackPayload = parseCallbackResult<{ event: string; payload?: any }>(raw);
+    // The invocation suspends while waiting — deliver the domain events first
+    await this.orchestrator.flushEvents();
+    let raw: string;
+    try {
+      raw = await ctx.waitForCallback<string>(
+        `idle:${result.state}:${iteration}`,
+        async (callbackId: string) => {
+          ctx.logger.info(`Waiting for callback at idle state ${result.state}`, { callbackId });
+        },
+        { timeout },
+      );
+    } catch (e) {
+      return this.onCallbackTimeout(result, e, ctx);
+    }
+    const callbackPayload = parseCallbackResult<{ event: string; workflow?: string; payload?: any }>(raw);
     return {
       event: callbackPayload.event,
-      urn: this.urn,
+      workflow: callbackPayload.workflow ?? event.workflow,
+      urn: event.urn,
       payload: callbackPayload.payload,
       attempt: 0,
     };
@@ -152,28 +198,73 @@ class DurableLambdaWorkflowAdapter extends BaseWorkflowAdapter<IDurableContext,
     return result.nextEvent;
   }
 
+  protected async onForked(
+    result: Extract<TransitResult, { status: 'forked' }>,
+    iteration: number,
+    ctx: IDurableContext,
+  ): Promise<IWorkflowEvent[]> {
+    // Checkpoint the fork — on replay, returns the stored branches
+    return ctx.step(`fork:${result.state}:${iteration}`, async () => result.branches);
+  }
+
+  protected async onChildSettled(
+    invocation: IChildWorkflowInvocation,
+    iteration: number,
+    ctx: IDurableContext,
+  ): Promise<IWorkflowEvent | null> {
+    // Checkpoint the completion — the child entity is only loaded once
+    return ctx.step(`child:${invocation.start.workflow}:${iteration}`, () =>
+      this.orchestrator.completeChildWorkflow(invocation),
+    );
+  }
+
   protected async onNoTransition(
     result: Extract<TransitResult, { status: 'no_transition' }>,
-    _event: IWorkflowEvent,
+    event: IWorkflowEvent,
     iteration: number,
     ctx: IDurableContext,
   ): Promise<IWorkflowEvent> {
     const timeout = result.timeout ?? DEFAULT_CALLBACK_TIMEOUT;
-    const raw = await ctx.waitForCallback<string>(
-      `awaiting:${result.state}:${iteration}`,
-      async (callbackId: string) => {
-        ctx.logger.info(`No auto-transition from ${result.state}, waiting for explicit event`, { callbackId });
-      },
-      { timeout },
-    );
-    const noTransitionPayload = parseCallbackResult<{ event: string; payload?: any }>(raw);
+    // The invocation suspends while waiting — deliver the domain events first
+    await this.orchestrator.flushEvents();
+    let raw: string;
+    try {
+      raw = await ctx.waitForCallback<string>(
+        `awaiting:${result.state}:${iteration}`,
+        async (callbackId: string) => {
+          ctx.logger.info(`No auto-transition from ${result.state}, waiting for explicit event`, { callbackId });
+        },
+        { timeout },
+      );
+    } catch (e) {
+      return this.onCallbackTimeout(result, e, ctx);
+    }
+    const noTransitionPayload = parseCallbackResult<{ event: string; workflow?: string; payload?: any }>(raw);
     return {
       event: noTransitionPayload.event,
-      urn: this.urn,
+      workflow: noTransitionPayload.workflow ?? event.workflow,
+      urn: event.urn,
       payload: noTransitionPayload.payload,
       attempt: 0,
     };
   }
+
+  /**
+   * The SDK rejects `waitForCallback()` once its timeout elapsed. Waits
+   * declaring an `onTimeout` event continue with it; other waits, and
+   * callbacks failed explicitly by the external system, rethrow.
+   */
+  private onCallbackTimeout(
+    result: Extract<TransitResult, { status: 'idle' | 'no_transition' }>,
+    error: unknown,
+    ctx: IDurableContext,
+  ): IWorkflowEvent {
+    if (!result.onTimeout || !isCallbackTimeout(error)) throw error;
+    ctx.logger.info(`Callback wait at ${result.state} ended without an event, sending ${result.onTimeout.event}`, {
+      error: (error as Error).message,
+    });
+    return result.onTimeout;
+  }
 }
 
 /**
@@ -183,7 +274,8 @@ class DurableLambdaWorkflowAdapter extends BaseWorkflowAdapter<IDurableContext,
  * Steps are checkpointed at event boundaries — on replay, completed steps return stored results.
  *
  * Idle states pause via `ctx.waitForCallback()` until an external system submits a callback.
- * Final states end the durable execution.
+ * Final states end the durable execution. Domain events are delivered before the invocation
+ * returns or suspends.
  *
  * @param app - NestJS application context
  * @param withDurableExecution - The `withDurableExecution` function from `@aws/durable-execution-sdk-js`
@@ -193,6 +285,10 @@ export const DurableLambdaEventHandler = (app: INestApplicationContext, withDura
   const adapter = new DurableLambdaWorkflowAdapter(orchestrator);
 
   return withDurableExecution(async (event: DurableWorkflowEvent, ctx: IDurableContext) => {
-    return adapter.run(event, ctx);
+    try {
+      return await adapter.run(event, ctx);
+    } finally {
+      await orchestrator.flushEvents();
+    }
   });
 };
@@ -0,0 +1,145 @@
+import type { INestApplicationContext } from '@nestjs/common';
+import {
+  OrchestratorService,
+  RetryBackoff,
+  durationToMilliseconds,
+  type IWorkflowEvent,
+  type TransitResult,
+} from '@/core';
+import { WorkflowConflictException } from '@/exception/workflow-conflict.exception';
+import { BaseWorkflowAdapter } from './base-workflow.adapter';
+
+export interface InProcessWorkflowResult {
+  urn: string | number;
+  status: string;
+  state: string | number;
+}
+
+/**
+ * Adapter that runs workflows inside the current process — useful for
+ * long-lived services, scripts and tests where no durable runtime is available.
+ *
+ * Idle and no-transition states wait for an event delivered with
+ * {@link send}. Events sent before the entity starts waiting are buffered.
+ * Waits with a `timeout` and an `onTimeout` event fire that event once the
+ * timeout elapses. Failing handlers are retried with the backoff of their
+ * `@WithRetry()` config.
+ * Child workflows run inline and complete their parent automatically.
+ */
+export class InProcessWorkflowAdapter extends BaseWorkflowAdapter<void, InProcessWorkflowResult> {
+  /** URN → resolver of the entity currently waiting for an external event. */
+  private readonly waiting = new Map<string, (event: IWorkflowEvent) => void>();
+  /** URN → events sent while the entity was not waiting. */
+  private readonly inbox = new Map<string, IWorkflowEvent[]>();
+
+  constructor(orchestrator: OrchestratorService) {
+    super(orchestrator);
+  }
+
+  /** Run a workflow from `event` until its entity reaches a final state. */
+  run(event: IWorkflowEvent): Promise<InProcessWorkflowResult> {
+    return this.runWorkflowLoop(event, undefined);
+  }
+
+  /** Deliver an external event to a running workflow, e.g. a human approval or a webhook. */
+  send(event: Omit<IWorkflowEvent, 'attempt'>): void {
+    const key = String(event.urn);
+    const delivered: IWorkflowEvent = { ...event, attempt: 0 };
+    const resolve = this.waiting.get(key);
+    if (resolve) {
+      this.waiting.delete(key);
+      resolve(delivered);
+      return;
+    }
+    this.inbox.set(key, [...(this.inbox.get(key) ?? []), delivered]);
+  }
+
+  /** `true` while the entity waits for an event delivered with {@link send}. */
+  isWaiting(urn: string | number): boolean {
+    return this.waiting.has(String(urn));
+  }
+
+  protected async executeTransit(event: IWorkflowEvent): Promise<TransitResult> {
+    const retryConfig = this.orchestrator.getRetryConfig(event.event, event.workflow);
+    const maxAttempts = retryConfig?.maxAttempts ?? 1;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.orchestrator.transit({ ...event, attempt });
+      } catch (e) {
+        if (e instanceof WorkflowConflictException) throw e;
+        // The orchestrator leaves the entity in its state while attempts are left
+        if (attempt + 1 < maxAttempts) {
+          await new Promise((resolve) => setTimeout(resolve, RetryBackoff.calculateDelay(attempt, retryConfig!)));
+          continue;
+        }
+        const compensated = await this.compensateFailure(event);
+        if (compensated) return compensated;
+        throw e;
+      }
+    }
+  }
+
+  protected onFinal(
+    result: Extract<TransitResult, { status: 'final' }>,
+    event: IWorkflowEvent,
+  ): InProcessWorkflowResult {
+    return { urn: event.urn, status: 'completed', state: result.state };
+  }
+
+  protected onIdle(result: Extract<TransitResult, { status: 'idle' }>, event: IWorkflowEvent): Promise<IWorkflowEvent> {
+    return this.receive(event, result);
+  }
+
+  protected onContinued(result: Extract<TransitResult, { status: 'continued' }>): Promise<IWorkflowEvent> {
+    return Promise.resolve(result.nextEvent);
+  }
+
+  protected onForked(result: Extract<TransitResult, { status: 'forked' }>): Promise<IWorkflowEvent[]> {
+    return Promise.resolve(result.branches);
+  }
+
+  protected onNoTransition(
+    result: Extract<TransitResult, { status: 'no_transition' }>,
+    event: IWorkflowEvent,
+  ): Promise<IWorkflowEvent> {
+    return this.receive(event, result);
+  }
+
+  /** Take the next buffered event for the entity, or wait for one until the wait times out. */
+  private receive(
+    current: IWorkflowEvent,
+    { timeout, onTimeout }: Extract<TransitResult, { status: 'idle' | 'no_transition' }>,
+  ): Promise<IWorkflowEvent> {
+    const key = String(current.urn);
+    const withWorkflow = (event: IWorkflowEvent): IWorkflowEvent => ({
+      ...event,
+      workflow: event.workflow ?? current.workflow,
+    });
+
+    const buffered = this.inbox.get(key)?.shift();
+    if (buffered) return Promise.resolve(withWorkflow(buffered));
+
+    return new Promise((resolve) => {
+      const timer =
+        onTimeout && timeout
+          ? setTimeout(() => {
+              this.waiting.delete(key);
+              resolve(onTimeout);
+            }, durationToMilliseconds(timeout))
+          : undefined;
+      this.waiting.set(key, (event) => {
+        clearTimeout(timer);
+        resolve(withWorkflow(event));
+      });
+    });
+  }
+}
+
+/**
+ * Creates an {@link InProcessWorkflowAdapter} bound to the application's orchestrator.
+ *
+ * @param app - NestJS application context
+ */
+export const InProcessWorkflowHandler = (app: INestApplicationContext) =>
+  new InProcessWorkflowAdapter(app.get(OrchestratorService));
@@ -1,2 +1,4 @@
 export * from './base-workflow.adapter';
 export * from './durable-lambda.adapter';
+export * from './in-process.adapter';
+export * from './sqs-lambda.adapter';
@@ -0,0 +1,461 @@
+import { createHash } from 'node:crypto';
+import { type INestApplicationContext, Logger } from '@nestjs/common';
+import {
+  OrchestratorService,
+  RetryBackoff,
+  WorkflowRegistry,
+  durationToMilliseconds,
+  type IChildWorkflowInvocation,
+  type IWorkflowDefinition,
+  type IWorkflowEvent,
+  type TransitResult,
+} from '@/core';
+import { UnretriableException } from '@/exception/unretriable.exception';
+import { WorkflowConflictException } from '@/exception/workflow-conflict.exception';
+import { BaseWorkflowAdapter } from './base-workflow.adapter';
+
+/**
+ * Minimal interface of an SQS record delivered to Lambda — `SQSRecord` from `@types/aws-lambda`.
+ */
+export interface ISqsRecord {
+  messageId: string;
+  receiptHandle: string;
+  body: string;
+  attributes: { ApproximateReceiveCount: string; MessageGroupId?: string };
+  eventSourceARN: string;
+}
+
+/** Minimal interface of the `SQSEvent` of an SQS-triggered Lambda. */
+export interface ISqsEvent {
+  Records: ISqsRecord[];
+}
+
+/**
+ * Response of the handler — `SQSBatchResponse`. Requires `ReportBatchItemFailures`
+ * in the function response types of the event source mapping.
+ */
+export interface ISqsBatchResponse {
+  batchItemFailures: Array<{ itemIdentifier: string }>;
+}
+
+/**
+ * Minimal interface of the SQS client — `new SQS()` from `@aws-sdk/client-sqs`.
+ * The AWS SDK is not a dependency of this package.
+ */
+export interface ISqsClient {
+  sendMessage(input: {
+    QueueUrl: string;
+    MessageBody: string;
+    MessageGroupId?: string;
+    MessageDeduplicationId?: string;
+    DelaySeconds?: number;
+  }): Promise<unknown>;
+  changeMessageVisibility(input: {
+    QueueUrl: string;
+    ReceiptHandle: string;
+    VisibilityTimeout: number;
+  }): Promise<unknown>;
+}
+
+/** Body of the messages consumed and enqueued by the {@link SqsLambdaEventHandler}. */
+export type SqsWorkflowMessage = Omit<IWorkflowEvent, 'attempt'> & {
+  /**
+   * Set on the `onTimeout` event of a wait: the state the entity waits in, and
+   * when the wait times out (epoch milliseconds). The event is dropped once
+   * the entity left that state.
+   */
+  timeout?: { state: string | number; expiresAt: number };
+};
+
+export interface SqsWorkflowHandlerOptions {
+  /** Client sending the enqueued events and changing the visibility of failed messages. */
+  client: ISqsClient;
+  /**
+   * What happens to the `continued` events and forked branches of a transit:
+   * `enqueue` (default) sends them to the queue as new messages, `inline`
+   * runs them in the same invocation.
+   */
+  continued?: 'enqueue' | 'inline';
+  /** Queue the events are enqueued to. Defaults to the queue the record came from. */
+  queueUrl?: string;
+}
+
+/** Record of the message being processed, and the queue its events are sent to. */
+interface SqsRecordContext {
+  record: ISqsRecord;
+  queueUrl: string;
+  /** Child workflows started while processing the message, as `workflow:urn`. */
+  children: Set<string>;
+}
+
+/** How many times a transit is re-run after a {@link WorkflowConflictException}. */
+const MAX_CONFLICT_RETRIES = 3;
+
+/** Longest visibility timeout SQS accepts, in seconds (12 hours). */
+const MAX_VISIBILITY_TIMEOUT = 43200;
+
+/** Longest delay of a message SQS accepts, in seconds (15 minutes). */
+const MAX_DELAY_SECONDS = 900;
+
+/** URL of a queue from its ARN — `arn:aws:sqs:<region>:<account>:<name>`. */
+function toQueueUrl(arn: string): string {
+  const [, partition, , region, account, name] = arn.split(':');
+  const domain = partition === 'aws-cn' ? 'amazonaws.com.cn' : 'amazonaws.com';
+  return `https://sqs.${region}.${domain}/${account}/${name}`;
+}
+
+/** Key of the entity of an event among the child workflows of a message. */
+function childKey({ workflow, urn }: IWorkflowEvent): string {
+  return `${workflow}:${urn}`;
+}
+
+/** Whether a workflow waits with a timeout — in an idle state, or by default for an explicit event. */
+function waitsWithTimeout({
+  states,
+  defaultCallbackTimeout,
+  defaultOnTimeout,
+}: IWorkflowDefinition<object, string, string | number>): boolean {
+  if (defaultCallbackTimeout && defaultOnTimeout !== undefined) return true;
+  return states.idles.some(
+    (entry) =>
+      typeof entry === 'object' &&
+      (entry.timeout ?? defaultCallbackTimeout) !== undefined &&
+      (entry.onTimeout ?? defaultOnTimeout) !== undefined,
+  );
+}
+
+/**
+ * Adapter running the events of SQS messages, one record at a time.
+ *
+ * A message ends once its entity waits for an external event (idle /
+ * no_transition) — the next one is another message, or the delayed
+ * `onTimeout` event of the wait. `continued` events and forked branches are
+ * sent to the queue, or run inline.
+ *
+ * Child workflows run inline, within the message of their parent: no later
+ * message could resume the parent, so their `continued` events and branches
+ * are always run inline, and a child waiting for an external event fails the
+ * message with an {@link UnretriableException}.
+ */
+class SqsWorkflowAdapter extends BaseWorkflowAdapter<SqsRecordContext, void> {
+  private readonly logger = new Logger(SqsWorkflowAdapter.name);
+
+  constructor(
+    orchestrator: OrchestratorService,
+    private readonly options: SqsWorkflowHandlerOptions,
+  ) {
+    super(orchestrator);
+  }
+
+  async run(record: ISqsRecord): Promise<void> {
+    let message: SqsWorkflowMessage;
+    try {
+      message = JSON.parse(record.body);
+    } catch (e) {
+      throw new UnretriableException(`Message ${record.messageId} is not a workflow event`, { cause: e });
+    }
+    const { timeout, ...fields } = message;
+    const event: IWorkflowEvent = {
+      ...fields,
+      attempt: Number(record.attributes.ApproximateReceiveCount) - 1,
+    };
+    const ctx: SqsRecordContext = {
+      record,
+      queueUrl: this.options.queueUrl ?? toQueueUrl(record.eventSourceARN),
+      children: new Set(),
+    };
+    if (timeout && !(await this.isTimeoutDue(event, timeout, ctx))) return;
+    return this.runWorkflowLoop(event, ctx);
+  }
+
+  /**
+   * Run the transit — the retries are the redeliveries of the message.
+   *
+   * A failure leaving the entity in its state is reported — a handler with
+   * `@WithRetry` attempts left, or a routing failure. For events with
+   * `@WithRetry`, the visibility timeout of the message is set to the backoff
+   * of its attempt first. The last failure of a handler moves the entity to
+   * its failed state, where a redelivery could not run the handler again: a
+   * saga is compensated, and the message is not reported.
+   */
+  protected async executeTransit(
+    event: IWorkflowEvent,
+    _iteration: number,
+    ctx: SqsRecordContext,
+  ): Promise<TransitResult> {
+    let conflicts = 0;
+
+    while (true) {
+      try {
+        const result = await this.orchestrator.transit(event);
+        if (result.status === 'idle' && result.child) ctx.children.add(childKey(result.child.start));
+        return result;
+      } catch (e) {
+        if (e instanceof UnretriableException) throw e;
+
+        // Concurrent update — re-run immediately against the reloaded entity
+        if (e instanceof WorkflowConflictException) {
+          if (conflicts++ < MAX_CONFLICT_RETRIES) continue;
+          throw e;
+        }
+
+        if (await this.orchestrator.isFailed(event.urn, event.event, event.workflow)) {
+          // The handler failed — let a saga undo the completed steps before giving up
+          const compensated = await this.orchestrator.compensate(event);
+          if (compensated) return compensated;
+          throw new UnretriableException(
+            `Handler ${event.event} failed, entity ${event.urn} is in its failed state (${(e as Error).message})`,
+            { cause: e },
+          );
+        }
+
+        const retryConfig = this.orchestrator.getRetryConfig(event.event, event.workflow);
+        if (!retryConfig) throw e;
+        if (event.attempt + 1 >= retryConfig.maxAttempts) {
+          throw new UnretriableException(
+            `Event ${event.event} failed ${retryConfig.maxAttempts} times (${(e as Error).message})`,
+            { cause: e },
+          );
+        }
+
+        const delay = RetryBackoff.calculateDelay(event.attempt, retryConfig);
+        const visibilityTimeout = Math.min(Math.ceil(delay / 1000), MAX_VISIBILITY_TIMEOUT);
+        this.logger.warn(
+          `Event ${event.event} failed (attempt ${event.attempt + 1}/${retryConfig.maxAttempts}), retrying in ${visibilityTimeout}s`,
+        );
+        await this.options.client.changeMessageVisibility({
+          QueueUrl: ctx.queueUrl,
+          ReceiptHandle: ctx.record.receiptHandle,
+          VisibilityTimeout: visibilityTimeout,
+        });
+        throw e;
+      }
+    }
+  }
+
+  protected onFinal(result: Extract<TransitResult, { status: 'final' }>, event: IWorkflowEvent): void {
+    this.logger.log(`Entity ${event.urn} reached final state ${result.state}`);
+  }
+
+  protected onStopped(result: TransitResult, event: IWorkflowEvent): void {
+    this.logger.log(`Entity ${event.urn} waits for its next message after a ${result.status} transit`);
+  }
+
+  protected async onIdle(
+    result: Extract<TransitResult, { status: 'idle' }>,
+    _event: IWorkflowEvent,
+    _iteration: number,
+    ctx: SqsRecordContext,
+  ): Promise<IWorkflowEvent | null> {
+    await this.scheduleTimeout(result, ctx);
+    return null;
+  }
+
+  protected async onContinued(
+    result: Extract<TransitResult, { status: 'continued' }>,
+    iteration: number,
+    ctx: SqsRecordContext,
+  ): Promise<IWorkflowEvent | null> {
+    if (this.options.continued === 'inline' || ctx.children.has(childKey(result.nextEvent))) return result.nextEvent;
+    await this.enqueue(result.nextEvent, iteration, ctx);
+    return null;
+  }
+
+  protected async onForked(
+    result: Extract<TransitResult, { status: 'forked' }>,
+    iteration: number,
+    ctx: SqsRecordContext,
+  ): Promise<IWorkflowEvent[]> {
+    if (this.options.continued === 'inline' || result.branches.some((b) => ctx.children.has(childKey(b)))) {
+      return result.branches;
+    }
+    for (const branch of result.branches) await this.enqueue(branch, iteration, ctx);
+    return [];
+  }
+
+  protected async onChildSettled(
+    invocation: IChildWorkflowInvocation,
+    iteration: number,
+    ctx: SqsRecordContext,
+  ): Promise<IWorkflowEvent | null> {
+    const completion = await super.onChildSettled(invocation, iteration, ctx);
+    if (completion) return completion;
+    const { start, parent } = invocation;
+    throw new UnretriableException(
+      `Child workflow ${start.workflow} (${start.urn}) did not complete within the message of its parent ${parent.urn}, which no later message resumes`,
+    );
+  }
+
+  protected async onNoTransition(
+    result: Extract<TransitResult, { status: 'no_transition' }>,
+    _event: IWorkflowEvent,
+    _iteration: number,
+    ctx: SqsRecordContext,
+  ): Promise<IWorkflowEvent | null> {
+    await this.scheduleTimeout(result, ctx);
+    return null;
+  }
+
+  /**
+   * Send the `onTimeout` event of a wait as a delayed message. FIFO queues
+   * cannot delay single messages — the handler rejects them before running
+   * workflows that wait with a timeout.
+   */
+  private async scheduleTimeout(
+    { state, timeout, onTimeout }: Extract<TransitResult, { status: 'idle' | 'no_transition' }>,
+    ctx: SqsRecordContext,
+  ) {
+    if (!onTimeout || !timeout) return;
+    await this.sendTimeout(onTimeout, { state, expiresAt: Date.now() + durationToMilliseconds(timeout) }, ctx);
+  }
+
+  /**
+   * Whether the `onTimeout` event of a message is due. The event is dropped
+   * once the entity left the state it waited in, and sent again with the
+   * remaining delay while the wait has not timed out yet.
+   */
+  private async isTimeoutDue(
+    event: IWorkflowEvent,
+    timeout: NonNullable<SqsWorkflowMessage['timeout']>,
+    ctx: SqsRecordContext,
+  ): Promise<boolean> {
+    const { from } = await this.orchestrator.canTransit(event.urn, event.event, event.payload, event.workflow);
+    if (from !== timeout.state) {
+      this.logger.log(`Entity ${event.urn} left ${timeout.state}, dropping its timeout event ${event.event}`);
+      return false;
+    }
+    if (timeout.expiresAt <= Date.now()) return true;
+    await this.sendTimeout(event, timeout, ctx);
+    return false;
+  }
+
+  /** Send a timeout event, delayed until its wait times out — by 15 minutes at most. */
+  private async sendTimeout(
+    { attempt: _attempt, ...event }: IWorkflowEvent,
+    timeout: NonNullable<SqsWorkflowMessage['timeout']>,
+    ctx: SqsRecordContext,
+  ) {
+    const message: SqsWorkflowMessage = { ...event, timeout };
+    const delay = Math.ceil((timeout.expiresAt - Date.now()) / 1000);
+    await this.options.client.sendMessage({
+      QueueUrl: ctx.queueUrl,
+      MessageBody: JSON.stringify(message),
+      DelaySeconds: Math.min(Math.max(delay, 0), MAX_DELAY_SECONDS),
+    });
+  }
+
+  /**
+   * Send an event to the queue. On FIFO queues the message keeps the group of
+   * the record, and is deduplicated if the record is delivered again — by a
+   * hash of the record's message id, the iteration and the event, as SQS
+   * limits deduplication ids to 128 characters.
+   */
+  private async enqueue({ attempt: _attempt, ...event }: IWorkflowEvent, iteration: number, ctx: SqsRecordContext) {
+    const message: SqsWorkflowMessage = event;
+    const { record, queueUrl } = ctx;
+    const fifo = queueUrl.endsWith('.fifo');
+    await this.options.client.sendMessage({
+      QueueUrl: queueUrl,
+      MessageBody: JSON.stringify(message),
+      ...(fifo && {
+        MessageGroupId: record.attributes.MessageGroupId ?? String(event.urn),
+        MessageDeduplicationId: createHash('sha256')
+          .update(`${record.messageId}:${iteration}:${event.event}`)
+          .digest('hex'),
+      }),
+    });
+  }
+}
+
+/**
+ * Creates a Lambda handler running the workflow events of an SQS queue. Each
+ * message body is a {@link SqsWorkflowMessage}; records are processed in order.
+ *
+ * Failed records are returned in `batchItemFailures` so SQS delivers them
+ * again — enable `ReportBatchItemFailures` on the event source mapping. The
+ * receive count of the message is the `attempt` of the event:
+ *
+ * - Failures leaving the entity in its state are reported — a handler with
+ *   `@WithRetry` attempts left, or an event no transition of the entity's
+ *   state matches yet. For events with `@WithRetry`, the visibility timeout
+ *   of the message is set to the backoff delay of its attempt, until
+ *   `maxAttempts` deliveries failed. Without `@WithRetry`, messages are retried
+ *   after the visibility timeout of the queue, until its redrive policy moves
+ *   them to a dead-letter queue.
+ * - The last failure of a handler — its only one without `@WithRetry` — moves
+ *   its entity to the failed state, so the message is not reported: a saga is
+ *   compensated, and the failure is logged.
+ * - An {@link UnretriableException} is never reported, so the message is deleted.
+ *
+ * The `onTimeout` event of a wait is sent as a delayed message, chained every
+ * 15 minutes until the wait times out, and dropped once the entity left the
+ * state. FIFO queues cannot delay messages: if a registered workflow waits
+ * with a timeout, a FIFO `queueUrl` fails the handler's creation, and records
+ * of a FIFO queue fail the invocation before any event runs.
+ *
+ * On FIFO queues, the records following a failed one are reported as failed
+ * without being processed, to keep their order.
+ *
+ * Child workflows run inline within the message of their parent, `continued`
+ * events included. Waiting children are not supported: no later message
+ * resumes the parent, so a child that stops before its final or failed state
+ * fails the message with an {@link UnretriableException}.
+ *
+ * The handler returns once the domain events of the batch were delivered.
+ *
+ * @param app - NestJS application context
+ * @param options - The SQS client, and how `continued` events are run
+ *
+ * @example
+ * ```typescript
+ * export const handler = SqsLambdaEventHandler(app, { client: new SQS({}) });
+ * ```
+ */
+export const SqsLambdaEventHandler = (app: INestApplicationContext, options: SqsWorkflowHandlerOptions) => {
+  const orchestrator = app.get(OrchestratorService);
+  const registry = app.get(WorkflowRegistry);
+  const adapter = new SqsWorkflowAdapter(orchestrator, options);
+  const logger = new Logger('SqsLambdaEventHandler');
+
+  const timedWorkflows = new Set(
+    registry
+      .getWorkflows()
+      .flatMap((w) => registry.getVersions(w.name))
+      .filter((w) => waitsWithTimeout(w.definition))
+      .map((w) => w.name),
+  );
+  const rejectTimedWaits = (queueUrl: string) => {
+    if (timedWorkflows.size === 0 || !queueUrl.endsWith('.fifo')) return;
+    throw new Error(
+      `Workflows ${[...timedWorkflows].join(', ')} wait with a timeout, whose onTimeout event FIFO queue ${queueUrl} cannot delay`,
+    );
+  };
+  if (options.queueUrl) rejectTimedWaits(options.queueUrl);
+
+  return async (event: ISqsEvent): Promise<ISqsBatchResponse> => {
+    const batchItemFailures: ISqsBatchResponse['batchItemFailures'] = [];
+    if (!options.queueUrl) {
+      for (const record of event.Records) rejectTimedWaits(toQueueUrl(record.eventSourceARN));
+    }
+
+    for (const record of event.Records) {
+      if (batchItemFailures.length > 0 && record.eventSourceARN.endsWith('.fifo')) {
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+        continue;
+      }
+      try {
+        await adapter.run(record);
+      } catch (e) {
+        if (e instanceof UnretriableException) {
+          logger.error(`Message ${record.messageId} failed permanently (${e.message})`);
+          continue;
+        }
+        logger.error(`Message ${record.messageId} failed (${(e as Error).message})`);
+        batchItemFailures.push({ itemIdentifier: record.messageId });
+      }
+    }
+    // Deliver the domain events before Lambda freezes the invocation
+    await orchestrator.flushEvents();
+    return { batchItemFailures };
+  };
+};
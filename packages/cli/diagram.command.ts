@@ -0,0 +1,101 @@
+import { WorkflowDiagram, WorkflowRegistry, type DiagramFormat } from '@/core';
+import type { Type } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { resolve } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { parseArgs } from 'node:util';
+
+/** Options of the `nestjs-workflow-diagram` command. */
+export interface IDiagramCommandOptions {
+  /** Path of the compiled file exporting the Nest module, relative to the working directory. */
+  modulePath: string;
+  /** Name of the exported module class. Defaults to the default export, then the first export ending in `Module`. */
+  moduleName?: string;
+  format: DiagramFormat;
+  /** Render only these workflows. Defaults to every registered workflow. */
+  workflows: string[];
+  /** File to write the diagrams to. Defaults to stdout. */
+  out?: string;
+}
+
+const FORMATS: DiagramFormat[] = ['mermaid', 'dot', 'plantuml'];
+
+export const DIAGRAM_USAGE = `Usage: nestjs-workflow-diagram <module-file> [options]
+
+Renders the workflows registered in a compiled Nest module as state diagrams.
+
+Options:
+  -m, --module <name>     Exported module class (default: default export, or the first export ending in "Module")
+  -f, --format <format>   mermaid, dot or plantuml (default: mermaid)
+  -w, --workflow <name>   Only render this workflow; repeat for several
+  -o, --out <file>        Write to a file instead of stdout
+  -h, --help              Show this help`;
+
+/**
+ * Parse the command line of `nestjs-workflow-diagram`.
+ * @returns The options, or `null` when help was requested.
+ * @throws {Error} On a missing module file or an unknown format.
+ */
+export function parseDiagramArgs(argv: string[]): IDiagramCommandOptions | null {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      module: { type: 'string', short: 'm' },
+      format: { type: 'string', short: 'f', default: 'mermaid' },
+      workflow: { type: 'string', short: 'w', multiple: true },
+      out: { type: 'string', short: 'o' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) return null;
+
+  const [modulePath] = positionals;
+  if (!modulePath) throw new Error(`Missing module file.\n\n${DIAGRAM_USAGE}`);
+  const format = values.format as DiagramFormat;
+  if (!FORMATS.includes(format)) {
+    throw new Error(`Unknown diagram format: ${format}. Use ${FORMATS.join(', ')}`);
+  }
+  return { modulePath, moduleName: values.module, format, workflows: values.workflow ?? [], out: values.out };
+}
+
+/**
+ * Boot the module as an application context, read its {@link WorkflowRegistry}
+ * and render the registered workflows. The module's lifecycle hooks run, so
+ * point it at a module whose providers can start without their backends, or
+ * at a dedicated module importing only `WorkflowModule.register()`.
+ *
+ * @returns The diagrams, separated by a blank line.
+ * @throws {Error} If the module cannot be found or a requested workflow is not registered.
+ */
+export async function runDiagramCommand(options: IDiagramCommandOptions): Promise<string> {
+  const exports = (await import(pathToFileURL(resolve(options.modulePath)).href)) as Record<string, unknown>;
+  const moduleName =
+    options.moduleName ??
+    (typeof exports.default === 'function' ? 'default' : Object.keys(exports).find((name) => name.endsWith('Module')));
+  const module = moduleName ? exports[moduleName] : undefined;
+  if (typeof module !== 'function') {
+    throw new Error(
+      options.moduleName
+        ? `${options.moduleName} is not exported by ${options.modulePath}`
+        : `No Nest module exported by ${options.modulePath}. Pass its name with --module`,
+    );
+  }
+
+  const app = await NestFactory.createApplicationContext(module as Type<unknown>, { logger: false });
+  try {
+    const registry = app.get(WorkflowRegistry, { strict: false });
+    const missing = options.workflows.filter((name) => !registry.getWorkflow(name));
+    if (missing.length > 0) {
+      const registered = registry.getWorkflows().map((w) => w.name);
+      throw new Error(`Workflow not registered: ${missing.join(', ')}. Registered: ${registered.join(', ')}`);
+    }
+    return registry
+      .getWorkflows()
+      .filter((w) => options.workflows.length === 0 || options.workflows.includes(w.name))
+      .map((w) => WorkflowDiagram.render(w.definition, options.format))
+      .join('\n\n');
+  } finally {
+    await app.close();
+  }
+}
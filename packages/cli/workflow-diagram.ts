@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import 'reflect-metadata';
+import { writeFile } from 'node:fs/promises';
+import { DIAGRAM_USAGE, parseDiagramArgs, runDiagramCommand } from './diagram.command';
+
+try {
+  const options = parseDiagramArgs(process.argv.slice(2));
+  if (!options) {
+    process.stdout.write(`${DIAGRAM_USAGE}\n`);
+  } else {
+    const output = await runDiagramCommand(options);
+    if (options.out) await writeFile(options.out, `${output}\n`);
+    else process.stdout.write(`${output}\n`);
+  }
+} catch (error) {
+  console.error((error as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,36 @@
+import type { IWorkflowHandler } from '@/core';
+
+/** @internal Metadata key for the list of compensation handlers on a workflow class. */
+export const WORKFLOW_COMPENSATION_KEY = 'workflow:compensation';
+
+/**
+ * Method decorator that registers the compensation handler for a workflow event.
+ *
+ * When a step of a workflow with a `saga` config fails permanently, the
+ * orchestrator walks the transition history backwards and calls the
+ * compensator of every step that already completed. Compensators receive the
+ * entity through `@Entity()` and an {@link ICompensationContext} through
+ * `@Payload()`.
+ *
+ * @param event - The event whose completed step this method undoes.
+ *
+ * @example
+ * ```typescript
+ * @OnCompensate('payment.charge')
+ * async refund(@Entity() order: Order, @Payload() { output }: ICompensationContext) {
+ *   await this.payments.refund((output as Charge).id);
+ * }
+ * ```
+ */
+export const OnCompensate = (event: string) => (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
+  let compensators: IWorkflowHandler[] = Reflect.getMetadata(WORKFLOW_COMPENSATION_KEY, target.constructor);
+
+  if (!compensators) {
+    compensators = [];
+    Reflect.defineMetadata(WORKFLOW_COMPENSATION_KEY, compensators, target.constructor);
+  }
+
+  compensators.push({ event, handler: descriptor.value, name: propertyKey });
+
+  return descriptor;
+};
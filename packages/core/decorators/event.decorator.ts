@@ -1,4 +1,4 @@
-import type { IWorkflowHandler } from '@/core';
+import type { IEventHandlerOptions, IWorkflowHandler } from '@/core';
 
 /** @internal Metadata key for the list of event handlers on a workflow class. */
 export const WORKFLOW_HANDLER_KEY = 'workflow:metadata';
@@ -11,6 +11,7 @@ export const WORKFLOW_HANDLER_KEY = 'workflow:metadata';
  * and routes incoming {@link IWorkflowEvent}s to the correct method.
  *
  * @param event - The event name this method handles (e.g. `'order.submit'`).
+ * @param options - Optional handler settings, e.g. a `timeout` in milliseconds.
  *
  * @example
  * ```typescript
@@ -18,17 +19,24 @@ export const WORKFLOW_HANDLER_KEY = 'workflow:metadata';
  * async onSubmit(@Entity() order: Order, @Payload() data: SubmitDto) {
  *   // transition logic
  * }
+ *
+ * @OnEvent('order.charge', { timeout: 5_000 })
+ * async onCharge(@Entity() order: Order, @Signal() signal: AbortSignal) {
+ *   await this.payments.charge(order, { signal });
+ * }
  * ```
  */
-export const OnEvent = (event: string) => (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
-  let workflowHandlers: IWorkflowHandler[] = Reflect.getMetadata(WORKFLOW_HANDLER_KEY, target.constructor);
+export const OnEvent =
+  (event: string, options?: IEventHandlerOptions) =>
+  (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
+    let workflowHandlers: IWorkflowHandler[] = Reflect.getMetadata(WORKFLOW_HANDLER_KEY, target.constructor);
 
-  if (!workflowHandlers) {
-    workflowHandlers = [];
-    Reflect.defineMetadata(WORKFLOW_HANDLER_KEY, workflowHandlers, target.constructor);
-  }
+    if (!workflowHandlers) {
+      workflowHandlers = [];
+      Reflect.defineMetadata(WORKFLOW_HANDLER_KEY, workflowHandlers, target.constructor);
+    }
 
-  workflowHandlers.push({ event, handler: descriptor.value, name: propertyKey });
+    workflowHandlers.push({ event, handler: descriptor.value, name: propertyKey, timeout: options?.timeout });
 
-  return descriptor;
-};
+    return descriptor;
+  };
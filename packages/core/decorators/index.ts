@@ -1,5 +1,9 @@
+export * from './compensate.decorator';
 export * from './default.decorator';
 export * from './event.decorator';
+export * from './lifecycle.decorator';
+export * from './migrate.decorator';
 export * from './params.decorator';
+export * from './use-interceptors.decorator';
 export * from './with-retry.decorator';
 export * from './workflow.decorator';
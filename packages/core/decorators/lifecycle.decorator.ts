@@ -0,0 +1,69 @@
+import type { IWorkflowLifecycleHook, WorkflowLifecycleHookKind } from '@/core';
+
+/** @internal Metadata key for the list of lifecycle hooks on a workflow class. */
+export const WORKFLOW_LIFECYCLE_KEY = 'workflow:lifecycle';
+
+const registerLifecycleHook =
+  (kind: WorkflowLifecycleHookKind, state?: string | number) =>
+  (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
+    let hooks: IWorkflowLifecycleHook[] = Reflect.getMetadata(WORKFLOW_LIFECYCLE_KEY, target.constructor);
+
+    if (!hooks) {
+      hooks = [];
+      Reflect.defineMetadata(WORKFLOW_LIFECYCLE_KEY, hooks, target.constructor);
+    }
+
+    hooks.push({ kind, state, handler: descriptor.value, name: propertyKey });
+
+    return descriptor;
+  };
+
+/**
+ * Method decorator called every time an entity enters `state`, after the new
+ * status was persisted by `IWorkflowEntity.update()`.
+ *
+ * Hooks receive the updated entity through `@Entity()` and an
+ * {@link IStatusChange} through `@Payload()`. With compound states, entering a
+ * child also enters every ancestor the entity was not already in.
+ *
+ * @param state - The state to watch.
+ *
+ * @example
+ * ```typescript
+ * @OnStateEnter(OrderStatus.Shipped)
+ * async notifyCustomer(@Entity() order: Order) {
+ *   await this.mailer.send(order.email, 'Your order is on its way');
+ * }
+ * ```
+ */
+export const OnStateEnter = <State extends string | number>(state: State) => registerLifecycleHook('enter', state);
+
+/**
+ * Method decorator called every time an entity leaves `state`, after the new
+ * status was persisted. Exit hooks run before the enter hooks of the new state.
+ *
+ * @param state - The state to watch.
+ *
+ * @example
+ * ```typescript
+ * @OnStateExit(OrderStatus.Pending)
+ * async stopReminders(@Entity() order: Order) {
+ *   await this.reminders.cancel(order.id);
+ * }
+ * ```
+ */
+export const OnStateExit = <State extends string | number>(state: State) => registerLifecycleHook('exit', state);
+
+/**
+ * Method decorator called after every status change of the workflow's
+ * entities, once the enter and exit hooks ran.
+ *
+ * @example
+ * ```typescript
+ * @OnStatusChanged()
+ * async track(@Payload() { from, to, event }: IStatusChange<OrderStatus>) {
+ *   this.metrics.increment('order.status', { from, to, event });
+ * }
+ * ```
+ */
+export const OnStatusChanged = () => registerLifecycleHook('changed');
@@ -0,0 +1,42 @@
+import type { IWorkflowMigrationHook } from '@/core';
+
+/** @internal Metadata key for the list of migration hooks on a workflow class. */
+export const WORKFLOW_MIGRATION_KEY = 'workflow:migration';
+
+/** Event passed to `IWorkflowEntity.update()` when a migration changes the entity status. */
+export const WORKFLOW_MIGRATE_EVENT = 'workflow.migrate';
+
+/**
+ * Method decorator that moves entities from an older definition version to
+ * the version of the decorated class — see `OrchestratorService.migrate()`.
+ *
+ * Hooks receive the entity through `@Entity()` and an {@link IWorkflowMigration}
+ * through `@Payload()`, and may return the state the entity should be in under
+ * the new version. Returning nothing keeps the current state, which must then
+ * exist in the new version.
+ *
+ * @param from - The version this hook migrates from. Omit it to accept any older version.
+ *
+ * @example
+ * ```typescript
+ * @Workflow({ name: 'OrderWorkflow', version: 2, ... })
+ * export class OrderWorkflowV2 {
+ *   @OnMigrate(1)
+ *   async fromV1(@Entity() order: Order, @Payload() { state }: IWorkflowMigration<string>) {
+ *     return state === 'review' ? 'manual-review' : state;
+ *   }
+ * }
+ * ```
+ */
+export const OnMigrate = (from?: number) => (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
+  let hooks: IWorkflowMigrationHook[] = Reflect.getMetadata(WORKFLOW_MIGRATION_KEY, target.constructor);
+
+  if (!hooks) {
+    hooks = [];
+    Reflect.defineMetadata(WORKFLOW_MIGRATION_KEY, hooks, target.constructor);
+  }
+
+  hooks.push({ from, handler: descriptor.value, name: propertyKey });
+
+  return descriptor;
+};
@@ -14,7 +14,7 @@ export function Entity(): ParameterDecorator {
   return (target: object, propertyKey?: string | symbol, parameterIndex?: number) => {
     if (!propertyKey || parameterIndex === undefined)
       throw new Error('Entity decorator can only be used on method parameters');
-    const existing: Array<any> = Reflect.getOwnMetadata('workflow:params', target, propertyKey) || [];
+    const existing: Array<any> = Reflect.getOwnMetadata('workflow:params', target, propertyKey) ?? [];
     existing.push({ index: parameterIndex, type: 'entity' });
     Reflect.defineMetadata('workflow:params', existing, target, propertyKey);
   };
@@ -39,8 +39,34 @@ export function Payload<P>(dto?: P): ParameterDecorator {
   return (target: object, propertyKey?: string | symbol, parameterIndex?: number) => {
     if (!propertyKey || parameterIndex === undefined)
       throw new Error('Payload decorator can only be used on method parameters');
-    const existing: Array<any> = Reflect.getOwnMetadata('workflow:params', target, propertyKey) || [];
+    const existing: Array<any> = Reflect.getOwnMetadata('workflow:params', target, propertyKey) ?? [];
     existing.push({ index: parameterIndex, type: 'payload', dto });
     Reflect.defineMetadata('workflow:params', existing, target, propertyKey);
   };
 }
+
+/**
+ * Parameter decorator that injects an `AbortSignal` into a handler method.
+ *
+ * The signal is aborted when the handler exceeds the `timeout` set on
+ * `@OnEvent()` or `@WithRetry()`; its `reason` is the
+ * {@link HandlerTimeoutException}. Pass it on to cancellable work such as
+ * `fetch` or AWS SDK calls. Without a timeout the signal never aborts.
+ *
+ * @example
+ * ```typescript
+ * @OnEvent('order.charge', { timeout: 5_000 })
+ * async onCharge(@Entity() order: Order, @Signal() signal: AbortSignal) {
+ *   await fetch(`${PAYMENTS_URL}/charges`, { method: 'POST', signal });
+ * }
+ * ```
+ */
+export function Signal(): ParameterDecorator {
+  return (target: object, propertyKey?: string | symbol, parameterIndex?: number) => {
+    if (!propertyKey || parameterIndex === undefined)
+      throw new Error('Signal decorator can only be used on method parameters');
+    const existing: Array<any> = Reflect.getOwnMetadata('workflow:params', target, propertyKey) ?? [];
+    existing.push({ index: parameterIndex, type: 'signal' });
+    Reflect.defineMetadata('workflow:params', existing, target, propertyKey);
+  };
+}
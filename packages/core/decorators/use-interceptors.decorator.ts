@@ -0,0 +1,32 @@
+import type { WorkflowInterceptorRef } from '@/core';
+
+/** @internal Metadata key for the interceptors attached to a workflow class or handler. */
+export const WORKFLOW_INTERCEPTORS_KEY = 'workflow:interceptors';
+
+/**
+ * Class or method decorator that wraps transits with {@link WorkflowInterceptor}s.
+ *
+ * On a workflow class the interceptors apply to every handler; on an
+ * `@OnEvent` method only to that handler. Classes are resolved from the
+ * module's providers, so list them in `WorkflowModule.register({ providers })`.
+ *
+ * @param interceptors - Interceptor classes or instances, outermost first.
+ *
+ * @example
+ * ```typescript
+ * @Workflow({ ... })
+ * @UseWorkflowInterceptors(TenantInterceptor)
+ * export class OrderWorkflow {
+ *   @OnEvent('order.approve')
+ *   @UseWorkflowInterceptors(new RequireRoleInterceptor('manager'))
+ *   async approve(@Entity() order: Order) { ... }
+ * }
+ * ```
+ */
+export const UseWorkflowInterceptors =
+  (...interceptors: WorkflowInterceptorRef[]): ClassDecorator & MethodDecorator =>
+  (target: object, _propertyKey?: string | symbol, descriptor?: TypedPropertyDescriptor<any>) => {
+    const host = descriptor ? descriptor.value : target;
+    const existing: WorkflowInterceptorRef[] = Reflect.getMetadata(WORKFLOW_INTERCEPTORS_KEY, host) ?? [];
+    Reflect.defineMetadata(WORKFLOW_INTERCEPTORS_KEY, [...existing, ...interceptors], host);
+  };
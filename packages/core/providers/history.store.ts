@@ -0,0 +1,30 @@
+import { Injectable } from '@nestjs/common';
+import type { IWorkflowHistoryRecord, IWorkflowHistoryStore } from '../types';
+
+/**
+ * Default {@link IWorkflowHistoryStore} that keeps records in process memory.
+ *
+ * Good enough for tests and single-process deployments. History is lost when
+ * the process exits — register a persistent store for production use.
+ */
+@Injectable()
+export class InMemoryWorkflowHistoryStore implements IWorkflowHistoryStore {
+  private readonly records = new Map<string, IWorkflowHistoryRecord[]>();
+
+  append(record: IWorkflowHistoryRecord): Promise<void> {
+    const key = String(record.urn);
+    const entries = this.records.get(key) ?? [];
+    entries.push(record);
+    this.records.set(key, entries);
+    return Promise.resolve();
+  }
+
+  getHistory(urn: string | number): Promise<IWorkflowHistoryRecord[]> {
+    return Promise.resolve([...(this.records.get(String(urn)) ?? [])]);
+  }
+
+  /** Drop all recorded history. */
+  clear(): void {
+    this.records.clear();
+  }
+}
@@ -1,3 +1,5 @@
+export * from './history.store';
 export * from './orchestrator.service';
 export * from './router.factory';
 export * from './router.service';
+export * from './workflow.registry';
@@ -1,21 +1,73 @@
 import {
   getRetryKey,
+  RetryBackoff,
+  WORKFLOW_COMPENSATION_KEY,
   WORKFLOW_DEFAULT_EVENT,
   WORKFLOW_DEFINITION_KEY,
   WORKFLOW_HANDLER_KEY,
+  WORKFLOW_LIFECYCLE_KEY,
+  WORKFLOW_MIGRATE_EVENT,
+  WORKFLOW_MIGRATION_KEY,
+  DefinitionStates,
+  type DefinitionValidationMode,
   type IBackoffRetryConfig,
+  type IChildWorkflow,
+  type IChildWorkflowInvocation,
+  type IChildWorkflowResult,
+  type ICompensationContext,
+  type IParallelState,
+  type IStatusChange,
+  type IWorkflowBinding,
   type IWorkflowDefaultRoute,
   type IWorkflowDefinition,
+  type IWorkflowDomainEventBase,
   type IWorkflowEntity,
+  type IWorkflowEventPublisher,
+  type IWorkflowExecutionContext,
   type IWorkflowHandler,
+  type IWorkflowHistoryRecord,
+  type IWorkflowHistoryStore,
+  type IWorkflowLifecycleHook,
+  type IWorkflowMigration,
+  type IWorkflowMigrationHook,
+  type ITransitionCheck,
   type TDefaultHandler,
   type TransitResult,
+  type WorkflowDomainEvent,
+  type WorkflowInterceptor,
+  type WorkflowInterceptorRef,
+  WORKFLOW_DEFINITION_BINDINGS,
+  WORKFLOW_DEFINITION_VALIDATION,
+  WORKFLOW_EVENT_PUBLISHER,
+  WORKFLOW_HISTORY_STORE,
+  WORKFLOW_INTERCEPTORS,
+  WORKFLOW_INTERCEPTORS_KEY,
+  WorkflowDefinitionValidator,
 } from '@/core';
+import { HandlerTimeoutException } from '@/exception/handler-timeout.exception';
 import { UnretriableException } from '@/exception/unretriable.exception';
-import { BadRequestException, Injectable, Logger, type OnModuleInit } from '@nestjs/common';
+import { WorkflowConflictException } from '@/exception/workflow-conflict.exception';
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  type OnModuleInit,
+  Optional,
+  type Type,
+} from '@nestjs/common';
 import { DiscoveryService, ModuleRef } from '@nestjs/core';
 import type { IWorkflowEvent } from '../types/workflow-event.interface';
 import { StateRouterHelperFactory } from './router.factory';
+import type { RouterService } from './router.service';
+import { WorkflowRegistry } from './workflow.registry';
+
+/** Fields of a history record known before the transit runs. */
+type HistoryContext = Omit<IWorkflowHistoryRecord, 'outcome' | 'to' | 'output' | 'error' | 'durationMs'>;
+/** Fields of a domain event besides those taken from the {@link HistoryContext}. */
+type DomainEventFields<E = WorkflowDomainEvent> = E extends WorkflowDomainEvent
+  ? Omit<E, keyof IWorkflowDomainEventBase>
+  : never;
 
 /**
  * Central orchestration engine that discovers workflow definitions at startup
@@ -27,28 +79,54 @@ import { StateRouterHelperFactory } from './router.factory';
  */
 @Injectable()
 export class OrchestratorService implements OnModuleInit {
-  /** Event-name → route lookup table, built once during `onModuleInit`. */
-  private routes = new Map<string, IWorkflowDefaultRoute>();
+  /**
+   * Workflow-name → version → event-name → route lookup table, built once
+   * during `onModuleInit`. Versions are sorted oldest first.
+   */
+  private routes = new Map<string, Map<number, Map<string, IWorkflowDefaultRoute>>>();
+  /** Event-name → names of the workflows handling it, for events sent without a `workflow`. */
+  private workflowsByEvent = new Map<string, string[]>();
+  /** Definition → event-name → `@OnCompensate` handler. */
+  private compensators = new Map<IWorkflowDefinition<object, string, string>, Map<string, IWorkflowHandler>>();
+  /** Definition → `@OnStateEnter` / `@OnStateExit` / `@OnStatusChanged` hooks. */
+  private lifecycleHooks = new Map<IWorkflowDefinition<object, string, string>, IWorkflowLifecycleHook[]>();
+  /**
+   * Handler classes bound to a definition, from `WorkflowModule.register()`
+   * and every `WorkflowModule.forFeature()`.
+   */
+  private bindings: IWorkflowBinding[] = [];
+  /** Definition → `@OnMigrate` hooks moving entities to its version. */
+  private migrations = new Map<IWorkflowDefinition<object, string, string>, IWorkflowMigrationHook[]>();
+  /** Domain events handed to the event publisher that did not settle yet — see {@link flushEvents}. */
+  private readonly pendingEvents = new Set<Promise<void>>();
   private readonly logger = new Logger(OrchestratorService.name);
 
   constructor(
     private readonly discoveryService: DiscoveryService,
     private readonly routerHelperFactory: StateRouterHelperFactory,
     private readonly moduleRef: ModuleRef,
+    @Optional() @Inject(WORKFLOW_HISTORY_STORE) private readonly historyStore?: IWorkflowHistoryStore,
+    @Optional()
+    @Inject(WORKFLOW_DEFINITION_VALIDATION)
+    private readonly validationMode: DefinitionValidationMode = 'warn',
+    @Optional() @Inject(WORKFLOW_INTERCEPTORS) private readonly interceptors: WorkflowInterceptor[] = [],
+    @Optional() private readonly registry: WorkflowRegistry = new WorkflowRegistry(),
+    @Optional()
+    @Inject(WORKFLOW_EVENT_PUBLISHER)
+    private readonly eventPublisher?: IWorkflowEventPublisher,
   ) {}
 
   onModuleInit() {
     const providers = this.discoveryService.getProviders();
+    this.bindings = providers
+      .filter((p) => p.token === WORKFLOW_DEFINITION_BINDINGS)
+      .flatMap((p) => (p.instance ?? []) as IWorkflowBinding[]);
     for (const provider of providers) {
       const { instance } = provider;
       if (!instance?.constructor) continue;
 
       const [workflowDefinition, handlerStore, defaultHandler] = [
-        Reflect.getMetadata(WORKFLOW_DEFINITION_KEY, instance.constructor) as IWorkflowDefinition<
-          object,
-          string,
-          string
-        >,
+        this.definitionOf(instance.constructor),
         Reflect.getMetadata(WORKFLOW_HANDLER_KEY, instance.constructor) as IWorkflowHandler[],
         Reflect.getMetadata(WORKFLOW_DEFAULT_EVENT, instance.constructor) as TDefaultHandler<object>,
         [],
@@ -56,10 +134,67 @@ export class OrchestratorService implements OnModuleInit {
 
       if (!handlerStore || handlerStore.length === 0 || !workflowDefinition) continue;
 
-      const entityService = this.moduleRef.get<IWorkflowEntity>(workflowDefinition.entityService, { strict: true });
+      this.validateDefinition(
+        workflowDefinition,
+        handlerStore.map((h) => h.event),
+      );
+
+      const entityService = this.moduleRef.get<IWorkflowEntity>(workflowDefinition.entityService, { strict: false });
+      if (workflowDefinition.parallel?.length && (!entityService.regionStatus || !entityService.updateRegion)) {
+        throw new Error(
+          `Workflow ${workflowDefinition.name} declares parallel states but its entity service does not implement regionStatus() and updateRegion()`,
+        );
+      }
+
+      const version = workflowDefinition.version ?? 1;
+      if (!Number.isInteger(version) || version < 1) {
+        throw new Error(`Workflow ${workflowDefinition.name} has version ${version}; versions are positive integers`);
+      }
+      const versions =
+        this.routes.get(workflowDefinition.name) ?? new Map<number, Map<string, IWorkflowDefaultRoute>>();
+      if (versions.has(version)) {
+        throw new Error(
+          workflowDefinition.version === undefined
+            ? `Duplicate workflow name detected: ${workflowDefinition.name}`
+            : `Duplicate workflow name detected: ${workflowDefinition.name} (version ${version})`,
+        );
+      }
+      const sibling = this.getDefinitions(workflowDefinition.name)[0];
+      if (sibling && sibling.entityService !== workflowDefinition.entityService) {
+        throw new Error(
+          `Versions of workflow ${workflowDefinition.name} use different entity services (${sibling.entityService}, ${workflowDefinition.entityService})`,
+        );
+      }
+      const workflowRoutes = new Map<string, IWorkflowDefaultRoute>();
+      versions.set(version, workflowRoutes);
+      this.routes.set(workflowDefinition.name, versions);
+
+      const compensators = (Reflect.getMetadata(WORKFLOW_COMPENSATION_KEY, instance.constructor) ??
+        []) as IWorkflowHandler[];
+      if (compensators.length > 0 && !workflowDefinition.saga) {
+        throw new Error(
+          `Workflow ${workflowDefinition.name} declares @OnCompensate handlers but no saga config in its definition`,
+        );
+      }
+      this.compensators.set(workflowDefinition, new Map(compensators.map((c) => [c.event, c])));
+      const lifecycleHooks = (Reflect.getMetadata(WORKFLOW_LIFECYCLE_KEY, instance.constructor) ??
+        []) as IWorkflowLifecycleHook[];
+      this.lifecycleHooks.set(workflowDefinition, lifecycleHooks);
+      const migrations = (Reflect.getMetadata(WORKFLOW_MIGRATION_KEY, instance.constructor) ??
+        []) as IWorkflowMigrationHook[];
+      const invalidMigration = migrations.find((m) => m.from !== undefined && m.from >= version);
+      if (invalidMigration) {
+        throw new Error(
+          `@OnMigrate(${invalidMigration.from}) of workflow ${workflowDefinition.name} version ${version} must migrate from an older version`,
+        );
+      }
+      this.migrations.set(workflowDefinition, migrations);
+
+      const classInterceptors = (Reflect.getMetadata(WORKFLOW_INTERCEPTORS_KEY, instance.constructor) ??
+        []) as WorkflowInterceptorRef[];
 
       for (const handler of handlerStore) {
-        if (this.routes.has(handler.event)) {
+        if (workflowRoutes.has(handler.event)) {
           throw new Error(
             `Duplicate workflow event handler detected for event: ${handler.event} in workflow: ${workflowDefinition.name}`,
           );
@@ -69,26 +204,632 @@ export class OrchestratorService implements OnModuleInit {
           | IBackoffRetryConfig
           | undefined;
 
-        this.routes.set(handler.event, {
+        workflowRoutes.set(handler.event, {
           handler: handler.handler,
           definition: workflowDefinition,
           instance,
           handlerName: handler.name,
           retryConfig,
+          timeout: handler.timeout ?? retryConfig?.timeout,
           defaultHandler,
           entityService,
+          interceptors: [
+            ...(this.interceptors ?? []),
+            ...this.resolveInterceptors(
+              [
+                ...classInterceptors,
+                ...((Reflect.getMetadata(WORKFLOW_INTERCEPTORS_KEY, handler.handler) ??
+                  []) as WorkflowInterceptorRef[]),
+              ],
+              workflowDefinition.name,
+            ),
+          ],
         });
+        const workflows = this.workflowsByEvent.get(handler.event) ?? [];
+        if (!workflows.includes(workflowDefinition.name)) {
+          this.workflowsByEvent.set(handler.event, [...workflows, workflowDefinition.name]);
+        }
+      }
+
+      this.registry.register({
+        name: workflowDefinition.name,
+        workflowClass: instance.constructor,
+        definition: workflowDefinition,
+        handlers: [...workflowRoutes].map(([event, route]) => ({
+          event,
+          name: route.handlerName,
+          retryConfig: route.retryConfig,
+          timeout: route.timeout,
+        })),
+        compensators: compensators.map(({ event, name }) => ({ event, name })),
+        lifecycleHooks: lifecycleHooks.map(({ kind, state, name }) => ({ kind, state, name })),
+        migrations: migrations.map(({ from, name }) => ({ from, name })),
+      });
+    }
+    this.validateVersions();
+    this.validateChildWorkflows();
+    const routeKeys = [...this.routes].flatMap(([workflow, versions]) =>
+      [...versions].flatMap(([version, events]) =>
+        [...events.keys()].map((e) => (versions.size > 1 ? `${workflow}@${version}:${e}` : `${workflow}:${e}`)),
+      ),
+    );
+    this.logger.log(`StateRouter initialized with ${routeKeys.length} routes: `, routeKeys);
+  }
+
+  /**
+   * Find the routes an event can be dispatched to. With a `workflow` name the
+   * lookup is scoped to that workflow; without one, every workflow handling
+   * the event is a candidate.
+   *
+   * Each workflow contributes the route of its latest version handling the
+   * event — {@link loadPinnedRoute} moves it to the entity's version.
+   */
+  private findRoutes(event: string, workflow?: string): IWorkflowDefaultRoute[] {
+    if (workflow) {
+      const route = this.latestRoute(workflow, event);
+      return route ? [route] : [];
+    }
+    return (this.workflowsByEvent.get(event) ?? []).map((name) => this.latestRoute(name, event)!);
+  }
+
+  /** The route of the latest version of `workflow` handling `event`. */
+  private latestRoute(workflow: string, event: string): IWorkflowDefaultRoute | undefined {
+    const versions = [...(this.routes.get(workflow)?.values() ?? [])];
+    return versions.findLast((routes) => routes.has(event))?.get(event);
+  }
+
+  /** The definitions of every registered version of a workflow, oldest first. */
+  private getDefinitions(workflow: string): IWorkflowDefinition<object, string, string>[] {
+    return [...(this.routes.get(workflow)?.values() ?? [])].map((routes) => routes.values().next().value!.definition);
+  }
+
+  /** The definition of a registered workflow, looked up by name — its latest version unless `version` is given. */
+  private getDefinition(workflow: string, version?: number): IWorkflowDefinition<object, string, string> | undefined {
+    const definitions = this.getDefinitions(workflow);
+    return version === undefined ? definitions.at(-1) : definitions.find((d) => (d.version ?? 1) === version);
+  }
+
+  /**
+   * Resolve the single route for an event.
+   *
+   * @throws {BadRequestException} If no workflow handles the event, or the
+   *   event is shared by several workflows and no `workflow` was given.
+   */
+  private resolveRoute(event: string, workflow?: string): IWorkflowDefaultRoute {
+    const routes = this.findRoutes(event, workflow);
+    if (routes.length === 0) {
+      throw new BadRequestException(
+        workflow
+          ? `No workflow found for event: ${event} in workflow: ${workflow}`
+          : `No workflow found for event: ${event}`,
+      );
+    }
+    if (routes.length > 1) {
+      throw new BadRequestException(
+        `Event ${event} is handled by multiple workflows (${routes.map((r) => r.definition.name).join(', ')}). Set "workflow" on the event to choose one.`,
+      );
+    }
+    return routes[0];
+  }
+
+  /**
+   * Turn `@UseWorkflowInterceptors()` references into instances, resolving
+   * classes from the module's providers.
+   * @throws {Error} If an interceptor class is not a provider.
+   */
+  private resolveInterceptors(refs: WorkflowInterceptorRef[], workflow: string): WorkflowInterceptor[] {
+    return refs.map((ref) => {
+      if (typeof ref !== 'function') return ref;
+      try {
+        return this.moduleRef.get(ref, { strict: false });
+      } catch {
+        throw new Error(
+          `Interceptor ${ref.name} used by workflow ${workflow} is not a provider. Add it to WorkflowModule.register({ providers })`,
+        );
+      }
+    });
+  }
+
+  /**
+   * Check that every child workflow declared in a definition is registered
+   * and handles its start event.
+   * @throws {Error} On the first child workflow that cannot be started.
+   */
+  private validateChildWorkflows() {
+    for (const workflow of this.routes.keys()) {
+      for (const child of this.getDefinitions(workflow).flatMap((d) => d.children ?? [])) {
+        if (!this.latestRoute(child.workflow, child.event)) {
+          throw new Error(
+            `Workflow ${workflow} starts child workflow ${child.workflow} with event ${child.event}, but no handler is registered for it`,
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Sort the versions of every workflow and check that the ones registered in
+   * several versions can pin their entities.
+   * @throws {Error} On the first such workflow whose entity service does not
+   *   implement `version()` and `updateVersion()`.
+   */
+  private validateVersions() {
+    for (const [workflow, versions] of this.routes) {
+      this.routes.set(workflow, new Map([...versions].sort(([a], [b]) => a - b)));
+      const { entityService } = versions.values().next().value!.values().next().value!;
+      if (versions.size > 1 && (!entityService.version || !entityService.updateVersion)) {
+        throw new Error(
+          `Workflow ${workflow} is registered in several versions (${[...versions.keys()].join(', ')}) but its entity service does not implement version() and updateVersion()`,
+        );
       }
     }
-    this.logger.log(`StateRouter initialized with ${this.routes.size} routes: `, Array.from(this.routes.keys()));
+  }
+
+  /**
+   * The version an entity is pinned to — `undefined` if it was never pinned.
+   * Entity services that cannot pin entities always get the route's version.
+   */
+  private pinnedVersion(route: IWorkflowDefaultRoute, entity: object): number | undefined {
+    const { definition, entityService } = route;
+    if (!entityService.version || !entityService.updateVersion) return definition.version ?? 1;
+    return entityService.version(entity);
+  }
+
+  /**
+   * Load the entity of an event along with the routes of the version it is
+   * pinned to. An entity that was never pinned is pinned to the latest version
+   * through `updateVersion()` — unless `persist` is `false`, as for dry runs.
+   *
+   * @throws {BadRequestException} If the entity does not exist or is pinned to
+   *   a version that is not registered.
+   */
+  private async loadVersion(
+    route: IWorkflowDefaultRoute,
+    urn: string | number,
+    event: string,
+    logger: Logger,
+    persist = true,
+  ): Promise<{ version: number; routes: Map<string, IWorkflowDefaultRoute>; entity: object }> {
+    const { definition, entityService } = route;
+    const versions = this.routes.get(definition.name)!;
+    const routerHelper = this.routerHelperFactory.create(event, entityService, definition, logger);
+    let entity = await routerHelper.loadAndValidateEntity(urn);
+
+    let version = this.pinnedVersion(route, entity);
+    if (version === undefined) {
+      version = [...versions.keys()].at(-1)!;
+      if (persist) {
+        entity = await entityService.updateVersion!(entity, version);
+        logger.log(`Entity ${urn} pinned to version ${version}`);
+      }
+    }
+    const routes = versions.get(version);
+    if (!routes) {
+      throw new BadRequestException(
+        `Entity ${urn} is pinned to version ${version} of workflow ${definition.name}, which is not registered`,
+      );
+    }
+    return { version, routes, entity };
+  }
+
+  /**
+   * Load the entity of an event and resolve the route of the version it is
+   * pinned to — see {@link loadVersion}.
+   *
+   * @throws {BadRequestException} If the entity does not exist, or its version
+   *   is not registered or does not handle the event.
+   */
+  private async loadPinnedRoute(
+    route: IWorkflowDefaultRoute,
+    urn: string | number,
+    event: string,
+    logger: Logger,
+    persist = true,
+  ): Promise<{ route: IWorkflowDefaultRoute; routerHelper: RouterService<object, string, string>; entity: object }> {
+    const { version, routes, entity } = await this.loadVersion(route, urn, event, logger, persist);
+    const pinned = routes.get(event);
+    if (!pinned) {
+      throw new BadRequestException(
+        `No workflow found for event: ${event} in workflow: ${route.definition.name} (version ${version})`,
+      );
+    }
+    const routerHelper = this.routerHelperFactory.create(event, pinned.entityService, pinned.definition, logger);
+    return { route: pinned, routerHelper, entity };
+  }
+
+  /**
+   * The definition of a workflow class — from `@Workflow`, or from a binding
+   * passed to `WorkflowModule.register({ definitions })`.
+   */
+  private definitionOf(workflowClass: Type<unknown>): IWorkflowDefinition<object, string, string> | undefined {
+    const decorated = Reflect.getMetadata(WORKFLOW_DEFINITION_KEY, workflowClass) as
+      | IWorkflowDefinition<object, string, string>
+      | undefined;
+    const binding = this.bindings.find((b) => b.workflow === workflowClass);
+    if (binding && decorated) {
+      throw new Error(
+        `Workflow class ${workflowClass.name} is decorated with @Workflow and bound to a definition; use one or the other`,
+      );
+    }
+    return (binding?.definition as IWorkflowDefinition<object, string, string>) ?? decorated;
+  }
+
+  /**
+   * Run {@link WorkflowDefinitionValidator} on a discovered workflow and react
+   * according to the configured {@link DefinitionValidationMode}.
+   */
+  private validateDefinition(definition: IWorkflowDefinition<object, string, string>, handledEvents: string[]) {
+    if (this.validationMode === 'off') return;
+
+    const issues = WorkflowDefinitionValidator.validate(definition, handledEvents);
+    if (issues.length === 0) return;
+
+    if (this.validationMode === 'error') {
+      throw new Error(
+        `Invalid workflow definition "${definition.name}":\n${issues.map((i) => `  - ${i.message}`).join('\n')}`,
+      );
+    }
+    for (const issue of issues) this.logger.warn(issue.message);
   }
 
   /**
    * Returns the retry configuration attached to the handler for a given event,
-   * or `undefined` if the handler has no `@WithRetry()` decorator.
+   * or `undefined` if the handler has no `@WithRetry()` decorator or the event
+   * cannot be resolved to a single workflow.
+   */
+  getRetryConfig(event: string, workflow?: string): IBackoffRetryConfig | undefined {
+    const routes = this.findRoutes(event, workflow);
+    return routes.length === 1 ? routes[0].retryConfig : undefined;
+  }
+
+  /**
+   * Returns the recorded transition history of an entity, oldest first.
+   * Empty when no {@link IWorkflowHistoryStore} is registered.
+   */
+  async getHistory(urn: string | number): Promise<IWorkflowHistoryRecord[]> {
+    return this.historyStore ? this.historyStore.getHistory(urn) : [];
+  }
+
+  /**
+   * Wait until the domain events published so far settled. A transit does not
+   * wait for the event publisher, so adapters running in Lambda call this
+   * before the invocation returns or suspends — events still in flight would
+   * be lost once the runtime freezes it.
+   */
+  async flushEvents(): Promise<void> {
+    while (this.pendingEvents.size > 0) {
+      await Promise.all(this.pendingEvents);
+    }
+  }
+
+  /**
+   * Check whether `event` would move the entity, without running the handler
+   * or updating the entity. Applies the same transitions, conditions and
+   * parallel-state join as {@link transit}; interceptors are not run.
+   *
+   * @throws {BadRequestException} If the event cannot be routed or the entity does not exist.
+   */
+  async canTransit(
+    urn: string | number,
+    event: string,
+    payload?: unknown,
+    workflow?: string,
+  ): Promise<ITransitionCheck> {
+    const resolved = this.resolveRoute(event, workflow);
+    const logger = new Logger(`Router::${resolved.definition.name}`);
+    const { route, routerHelper, entity } = await this.loadPinnedRoute(resolved, urn, event, logger, false);
+    return this.checkTransition(routerHelper, route.entityService, entity, payload);
+  }
+
+  /**
+   * List the events that would move the entity from its current state, in
+   * handler registration order. Conditions are evaluated without a payload,
+   * as for an event sent without one.
+   *
+   * @param workflow - The workflow of the entity. May be omitted when a single workflow is registered.
+   * @throws {BadRequestException} If the workflow is unknown or ambiguous, or the entity does not exist.
+   */
+  async availableEvents(urn: string | number, workflow?: string): Promise<string[]> {
+    const name = workflow ?? (this.routes.size === 1 ? [...this.routes.keys()][0] : undefined);
+    if (!name) {
+      throw new BadRequestException(
+        `Several workflows are registered (${[...this.routes.keys()].join(', ')}). Pass the workflow of entity ${urn}.`,
+      );
+    }
+    const versions = this.routes.get(name);
+    if (!versions) throw new BadRequestException(`No workflow found: ${name}`);
+
+    const logger = new Logger(`Router::${name}`);
+    const [[event, latest]] = [...versions.values()].at(-1)!;
+    const { routes, entity } = await this.loadVersion(latest, urn, event, logger, false);
+
+    return [...routes].flatMap(([event, { definition, entityService }]) => {
+      const routerHelper = this.routerHelperFactory.create(event, entityService, definition, logger);
+      return this.checkTransition(routerHelper, entityService, entity, undefined).allowed ? [event] : [];
+    });
+  }
+
+  /**
+   * Check whether the entity of an event is in the failed state of its
+   * workflow — a handler threw, and {@link compensate} may undo the completed
+   * steps. A routing error, like an event no transition matches, leaves the
+   * entity in its state.
+   *
+   * @throws {BadRequestException} If the event cannot be routed or the entity does not exist.
+   */
+  async isFailed(urn: string | number, event: string, workflow?: string): Promise<boolean> {
+    const resolved = this.resolveRoute(event, workflow);
+    const logger = new Logger(`Router::${resolved.definition.name}`);
+    const { route, entity } = await this.loadPinnedRoute(resolved, urn, event, logger, false);
+    return route.entityService.status(entity) === route.definition.states.failed;
+  }
+
+  /**
+   * Build the completion event for the parent of a child workflow started by
+   * {@link transit}. The payload is an {@link IChildWorkflowResult}.
+   *
+   * @returns The parent's `onDone` / `onFailed` event, or `null` while the
+   *   child has not reached a final or failed state.
+   */
+  async completeChildWorkflow(invocation: IChildWorkflowInvocation): Promise<IWorkflowEvent | null> {
+    const { parent, start } = invocation;
+    const route = this.resolveRoute(start.event, start.workflow);
+    const { entityService } = route;
+    const child = await entityService.load(start.urn);
+    if (!child) return null;
+
+    const definition = this.getDefinition(route.definition.name, this.pinnedVersion(route, child)) ?? route.definition;
+
+    const state = entityService.status(child);
+    const failed = state === definition.states.failed;
+    const routerHelper = this.routerHelperFactory.create(start.event, entityService, definition, this.logger);
+    if (!failed && !routerHelper.isInFinalStatus(child)) return null;
+
+    const config = this.getDefinitions(parent.workflow)
+      .flatMap((d) => d.children ?? [])
+      .findLast((c) => c.state === parent.state && c.workflow === definition.name);
+    if (!config) {
+      throw new BadRequestException(
+        `Workflow ${parent.workflow} declares no child workflow ${definition.name} in state ${parent.state}`,
+      );
+    }
+
+    const result: IChildWorkflowResult = { workflow: definition.name, urn: start.urn, state, failed, entity: child };
+    return {
+      event: failed ? (config.onFailed ?? config.onDone) : config.onDone,
+      workflow: parent.workflow,
+      urn: parent.urn,
+      payload: result,
+      attempt: 0,
+    };
+  }
+
+  /**
+   * Undo the completed steps of a failed entity — see {@link OnCompensate}.
+   *
+   * Walks the entity's history backwards and runs the compensator of every
+   * completed step that was not compensated yet, retrying each one according
+   * to `saga.retry` (or the compensator's `@WithRetry()`). The entity moves to
+   * `saga.compensated` once every compensator succeeded.
+   *
+   * Called by {@link transit} on an {@link UnretriableException}, and by
+   * adapters once the retries of a failing handler are exhausted.
+   *
+   * @param params The event whose step failed
+   * @returns The final result, or `null` when the workflow has no `saga` config
+   * @throws {BadRequestException} If the entity is not in the failed state of
+   *   its workflow — only a failed handler is compensated.
+   * @throws The compensator's error once its retries are exhausted — the entity
+   *   stays in its current state and a later run resumes where this one stopped.
+   */
+  async compensate(params: IWorkflowEvent): Promise<TransitResult | null> {
+    const { urn, event } = params;
+    const resolved = this.resolveRoute(event, params.workflow);
+    const logger = new Logger(`Saga::${resolved.definition.name}`);
+    const pinned = await this.loadPinnedRoute(resolved, urn, event, logger);
+    const { routerHelper } = pinned;
+    const { definition, instance, entityService } = pinned.route;
+    let entity = pinned.entity;
+    const saga = definition.saga;
+    if (!saga) return null;
+    if (!this.historyStore) {
+      throw new Error(`Workflow ${definition.name} needs a history store to compensate`);
+    }
+    const status = entityService.status(entity);
+    if (status !== definition.states.failed) {
+      throw new BadRequestException(
+        `Entity ${urn} is in ${status}, not in the failed state ${definition.states.failed}. Only failed entities can be compensated.`,
+      );
+    }
+
+    const history = (await this.historyStore.getHistory(urn)).filter((r) => r.workflow === definition.name);
+    // The handler failure that moved the entity to the failed state — not a later
+    // routing failure of a redelivered event, nor a failed compensator
+    const error = history.findLast(
+      (r) => r.outcome === 'failed' && r.handler && r.to === definition.states.failed,
+    )?.error;
+    const compensators = this.compensators.get(definition);
+
+    for (const step of this.findStepsToCompensate(history)) {
+      const compensator = compensators?.get(step.event);
+      if (!compensator) continue;
+
+      const context: HistoryContext = {
+        urn,
+        workflow: definition.name,
+        version: definition.version,
+        event: step.event,
+        from: entityService.status(entity),
+        payload: step.payload,
+        attempt: 0,
+        startedAt: new Date(),
+        handler: compensator.name,
+      };
+      const compensation: ICompensationContext = {
+        event: step.event,
+        payload: step.payload,
+        output: step.output,
+        error,
+      };
+      try {
+        const output = await this.runCompensator(routerHelper, definition, instance, compensator, entity, compensation);
+        await this.recordHistory(context, { outcome: 'compensated', output });
+        logger.log(`Compensated ${step.event} with ${compensator.name} (${urn})`);
+      } catch (e) {
+        logger.error(`Compensation of ${step.event} failed (${(e as Error).message})`, urn);
+        await this.recordHistory(context, { outcome: 'failed', error: e as Error });
+        throw e;
+      }
+    }
+
+    const from = entityService.status(entity);
+    entity = await entityService.update(entity, saga.compensated, { expectedStatus: from, event });
+    logger.log(`Element ${urn} compensated, now in ${saga.compensated}`);
+    await this.runLifecycleHooks(
+      routerHelper,
+      definition,
+      instance,
+      entity,
+      { event, from, to: saga.compensated },
+      logger,
+    );
+    const completion: HistoryContext = {
+      urn,
+      workflow: definition.name,
+      version: definition.version,
+      event,
+      from,
+      payload: params.payload,
+      attempt: params.attempt,
+      startedAt: new Date(),
+    };
+    await this.recordHistory(completion, { outcome: 'final', to: entityService.status(entity) });
+    if (from !== saga.compensated) {
+      this.publishEvent(completion, { type: 'state.entered', state: saga.compensated, from });
+    }
+    this.publishEvent(completion, { type: 'workflow.completed', state: saga.compensated });
+    return { status: 'final', state: saga.compensated };
+  }
+
+  /**
+   * Completed steps that were not compensated yet, most recent first. A
+   * `compensated` record cancels out the latest earlier step of its event.
    */
-  getRetryConfig(event: string): IBackoffRetryConfig | undefined {
-    return this.routes.get(event)?.retryConfig;
+  private findStepsToCompensate(history: IWorkflowHistoryRecord[]): IWorkflowHistoryRecord[] {
+    const compensated = new Map<string, number>();
+    const steps: IWorkflowHistoryRecord[] = [];
+    for (const record of [...history].reverse()) {
+      if (record.outcome === 'compensated') {
+        compensated.set(record.event, (compensated.get(record.event) ?? 0) + 1);
+      } else if (record.outcome !== 'failed' && record.handler) {
+        const pending = compensated.get(record.event) ?? 0;
+        if (pending > 0) compensated.set(record.event, pending - 1);
+        else steps.push(record);
+      }
+    }
+    return steps;
+  }
+
+  /** Run one compensator, retrying with backoff until it succeeds or its attempts are exhausted. */
+  private async runCompensator(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    instance: object,
+    compensator: IWorkflowHandler,
+    entity: object,
+    compensation: ICompensationContext,
+  ): Promise<unknown> {
+    const retryConfig =
+      (Reflect.getMetadata(getRetryKey(compensator.name), compensator.handler) as IBackoffRetryConfig | undefined) ??
+      (definition.saga?.retry && { handler: compensator.name, ...definition.saga.retry });
+    const maxAttempts = retryConfig?.maxAttempts ?? 1;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const args = routerHelper.buildParamDecorators(entity, compensation, instance, compensator.name);
+        return await compensator.handler.apply(instance, args);
+      } catch (e) {
+        if (attempt >= maxAttempts || e instanceof UnretriableException) throw e;
+        const delay = RetryBackoff.calculateDelay(attempt - 1, retryConfig!);
+        this.logger.warn(
+          `Compensator ${compensator.name} failed (attempt ${attempt}/${maxAttempts}), retrying in ${Math.round(delay)}ms`,
+        );
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Move an entity to a newer version of its workflow — see {@link OnMigrate}.
+   *
+   * Steps through every registered version after the entity's, up to
+   * `version`, running the `@OnMigrate` hook each one declares for the version
+   * before it. The state and version are persisted once every hook ran, so a
+   * failing hook leaves the entity untouched. Entities that were never pinned
+   * count as pinned to the latest version.
+   *
+   * @param urn The entity to migrate
+   * @param workflow The workflow of the entity
+   * @param version The version to migrate to. Defaults to the latest registered version.
+   * @returns The versions the entity moved between and its resulting state
+   * @throws {BadRequestException} If the workflow or version is not registered,
+   *   the entity does not exist or is pinned to a newer version, or its state
+   *   does not exist in a version it moves through.
+   */
+  async migrate(urn: string | number, workflow: string, version?: number): Promise<IWorkflowMigration> {
+    const versions = this.routes.get(workflow);
+    if (!versions) throw new BadRequestException(`No workflow found: ${workflow}`);
+    const to = version ?? [...versions.keys()].at(-1)!;
+    const target = versions.get(to);
+    if (!target) throw new BadRequestException(`Version ${to} of workflow ${workflow} is not registered`);
+
+    const logger = new Logger(`Migration::${workflow}`);
+    const route: IWorkflowDefaultRoute = target.values().next().value!;
+    const { entityService } = route;
+    const startedAt = new Date();
+    let entity = await this.routerHelperFactory
+      .create(WORKFLOW_MIGRATE_EVENT, entityService, route.definition, logger)
+      .loadAndValidateEntity(urn);
+    const from = this.pinnedVersion(route, entity) ?? [...versions.keys()].at(-1)!;
+    if (from > to) {
+      throw new BadRequestException(
+        `Entity ${urn} is pinned to version ${from} of workflow ${workflow}, which is newer than version ${to}`,
+      );
+    }
+
+    const initial = entityService.status(entity);
+    let state = initial;
+    let previous = from;
+    for (const [step, routes] of versions) {
+      if (step <= from || step > to) continue;
+      const { definition, instance } = routes.values().next().value!;
+      const hooks = this.migrations.get(definition) ?? [];
+      const hook = hooks.find((h) => h.from === previous) ?? hooks.find((h) => h.from === undefined);
+      if (hook) {
+        const migration: IWorkflowMigration = { workflow, from: previous, to: step, state };
+        const routerHelper = this.routerHelperFactory.create(WORKFLOW_MIGRATE_EVENT, entityService, definition, logger);
+        const args = routerHelper.buildParamDecorators(entity, migration, instance, hook.name);
+        state = (await hook.handler.apply(instance, args)) ?? state;
+      }
+      if (!(DefinitionStates.collect(definition) as Array<string | number>).includes(state)) {
+        throw new BadRequestException(
+          `State ${state} of entity ${urn} does not exist in version ${step} of workflow ${workflow}. Map it with an @OnMigrate(${previous}) hook.`,
+        );
+      }
+      previous = step;
+    }
+    if (from === to) return { workflow, from, to, state };
+
+    if (state !== initial) {
+      entity = await entityService.update(entity, state, { expectedStatus: initial, event: WORKFLOW_MIGRATE_EVENT });
+    }
+    await entityService.updateVersion!(entity, to);
+    logger.log(`Entity ${urn} migrated from version ${from} to ${to}, now in ${state}`);
+    await this.recordHistory(
+      { urn, workflow, version: to, event: WORKFLOW_MIGRATE_EVENT, from: initial, attempt: 0, startedAt },
+      { outcome: 'migrated', to: state },
+    );
+    return { workflow, from, to, state };
   }
 
   /**
@@ -96,111 +837,676 @@ export class OrchestratorService implements OnModuleInit {
    *
    * Loads the entity, finds a valid transition, runs the handler, updates
    * the entity status, and returns a {@link TransitResult} describing what
-   * happened and what the caller should do next.
+   * happened and what the caller should do next. Every outcome (including
+   * failures) is appended to the workflow history.
+   *
+   * A failing handler moves the entity to the failed state of its workflow,
+   * unless its `@WithRetry()` config allows another attempt after
+   * `params.attempt`: the entity then stays in its state and the error is
+   * rethrown for the adapter to retry the event.
+   *
+   * Events are routed by `params.workflow` when set. Without it, the event
+   * name must be handled by exactly one registered workflow.
    *
    * @throws {BadRequestException} If no workflow is registered for the event,
-   *   the entity is not found, or no valid transition matches.
+   *   the event is ambiguous, the entity is not found, a workflow-level condition fails, or no valid
+   *   transition matches.
+   * @throws {WorkflowConflictException} If the entity service rejected the
+   *   status update because the entity changed concurrently.
    */
   async transit(params: IWorkflowEvent): Promise<TransitResult> {
-    const { urn, payload, event } = params;
+    const resolved = this.resolveRoute(params.event, params.workflow);
 
-    const route = this.routes.get(event);
-    if (!route) throw new BadRequestException(`No workflow found for event: ${event}`);
-    const { definition, instance, defaultHandler, entityService, handlerName, handler } = route;
-
-    if (!definition) {
-      const className = instance.name;
+    if (!resolved.definition) {
+      const className = resolved.instance.name;
       throw new BadRequestException(
         `Workflow definition metadata is missing for controller class "${className}". Ensure @Workflow(...) is applied to the class and that decorators are not reordered.`,
       );
     }
 
-    const logger = new Logger(`Router::${definition.name}`);
-    const routerHelper = this.routerHelperFactory.create(event, entityService, definition, logger);
-    logger.log(`Method ${route.handlerName} is being called with arguments:`, params);
+    const logger = new Logger(`Router::${resolved.definition.name}`);
+    const startedAt = new Date();
+    const { route, routerHelper, entity } = await this.loadPinnedRoute(resolved, params.urn, params.event, logger);
+    const { definition, handlerName, interceptors } = route;
+    logger.log(`Method ${handlerName} is being called with arguments:`, params);
 
-    // ========================= BEGIN routing logic =========================
-    let entity = await routerHelper.loadAndValidateEntity(urn);
+    const context: IWorkflowExecutionContext = {
+      event: params,
+      workflow: definition.name,
+      definition,
+      handler: handlerName,
+      entity,
+      payload: params.payload,
+    };
+    // Global, class-level then handler-level interceptors, outermost first
+    const next = (index: number): Promise<TransitResult> =>
+      index < interceptors.length
+        ? interceptors[index].intercept(context, { handle: () => next(index + 1) })
+        : this.executeTransit(route, { ...params, payload: context.payload }, entity, routerHelper, logger, startedAt);
+    return next(0);
+  }
 
+  /** Run the transition of {@link transit} once the interceptors let it through. */
+  private async executeTransit(
+    route: IWorkflowDefaultRoute,
+    params: IWorkflowEvent,
+    entity: object,
+    routerHelper: RouterService<object, string, string>,
+    logger: Logger,
+    startedAt: Date,
+  ): Promise<TransitResult> {
+    const { urn, payload, event } = params;
+    const { definition, instance, defaultHandler, entityService, handlerName } = route;
+
+    // ========================= BEGIN routing logic =========================
     const entityStatus = entityService.status(entity);
-    const { transition, hasEventStateMatch } = routerHelper.findValidTransition(entity, payload);
+    const history: HistoryContext = {
+      urn,
+      workflow: definition.name,
+      version: definition.version,
+      event,
+      from: entityStatus,
+      payload,
+      attempt: params.attempt,
+      startedAt,
+    };
+    // Inside a parallel state, events moving one of its regions take precedence
+    const parallel = routerHelper.getParallelState(entity);
+    const regionMatch = parallel ? routerHelper.findRegionTransition(entity, payload, parallel) : undefined;
+    const region = regionMatch?.hasEventStateMatch ? regionMatch : undefined;
+    const { transition, hasEventStateMatch, failedGlobalCondition } =
+      region ?? routerHelper.findValidTransition(entity, payload);
+
+    if (failedGlobalCondition) {
+      const error = new BadRequestException(
+        `Workflow condition "${failedGlobalCondition}" rejected event: ${event}, status: ${entityStatus} (${urn})`,
+      );
+      logger.warn(error.message);
+      await this.recordHistory(history, { outcome: 'failed', error });
+      throw error;
+    }
 
     if (!transition) {
       // Idle states: silently wait when a transition exists but conditions aren't met
       if (hasEventStateMatch && routerHelper.isInIdleStatus(entity)) {
         logger.log(`Entity ${urn} is in idle state ${entityStatus}. Conditions not met — waiting for next event.`);
-        const timeout = routerHelper.getIdleTimeout(entityStatus) ?? definition.defaultCallbackTimeout;
-        return { status: 'idle', state: entityStatus, timeout };
+        await this.recordHistory(history, { outcome: 'idle', to: entityStatus });
+        return this.toIdleResult(routerHelper, definition, urn, entityStatus);
       }
+      const error = new BadRequestException(
+        `No matched transition for event: ${event}, status: ${entityStatus}. Please verify your workflow definition!`,
+      );
+      await this.recordHistory(history, { outcome: 'failed', error });
       if (defaultHandler) {
         logger.log(`Falling back to the default transition`, urn);
         await defaultHandler.call(instance, entity, event, payload);
       }
-      throw new BadRequestException(
-        `No matched transition for event: ${event}, status: ${entityStatus}. Please verify your workflow definition!`,
-      );
+      throw error;
+    }
+
+    // Join — the parallel state can only be left once every region is done
+    if (parallel && !region) {
+      const pendingRegions = routerHelper.getPendingRegions(entity, parallel);
+      if (pendingRegions.length > 0) {
+        const error = new BadRequestException(
+          `Event ${event} cannot leave parallel state ${entityStatus} before its regions join. Pending regions: ${pendingRegions.join(', ')} (${urn})`,
+        );
+        await this.recordHistory(history, { outcome: 'failed', error });
+        throw error;
+      }
     }
 
+    if (region) {
+      history.region = region.region!.name;
+      history.from = region.from!;
+    }
+    const target = region ? transition.to : routerHelper.resolveTargetState(transition.to);
+    let handlerOutput: unknown;
     try {
       logger.log('======= WORKFLOW STEP STARTED =======');
-      logger.log(`Executing transition from ${entityStatus} to ${transition.to} (${urn})`);
-
-      const args = routerHelper.buildParamDecorators(entity, payload, instance, handlerName);
-      const handlerOutput = await handler.apply(instance, args);
+      logger.log(`Executing transition from ${history.from} to ${target} (${urn})`);
 
-      // Update entity status
-      entity = await entityService.update(entity, transition.to);
-      logger.log(`Element transitioned from ${entityStatus} to ${transition.to} (${urn})`);
-
-      const updatedStatus = entityService.status(entity);
+      history.handler = handlerName;
+      this.publishEvent(history, {
+        type: 'transition.started',
+        from: history.from,
+        to: target,
+        region: history.region,
+        handler: handlerName,
+        payload,
+        attempt: params.attempt,
+      });
+      handlerOutput = await this.invokeHandler(route, routerHelper, entity, payload);
 
-      // Final state — workflow complete
-      const definedFinalStates = definition.states.finals as Array<string | number>;
-      if (definedFinalStates.includes(updatedStatus)) {
-        logger.log(`Element ${urn} reached final state: ${updatedStatus}`);
-        return { status: 'final', state: updatedStatus };
-      }
+      if (region) {
+        const regionName = region.region!.name;
+        entity = await entityService.updateRegion!(entity, regionName, target, {
+          expectedStatus: region.from!,
+          event,
+        });
+        logger.log(`Region ${regionName} transitioned from ${region.from} to ${target} (${urn})`);
 
-      // Idle state — wait for explicit external event
-      if (routerHelper.isInIdleStatus(entity)) {
-        logger.log(`Element ${urn} reached idle state: ${updatedStatus}. Waiting for explicit event.`);
-        const timeout = routerHelper.getIdleTimeout(updatedStatus) ?? definition.defaultCallbackTimeout;
-        return { status: 'idle', state: updatedStatus, timeout };
+        const result = this.resolveRegionNextStep(
+          routerHelper,
+          definition,
+          entityService,
+          parallel!,
+          regionName,
+          entity,
+          handlerOutput,
+          logger,
+        );
+        await this.recordHistory(history, { outcome: result.status, to: target, output: handlerOutput });
+        this.publishCompleted(history, target, result, handlerOutput);
+        return result;
       }
 
-      // Find next valid transition
-      const { transition: nextTransition } = routerHelper.findValidTransition(entity, handlerOutput, {
-        skipEventCheck: true,
-      });
+      // Update entity status — conditional on the state the transition was validated against
+      entity = await entityService.update(entity, target, { expectedStatus: entityStatus, event });
+      logger.log(`Element transitioned from ${entityStatus} to ${target} (${urn})`);
 
-      if (!nextTransition) {
-        logger.warn(`There's no valid next transition from ${updatedStatus} or the condition is not met. (${urn})`);
-        return { status: 'no_transition', state: updatedStatus, timeout: definition.defaultCallbackTimeout };
+      const updatedStatus = entityService.status(entity);
+      await this.runLifecycleHooks(
+        routerHelper,
+        definition,
+        instance,
+        entity,
+        { event, from: entityStatus, to: updatedStatus, output: handlerOutput },
+        logger,
+      );
+      const enteredParallel = routerHelper.getParallelState(entity);
+      const childWorkflow = definition.children?.find((c) => c.state === updatedStatus);
+      let result: TransitResult;
+      if (enteredParallel) {
+        result = await this.forkRegions(
+          routerHelper,
+          definition,
+          entityService,
+          enteredParallel,
+          entity,
+          handlerOutput,
+          logger,
+        );
+      } else if (childWorkflow) {
+        result = await this.startChildWorkflow(
+          routerHelper,
+          definition,
+          entityService,
+          childWorkflow,
+          entity,
+          handlerOutput,
+          logger,
+        );
+      } else {
+        result = this.resolveNextStep(routerHelper, definition, entityService, entity, handlerOutput, logger);
       }
-
-      const nextEvent = Array.isArray(nextTransition.event) ? nextTransition.event[0] : nextTransition.event;
-      logger.log(`Next event: ${nextEvent} for entity ${urn}`);
-      return {
-        status: 'continued',
-        nextEvent: {
-          event: nextEvent as string,
-          urn,
-          payload: handlerOutput,
-          attempt: 0,
-        },
-      };
+      await this.recordHistory(history, { outcome: result.status, to: updatedStatus, output: handlerOutput });
+      this.publishCompleted(history, updatedStatus, result, handlerOutput);
+      return result;
     } catch (e) {
-      await entityService.update(entity, definition.states.failed);
+      // A concurrent writer already moved the entity — leave it alone and let the adapter retry
+      if (e instanceof WorkflowConflictException) {
+        logger.warn(`Concurrent update detected, entity is no longer in ${entityStatus} (${urn})`);
+        await this.recordHistory(history, { outcome: 'failed', output: handlerOutput, error: e });
+        this.publishFailed(history, e);
+        throw e;
+      }
+      // Attempts left — keep the entity in its state so the adapter can retry the transition
+      if (this.hasAttemptsLeft(route, params, e)) {
+        logger.warn(
+          `Transition failed on attempt ${params.attempt + 1}/${route.retryConfig!.maxAttempts}, entity stays in ${entityStatus} (${(e as Error).message})`,
+          urn,
+        );
+        await this.recordHistory(history, { outcome: 'failed', output: handlerOutput, error: e as Error });
+        this.publishFailed(history, e as Error);
+        throw e;
+      }
+      const failedFrom = entityService.status(entity);
+      entity = await entityService.update(entity, definition.states.failed, { expectedStatus: failedFrom, event });
       logger.error(`Transition failed. Setting status to failed (${(e as Error).message})`, urn);
+      await this.runLifecycleHooks(
+        routerHelper,
+        definition,
+        instance,
+        entity,
+        { event, from: failedFrom, to: definition.states.failed, output: handlerOutput },
+        logger,
+      );
+      await this.recordHistory(history, {
+        outcome: 'failed',
+        to: definition.states.failed,
+        output: handlerOutput,
+        error: e as Error,
+      });
+      if (failedFrom !== definition.states.failed) {
+        this.publishEvent(history, { type: 'state.entered', state: definition.states.failed, from: failedFrom });
+      }
+      this.publishFailed(history, e as Error, definition.states.failed);
       // UnretriableException signals a permanent failure — don't rethrow so the
       // message is not retried by the broker/Lambda adapter.
       if (!(e instanceof UnretriableException)) {
         throw e;
       }
+      if (definition.saga) {
+        return (await this.compensate(params))!;
+      }
+      this.publishEvent(history, { type: 'workflow.completed', state: definition.states.failed });
       return {
         status: 'final',
         state: definition.states.failed as string | number,
       };
     }
   }
+
+  /**
+   * Whether the `@WithRetry()` config of the route allows another attempt
+   * after `error` — the entity then stays in its state instead of failing.
+   */
+  private hasAttemptsLeft(route: IWorkflowDefaultRoute, params: IWorkflowEvent, error: unknown): boolean {
+    if (error instanceof UnretriableException || !route.retryConfig) return false;
+    return params.attempt + 1 < route.retryConfig.maxAttempts;
+  }
+
+  /** Evaluate the transition {@link executeTransit} would take, without running it. */
+  private checkTransition(
+    routerHelper: RouterService<object, string, string>,
+    entityService: IWorkflowEntity,
+    entity: object,
+    payload: unknown,
+  ): ITransitionCheck {
+    const from = entityService.status(entity);
+    const parallel = routerHelper.getParallelState(entity);
+    const regionMatch = parallel ? routerHelper.findRegionTransition(entity, payload, parallel) : undefined;
+    const region = regionMatch?.hasEventStateMatch ? regionMatch : undefined;
+    const { transition, failedGlobalCondition, failedConditions } =
+      region ?? routerHelper.findValidTransition(entity, payload);
+
+    if (!transition) {
+      return {
+        allowed: false,
+        from,
+        failedConditions: failedGlobalCondition ? [failedGlobalCondition] : failedConditions,
+      };
+    }
+    if (region) {
+      return {
+        allowed: true,
+        from: region.from!,
+        to: transition.to,
+        region: region.region!.name,
+        failedConditions: [],
+      };
+    }
+
+    const to = routerHelper.resolveTargetState(transition.to);
+    const pendingRegions = parallel ? routerHelper.getPendingRegions(entity, parallel) : [];
+    if (pendingRegions.length > 0) return { allowed: false, from, to, failedConditions: [], pendingRegions };
+    return { allowed: true, from, to, failedConditions: [] };
+  }
+
+  /**
+   * Call the route's `@OnEvent` handler. With a `timeout`, the handler's
+   * `@Signal()` is aborted when it elapses and the call fails with a
+   * {@link HandlerTimeoutException} — wrapped in an {@link UnretriableException}
+   * unless the retry config allows retrying it.
+   */
+  private async invokeHandler(
+    route: IWorkflowDefaultRoute,
+    routerHelper: RouterService<object, string, string>,
+    entity: object,
+    payload: unknown,
+  ): Promise<unknown> {
+    const { instance, handler, handlerName, timeout, retryConfig } = route;
+    const controller = new AbortController();
+    const args = routerHelper.buildParamDecorators(entity, payload, instance, handlerName, controller.signal);
+    if (timeout === undefined) return handler.apply(instance, args);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new HandlerTimeoutException(
+          `Handler ${handlerName} timed out after ${timeout}ms`,
+          handlerName,
+          timeout,
+        );
+        controller.abort(error);
+        reject(
+          retryConfig && retryConfig.retryOnTimeout !== false
+            ? error
+            : new UnretriableException(error.message, { cause: error }),
+        );
+      }, timeout);
+    });
+    try {
+      return await Promise.race([handler.apply(instance, args), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Run the lifecycle hooks of a persisted status change: exit hooks of the
+   * states left, enter hooks of the states entered, then `@OnStatusChanged`.
+   * The status is already stored, so a failing hook is logged and never fails
+   * the transit.
+   */
+  private async runLifecycleHooks(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    instance: object,
+    entity: object,
+    change: IStatusChange,
+    logger: Logger,
+  ) {
+    const hooks = this.lifecycleHooks.get(definition) ?? [];
+    if (hooks.length === 0 || change.from === change.to) return;
+
+    const { exited, entered } = routerHelper.getStateChange(change.from as string, change.to as string);
+    const hooksToRun = [
+      ...exited.flatMap((state) => hooks.filter((h) => h.kind === 'exit' && h.state === state)),
+      ...entered.flatMap((state) => hooks.filter((h) => h.kind === 'enter' && h.state === state)),
+      ...hooks.filter((h) => h.kind === 'changed'),
+    ];
+    for (const hook of hooksToRun) {
+      try {
+        const args = routerHelper.buildParamDecorators(entity, change, instance, hook.name);
+        await hook.handler.apply(instance, args);
+      } catch (e) {
+        logger.error(`Lifecycle hook ${hook.name} failed after ${change.event} (${(e as Error).message})`);
+      }
+    }
+  }
+
+  /**
+   * Decide what the caller should do after the entity moved to a new state:
+   * stop (final), wait (idle / no_transition) or feed the next auto-transition event.
+   */
+  private resolveNextStep(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    entityService: IWorkflowEntity,
+    entity: object,
+    handlerOutput: unknown,
+    logger: Logger,
+  ): TransitResult {
+    const urn = entityService.urn(entity);
+    const updatedStatus = entityService.status(entity);
+
+    // Final state — workflow complete
+    if (routerHelper.isInFinalStatus(entity)) {
+      logger.log(`Element ${urn} reached final state: ${updatedStatus}`);
+      return { status: 'final', state: updatedStatus };
+    }
+
+    // Idle state — wait for explicit external event
+    if (routerHelper.isInIdleStatus(entity)) {
+      logger.log(`Element ${urn} reached idle state: ${updatedStatus}. Waiting for explicit event.`);
+      return this.toIdleResult(routerHelper, definition, urn, updatedStatus);
+    }
+
+    // Find next valid transition
+    const { transition: nextTransition } = routerHelper.findValidTransition(entity, handlerOutput, {
+      skipEventCheck: true,
+    });
+
+    if (!nextTransition) {
+      logger.warn(`There's no valid next transition from ${updatedStatus} or the condition is not met. (${urn})`);
+      return this.toNoTransitionResult(definition, urn, updatedStatus);
+    }
+
+    const nextEvent = this.toNextEvent(definition, urn, nextTransition.event, handlerOutput);
+    logger.log(`Next event: ${nextEvent.event} for entity ${urn}`);
+    return { status: 'continued', nextEvent };
+  }
+
+  /**
+   * Start every region of a parallel state the entity just entered and return
+   * the first auto-transition of each region as a branch to run.
+   */
+  private async forkRegions(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    entityService: IWorkflowEntity,
+    parallel: IParallelState<object, string, string>,
+    entity: object,
+    handlerOutput: unknown,
+    logger: Logger,
+  ): Promise<TransitResult> {
+    const urn = entityService.urn(entity);
+    for (const region of parallel.regions) {
+      entity = await entityService.updateRegion!(entity, region.name, region.initial);
+    }
+    logger.log(
+      `Element ${urn} forked into regions ${parallel.regions.map((r) => r.name).join(', ')} of ${parallel.state}`,
+    );
+
+    const branches: IWorkflowEvent[] = [];
+    for (const region of parallel.regions) {
+      const { transition } = routerHelper.findRegionTransition(entity, handlerOutput, parallel, {
+        region: region.name,
+        skipEventCheck: true,
+      });
+      if (transition) branches.push(this.toNextEvent(definition, urn, transition.event, handlerOutput));
+    }
+
+    if (branches.length > 0) return { status: 'forked', state: parallel.state, branches };
+    if (routerHelper.getPendingRegions(entity, parallel).length === 0) {
+      return this.resolveNextStep(routerHelper, definition, entityService, entity, handlerOutput, logger);
+    }
+    return this.waitInParallelState(routerHelper, definition, entity, parallel, urn);
+  }
+
+  /**
+   * Decide what comes after a region moved: the region's next auto-transition,
+   * the join once every region is done, or waiting for the remaining regions.
+   */
+  private resolveRegionNextStep(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    entityService: IWorkflowEntity,
+    parallel: IParallelState<object, string, string>,
+    regionName: string,
+    entity: object,
+    handlerOutput: unknown,
+    logger: Logger,
+  ): TransitResult {
+    const urn = entityService.urn(entity);
+    const { transition } = routerHelper.findRegionTransition(entity, handlerOutput, parallel, {
+      region: regionName,
+      skipEventCheck: true,
+    });
+    if (transition) {
+      const nextEvent = this.toNextEvent(definition, urn, transition.event, handlerOutput);
+      logger.log(`Next event: ${nextEvent.event} in region ${regionName} for entity ${urn}`);
+      return { status: 'continued', nextEvent };
+    }
+
+    const pendingRegions = routerHelper.getPendingRegions(entity, parallel);
+    if (pendingRegions.length === 0) {
+      logger.log(`All regions of ${parallel.state} joined (${urn})`);
+      return this.resolveNextStep(routerHelper, definition, entityService, entity, handlerOutput, logger);
+    }
+
+    logger.log(`Waiting for regions ${pendingRegions.join(', ')} of ${parallel.state} (${urn})`);
+    return this.waitInParallelState(routerHelper, definition, entity, parallel, urn);
+  }
+
+  /**
+   * The entity entered a state that waits for a child workflow — resolve the
+   * child entity and return an `idle` result carrying the child invocation.
+   */
+  private async startChildWorkflow(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    entityService: IWorkflowEntity,
+    child: IChildWorkflow<object, string, string>,
+    entity: object,
+    handlerOutput: unknown,
+    logger: Logger,
+  ): Promise<TransitResult> {
+    const parentUrn = entityService.urn(entity);
+    const childEntityService = this.resolveRoute(child.event, child.workflow).entityService;
+    const childUrn = child.urn
+      ? child.urn(entity, handlerOutput)
+      : childEntityService.urn(await childEntityService.create());
+    logger.log(`Element ${parentUrn} waits in ${child.state} for child workflow ${child.workflow} (${childUrn})`);
+
+    return {
+      status: 'idle',
+      state: child.state,
+      timeout: routerHelper.getIdleTimeout(child.state) ?? definition.defaultCallbackTimeout,
+      child: {
+        parent: { workflow: definition.name, urn: parentUrn, state: child.state },
+        start: {
+          event: child.event,
+          workflow: child.workflow,
+          urn: childUrn,
+          payload: handlerOutput as IWorkflowEvent['payload'],
+          attempt: 0,
+        },
+      },
+    };
+  }
+
+  /** Regions are still running — wait for their events in the parallel state. */
+  private waitInParallelState(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    entity: object,
+    parallel: IParallelState<object, string, string>,
+    urn: string | number,
+  ): TransitResult {
+    if (routerHelper.isInIdleStatus(entity)) {
+      return this.toIdleResult(routerHelper, definition, urn, parallel.state);
+    }
+    return this.toNoTransitionResult(definition, urn, parallel.state);
+  }
+
+  /** Wait in an idle state, with its callback timeout and the event fired when it elapses. */
+  private toIdleResult(
+    routerHelper: RouterService<object, string, string>,
+    definition: IWorkflowDefinition<object, string, string>,
+    urn: string | number,
+    state: string | number,
+  ): TransitResult {
+    const onTimeout = routerHelper.getTimeoutEvent(state);
+    return {
+      status: 'idle',
+      state,
+      timeout: routerHelper.getIdleTimeout(state) ?? definition.defaultCallbackTimeout,
+      ...(onTimeout !== undefined && { onTimeout: this.toNextEvent(definition, urn, onTimeout, undefined) }),
+    };
+  }
+
+  /** Wait for an explicit event, with the workflow's default callback timeout and timeout event. */
+  private toNoTransitionResult(
+    definition: IWorkflowDefinition<object, string, string>,
+    urn: string | number,
+    state: string | number,
+  ): TransitResult {
+    const onTimeout = definition.defaultOnTimeout;
+    return {
+      status: 'no_transition',
+      state,
+      timeout: definition.defaultCallbackTimeout,
+      ...(onTimeout !== undefined && { onTimeout: this.toNextEvent(definition, urn, onTimeout, undefined) }),
+    };
+  }
+
+  /** Build the event fed back to the orchestrator for an auto-transition. */
+  private toNextEvent(
+    definition: IWorkflowDefinition<object, string, string>,
+    urn: string | number,
+    event: string | string[],
+    handlerOutput: unknown,
+  ): IWorkflowEvent {
+    return {
+      event: Array.isArray(event) ? event[0] : event,
+      workflow: definition.name,
+      urn,
+      payload: handlerOutput as IWorkflowEvent['payload'],
+      attempt: 0,
+    };
+  }
+
+  /**
+   * Publish the domain events of a stored transition: `state.entered` if the
+   * entity moved, `transition.completed`, and `workflow.completed` if it
+   * reached a final state.
+   */
+  private publishCompleted(history: HistoryContext, to: string | number, result: TransitResult, output: unknown): void {
+    if (!this.eventPublisher) return;
+    const { from, region, handler } = history;
+    if (to !== from) this.publishEvent(history, { type: 'state.entered', state: to, from, region });
+    this.publishEvent(history, {
+      type: 'transition.completed',
+      from,
+      to,
+      region,
+      handler: handler!,
+      outcome: result.status,
+      output,
+      durationMs: Date.now() - history.startedAt.getTime(),
+    });
+    if (result.status === 'final') this.publishEvent(history, { type: 'workflow.completed', state: result.state });
+  }
+
+  /** Publish the `transition.failed` event of a started transition. */
+  private publishFailed(history: HistoryContext, error: Error, to?: string | number): void {
+    this.publishEvent(history, {
+      type: 'transition.failed',
+      from: history.from,
+      to,
+      region: history.region,
+      handler: history.handler!,
+      error: { name: error.name, message: error.message },
+      retriable: !(error instanceof UnretriableException),
+      durationMs: Date.now() - history.startedAt.getTime(),
+    });
+  }
+
+  /**
+   * Hand a domain event to the event publisher, if one is registered. The
+   * transit does not wait for its subscribers — see {@link flushEvents};
+   * publish failures are logged, never thrown.
+   */
+  private publishEvent(context: HistoryContext, event: DomainEventFields): void {
+    const publisher = this.eventPublisher;
+    if (!publisher) return;
+    const { urn, workflow, version } = context;
+    const domainEvent = {
+      urn,
+      workflow,
+      version,
+      event: context.event,
+      occurredAt: new Date(),
+      ...event,
+    } as WorkflowDomainEvent;
+    const pending: Promise<void> = Promise.resolve()
+      .then(() => publisher.publish(domainEvent))
+      .catch((e: unknown) => {
+        this.logger.error(`Failed to publish workflow event ${event.type} (${(e as Error).message})`, String(urn));
+      })
+      .finally(() => this.pendingEvents.delete(pending));
+    this.pendingEvents.add(pending);
+  }
+
+  /** Append a record to the history store. Store failures are logged, never thrown. */
+  private async recordHistory(
+    context: HistoryContext,
+    result: Pick<IWorkflowHistoryRecord, 'outcome' | 'to' | 'output'> & { error?: Error },
+  ): Promise<void> {
+    if (!this.historyStore) return;
+    const { error, ...rest } = result;
+    try {
+      await this.historyStore.append({
+        ...context,
+        ...rest,
+        error: error ? { name: error.name, message: error.message } : undefined,
+        durationMs: Date.now() - context.startedAt.getTime(),
+      });
+    } catch (e) {
+      this.logger.error(`Failed to record workflow history (${(e as Error).message})`, String(context.urn));
+    }
+  }
 }
@@ -1,5 +1,14 @@
 import { BadRequestException, type Logger } from '@nestjs/common';
-import type { Duration, ITransitionEvent, IWorkflowDefinition, IWorkflowEntity, PayloadValidator } from '../types';
+import type {
+  Duration,
+  IParallelState,
+  ITransitionEvent,
+  IWorkflowDefinition,
+  IWorkflowEntity,
+  IWorkflowRegion,
+  PayloadValidator,
+} from '../types';
+import { StateHierarchy } from '../utils/state-hierarchy';
 
 /**
  * Transition-matching and entity-validation logic for a single workflow event.
@@ -8,19 +17,26 @@ import type { Duration, ITransitionEvent, IWorkflowDefinition, IWorkflowEntity,
  * rules for finding a valid transition, checking conditions, resolving idle
  * states, and building handler arguments from parameter decorators.
  *
+ * States declared under `states.compound` are resolved through their parents:
+ * a transition, idle or final declaration on a parent applies to its children.
+ *
  * @typeParam T     - Entity type
  * @typeParam Event - Event name type
  * @typeParam State - State value type
  * @internal
  */
 export class RouterService<T, Event, State> {
+  private readonly hierarchy: StateHierarchy;
+
   constructor(
     private readonly event: Event,
     private readonly entityService: IWorkflowEntity,
     private readonly workflowDefinition: IWorkflowDefinition<T, Event, State>,
     private readonly logger: Logger,
     private readonly payloadValidator: PayloadValidator | null,
-  ) {}
+  ) {
+    this.hierarchy = new StateHierarchy(workflowDefinition.states.compound);
+  }
 
   /** Load the entity by URN and verify it exists. Warns if already in a final state. */
   async loadAndValidateEntity(urn: string | number): Promise<T> {
@@ -30,10 +46,7 @@ export class RouterService<T, Event, State> {
       throw new BadRequestException(`Entity not found`, String(urn));
     }
 
-    const entityStatus = this.entityService.status(entity);
-    const definedFinalStates = this.workflowDefinition.states.finals as Array<string | number>;
-
-    if (definedFinalStates.includes(entityStatus)) {
+    if (this.isInFinalStatus(entity)) {
       this.logger.warn(`Entity: ${urn} is in a final status. Accepting transitions due to a retry mechanism.`, urn);
     }
 
@@ -44,40 +57,176 @@ export class RouterService<T, Event, State> {
    * Search the workflow's transitions for a valid match given the entity's
    * current state, the incoming event, and any guard conditions.
    *
+   * Workflow-level `conditions` are evaluated once, as soon as a transition
+   * matches the event and state. If one of them fails, no transition is
+   * returned and the guard is reported in `failedGlobalCondition`.
+   *
+   * Transitions are searched level by level, from the entity's own state up
+   * through its compound ancestors; the closest level with a match wins.
+   *
    * @param options.skipEventCheck - When `true`, matches transitions by state
    *   only (used for auto-transition after a handler completes).
-   * @returns The first matching transition and whether any event+state pair matched.
+   * @returns The first matching transition, whether any event+state pair matched,
+   *   the name of the workflow-level condition that rejected it (if any), and
+   *   the first failing condition of every transition rejected by its own conditions.
    */
   findValidTransition<P>(
     entity: T,
     payload: P,
     options?: { skipEventCheck?: boolean },
-  ): { transition: ITransitionEvent<T, Event, State, P> | null; hasEventStateMatch: boolean } {
+  ): {
+    transition: ITransitionEvent<T, Event, State, P> | null;
+    hasEventStateMatch: boolean;
+    failedGlobalCondition?: string;
+    failedConditions: string[];
+  } {
     const currentStatus = this.entityService.status(entity);
     const skipEventCheck = options?.skipEventCheck === true;
 
-    let firstMatch: ITransitionEvent<T, Event, State, P> | null = null;
     let hasEventStateMatch = false;
+    const failedConditions: string[] = [];
+
+    for (const level of this.hierarchy.lineage(currentStatus)) {
+      let firstMatch: ITransitionEvent<T, Event, State, P> | null = null;
+
+      for (const t of this.workflowDefinition.transitions) {
+        if (!this.matchesState(t.from, level)) continue;
+        if (!skipEventCheck && !this.matchesEvent(t.event)) continue;
+
+        if (!hasEventStateMatch) {
+          hasEventStateMatch = true;
+          const failedGlobalCondition = this.findFailedGlobalCondition(entity, payload);
+          if (failedGlobalCondition)
+            return { transition: null, hasEventStateMatch, failedGlobalCondition, failedConditions };
+        }
+
+        const failedCondition = this.findFailedCondition(t.conditions, entity, payload);
+        if (failedCondition) {
+          failedConditions.push(failedCondition);
+          continue;
+        }
+
+        if (!firstMatch) {
+          firstMatch = t;
+        } else if (t.to !== firstMatch.to) {
+          if (skipEventCheck) return { transition: null, hasEventStateMatch, failedConditions };
+          throw new BadRequestException(
+            `Multiple "to" transition states is not allowed, please verify Workflow Definition at @Workflow decorator: [${firstMatch.to}, ${t.to}]`,
+          );
+        }
+      }
+
+      if (firstMatch) return { transition: firstMatch, hasEventStateMatch, failedConditions };
+    }
+
+    return { transition: null, hasEventStateMatch, failedConditions };
+  }
+
+  /** The parallel state the entity is currently in, if any. */
+  getParallelState(entity: T): IParallelState<T, Event, State> | undefined {
+    const status = this.entityService.status(entity);
+    return this.workflowDefinition.parallel?.find((p) => (p.state as string | number) === status);
+  }
+
+  /** Names of the regions of `parallel` that have not reached one of their terminal sub-states. */
+  getPendingRegions(entity: T, parallel: IParallelState<T, Event, State>): string[] {
+    return parallel.regions
+      .filter((region) => {
+        const status = this.entityService.regionStatus?.(entity, region.name) as State | undefined;
+        return status === undefined || !region.finals.includes(status);
+      })
+      .map((region) => region.name);
+  }
+
+  /**
+   * Search the regions of a parallel state for a transition matching the
+   * incoming event and each region's current sub-state. Workflow-level
+   * `conditions` apply, and failing conditions are reported, as in {@link findValidTransition}.
+   *
+   * @param options.region - Restrict the search to one region.
+   * @param options.skipEventCheck - Match by sub-state only (auto-transition within a region).
+   * @returns The matching transition with its region and source sub-state.
+   * @throws {BadRequestException} If the event matches transitions in more than one region.
+   */
+  findRegionTransition<P>(
+    entity: T,
+    payload: P,
+    parallel: IParallelState<T, Event, State>,
+    options?: { region?: string; skipEventCheck?: boolean },
+  ): {
+    transition: ITransitionEvent<T, Event, State, P> | null;
+    region?: IWorkflowRegion<T, Event, State>;
+    from?: State;
+    hasEventStateMatch: boolean;
+    failedGlobalCondition?: string;
+    failedConditions: string[];
+  } {
+    const skipEventCheck = options?.skipEventCheck === true;
+
+    let match: {
+      transition: ITransitionEvent<T, Event, State, P>;
+      region: IWorkflowRegion<T, Event, State>;
+      from: State;
+    } | null = null;
+    let hasEventStateMatch = false;
+    const failedConditions: string[] = [];
 
-    for (const t of this.workflowDefinition.transitions) {
-      if (!this.matchesState(t.from, currentStatus)) continue;
-      if (!skipEventCheck && !this.matchesEvent(t.event)) continue;
+    for (const region of parallel.regions) {
+      if (options?.region !== undefined && region.name !== options.region) continue;
+      const from = this.entityService.regionStatus?.(entity, region.name) as State | undefined;
+      if (from === undefined) continue;
 
-      hasEventStateMatch = true;
+      for (const t of region.transitions) {
+        if (!this.matchesState(t.from, from as string | number)) continue;
+        if (!skipEventCheck && !this.matchesEvent(t.event)) continue;
 
-      if (t.conditions?.some((c) => !c(entity, payload))) continue;
+        if (!hasEventStateMatch) {
+          hasEventStateMatch = true;
+          const failedGlobalCondition = this.findFailedGlobalCondition(entity, payload);
+          if (failedGlobalCondition)
+            return { transition: null, hasEventStateMatch, failedGlobalCondition, failedConditions };
+        }
 
-      if (!firstMatch) {
-        firstMatch = t;
-      } else if (t.to !== firstMatch.to) {
-        if (skipEventCheck) return { transition: null, hasEventStateMatch };
-        throw new BadRequestException(
-          `Multiple "to" transition states is not allowed, please verify Workflow Definition at @Workflow decorator: [${firstMatch.to}, ${t.to}]`,
-        );
+        const failedCondition = this.findFailedCondition(t.conditions, entity, payload);
+        if (failedCondition) {
+          failedConditions.push(failedCondition);
+          continue;
+        }
+
+        if (!match) {
+          match = { transition: t, region, from };
+        } else if (match.region !== region) {
+          throw new BadRequestException(
+            `Event ${String(this.event)} matches transitions in several regions of ${String(parallel.state)}: [${match.region.name}, ${region.name}]`,
+          );
+        } else if (t.to !== match.transition.to) {
+          if (skipEventCheck) return { transition: null, hasEventStateMatch, failedConditions };
+          throw new BadRequestException(
+            `Multiple "to" transition states is not allowed, please verify Workflow Definition at @Workflow decorator: [${match.transition.to}, ${t.to}]`,
+          );
+        }
       }
     }
 
-    return { transition: firstMatch, hasEventStateMatch };
+    return match
+      ? { ...match, hasEventStateMatch, failedConditions }
+      : { transition: null, hasEventStateMatch, failedConditions };
+  }
+
+  /** Return the name of the first workflow-level condition that rejects the entity, if any. */
+  private findFailedGlobalCondition(entity: T, payload: unknown): string | undefined {
+    return this.findFailedCondition(this.workflowDefinition.conditions, entity, payload);
+  }
+
+  /** Return the name of the first condition that rejects the entity, falling back to its index. */
+  private findFailedCondition(
+    conditions: Array<(entity: T, payload?: any) => boolean> | undefined,
+    entity: T,
+    payload: unknown,
+  ): string | undefined {
+    const index = (conditions ?? []).findIndex((c) => !c(entity, payload));
+    if (index === -1) return undefined;
+    return conditions![index].name || `conditions[${index}]`;
   }
 
   private matchesState(from: State | State[], currentStatus: string | number): boolean {
@@ -90,35 +239,82 @@ export class RouterService<T, Event, State> {
     return Array.isArray(event) ? event.includes(this.event) : event === this.event;
   }
 
-  /** Check whether the entity's current state is listed as an idle state. */
+  /** Check whether the entity's current state, or one of its ancestors, is listed as an idle state. */
   isInIdleStatus(entity: T): boolean {
     const status = this.entityService.status(entity);
     if (!status) {
       throw new Error('Entity status is not defined. Unable to determine if the entity is idle or not.');
     }
+    const lineage = this.hierarchy.lineage(status);
     return this.workflowDefinition.states.idles.some((entry) =>
       typeof entry === 'object' && entry !== null && 'state' in entry
-        ? (entry.state as string | number) === status
-        : (entry as string | number) === status,
+        ? lineage.includes(entry.state as string | number)
+        : lineage.includes(entry as string | number),
     );
   }
 
-  /** Return the per-state timeout for an idle state, or `undefined` if none configured. */
+  /** Check whether the entity's current state, or one of its ancestors, is listed as a final state. */
+  isInFinalStatus(entity: T): boolean {
+    const definedFinalStates = this.workflowDefinition.states.finals as Array<string | number>;
+    return this.hierarchy.lineage(this.entityService.status(entity)).some((s) => definedFinalStates.includes(s));
+  }
+
+  /**
+   * Return the per-state timeout for an idle state, or `undefined` if none configured.
+   * A timeout on the closest idle ancestor applies when the state itself has none.
+   */
   getIdleTimeout(state: string | number): Duration | undefined {
-    for (const entry of this.workflowDefinition.states.idles) {
-      if (typeof entry === 'object' && entry !== null && 'state' in entry) {
-        if ((entry.state as string | number) === state) return entry.timeout;
+    for (const level of this.hierarchy.lineage(state)) {
+      for (const entry of this.workflowDefinition.states.idles) {
+        if (typeof entry === 'object' && entry !== null && 'state' in entry) {
+          if ((entry.state as string | number) === level) return entry.timeout;
+        }
       }
     }
     return undefined;
   }
 
   /**
-   * Resolve `@Entity()` and `@Payload()` parameter decorators into an ordered
-   * argument array for the handler method. Falls back to the legacy
+   * Return the event fired when a callback wait in `state` times out: the
+   * `onTimeout` of the closest idle entry, else the workflow's `defaultOnTimeout`.
+   */
+  getTimeoutEvent(state: string | number): Event | undefined {
+    for (const level of this.hierarchy.lineage(state)) {
+      for (const entry of this.workflowDefinition.states.idles) {
+        if (typeof entry === 'object' && entry !== null && 'state' in entry && entry.onTimeout !== undefined) {
+          if ((entry.state as string | number) === level) return entry.onTimeout;
+        }
+      }
+    }
+    return this.workflowDefinition.defaultOnTimeout;
+  }
+
+  /** The leaf state an entity lands in for a transition target, following compound `initial` children. */
+  resolveTargetState(state: State): State {
+    return this.hierarchy.resolveTarget(state as string | number) as State;
+  }
+
+  /**
+   * The states left and entered when the entity moves from `from` to `to`.
+   * Ancestors shared by both states are neither left nor entered. Exited
+   * states are listed innermost first, entered states outermost first.
+   */
+  getStateChange(from: State, to: State): { exited: State[]; entered: State[] } {
+    if (from === to) return { exited: [], entered: [] };
+    const fromLineage = this.hierarchy.lineage(from as string | number);
+    const toLineage = this.hierarchy.lineage(to as string | number);
+    return {
+      exited: fromLineage.filter((s) => !toLineage.includes(s)) as State[],
+      entered: toLineage.filter((s) => !fromLineage.includes(s)).reverse() as State[],
+    };
+  }
+
+  /**
+   * Resolve `@Entity()`, `@Payload()` and `@Signal()` parameter decorators into
+   * an ordered argument array for the handler method. Falls back to the legacy
    * `{ entity, payload }` shape when no decorator metadata is present.
    */
-  buildParamDecorators(entity: T, payload: any, target: any, propertyKey: string | symbol) {
+  buildParamDecorators(entity: T, payload: any, target: any, propertyKey: string | symbol, signal?: AbortSignal) {
     // Metadata is stored on the prototype when decorators are applied
     const prototype = target.constructor?.prototype || target;
     const paramsMeta: Array<{ index: number; type: string; dto?: any }> =
@@ -130,6 +326,7 @@ export class RouterService<T, Event, State> {
       for (const meta of paramsMeta) {
         if (meta.type === 'entity') args[meta.index] = entity;
         else if (meta.type === 'payload') args[meta.index] = this.validatePayload(meta.dto, payload);
+        else if (meta.type === 'signal') args[meta.index] = signal;
         else args[meta.index] = undefined;
       }
     } else {
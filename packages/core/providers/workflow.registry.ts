@@ -0,0 +1,68 @@
+import { Injectable } from '@nestjs/common';
+import type { IRegisteredWorkflow } from '../types';
+import { DefinitionStates } from '../utils/definition-states';
+
+/**
+ * Read-only view of the workflows registered with a {@link WorkflowModule}:
+ * their definitions, states, transitions, handlers, retry configs and entity
+ * service tokens — the same metadata {@link OrchestratorService} routes events with.
+ *
+ * Filled by the orchestrator while the module initialises; read it from
+ * `onApplicationBootstrap()` or later.
+ *
+ * @example
+ * ```typescript
+ * @Controller('admin/workflows')
+ * export class WorkflowAdminController {
+ *   constructor(private readonly registry: WorkflowRegistry) {}
+ *
+ *   @Get()
+ *   list() {
+ *     return this.registry.getWorkflows().map((w) => ({ name: w.name, states: w.states }));
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class WorkflowRegistry {
+  /** Workflow name → version → registered workflow. */
+  private readonly workflows = new Map<string, Map<number, IRegisteredWorkflow>>();
+
+  /**
+   * Add a discovered workflow.
+   * @internal Called by {@link OrchestratorService} during `onModuleInit`.
+   */
+  register(workflow: Omit<IRegisteredWorkflow, 'version' | 'states' | 'transitions' | 'entityService'>): void {
+    const { definition } = workflow;
+    const version = definition.version ?? 1;
+    const versions = this.workflows.get(workflow.name) ?? new Map<number, IRegisteredWorkflow>();
+    versions.set(version, {
+      ...workflow,
+      version,
+      entityService: definition.entityService,
+      states: DefinitionStates.collect(definition),
+      transitions: definition.transitions,
+    });
+    this.workflows.set(workflow.name, new Map([...versions].sort(([a], [b]) => a - b)));
+  }
+
+  /** The latest version of every registered workflow, in discovery order. */
+  getWorkflows(): IRegisteredWorkflow[] {
+    return [...this.workflows.values()].map((versions) => [...versions.values()].at(-1)!);
+  }
+
+  /** The workflow registered under `name` — its latest version unless `version` is given. */
+  getWorkflow(name: string, version?: number): IRegisteredWorkflow | undefined {
+    return version === undefined ? this.getVersions(name).at(-1) : this.workflows.get(name)?.get(version);
+  }
+
+  /** Every registered version of the workflow `name`, oldest first. */
+  getVersions(name: string): IRegisteredWorkflow[] {
+    return [...(this.workflows.get(name)?.values() ?? [])];
+  }
+
+  /** The workflows with an `@OnEvent` handler for `event`, in their latest version. */
+  findByEvent(event: string): IRegisteredWorkflow[] {
+    return this.getWorkflows().filter((w) => w.handlers.some((h) => h.event === event));
+  }
+}
@@ -0,0 +1,31 @@
+import type { IWorkflowEvent } from './workflow-event.interface';
+
+/**
+ * A child workflow started by the orchestrator when a parent entity enters a
+ * state declared in `IWorkflowDefinition.children`. Returned on the parent's
+ * `idle` {@link TransitResult} so adapters can run the child and report back
+ * with {@link OrchestratorService.completeChildWorkflow}.
+ */
+export interface IChildWorkflowInvocation {
+  /** The parent entity waiting for the child. */
+  parent: { workflow: string; urn: string | number; state: string | number };
+  /** Event that starts the child workflow. */
+  start: IWorkflowEvent;
+}
+
+/**
+ * Payload of the completion event the parent receives once its child
+ * workflow reached a final or failed state.
+ */
+export interface IChildWorkflowResult<T = unknown> {
+  /** Name of the child workflow. */
+  workflow: string;
+  /** URN of the child entity. */
+  urn: string | number;
+  /** State the child ended in. */
+  state: string | number;
+  /** `true` when the child ended in its failed state. */
+  failed: boolean;
+  /** The child entity as loaded after completion. */
+  entity: T;
+}
@@ -0,0 +1,95 @@
+import type { Type } from '@nestjs/common';
+import type { ICompoundState, IWorkflowDefinition } from './workflow-definition.interface';
+import type { IBackoffRetryConfig } from './retry.interface';
+import type { Duration } from './shared.type';
+
+type StateValue = string | number;
+
+/** A transition as written in a {@link IWorkflowDefinitionDocument}. */
+export interface ITransitionDocument {
+  event: string | string[];
+  from: StateValue[];
+  to: StateValue;
+  /** Names of conditions from the {@link WorkflowConditionLibrary}. */
+  conditions?: string[];
+}
+
+/**
+ * A workflow definition as written in JSON or YAML — the serialisable subset
+ * of {@link IWorkflowDefinition}. Conditions are referenced by name and
+ * resolved from a {@link WorkflowConditionLibrary}; the `urn` function of
+ * child workflows cannot be expressed and new child entities are created instead.
+ *
+ * Documents are validated against {@link WORKFLOW_DEFINITION_SCHEMA}.
+ *
+ * @example
+ * ```yaml
+ * name: OrderWorkflow
+ * entityService: entity.order
+ * states:
+ *   finals: [completed, cancelled]
+ *   idles: [pending, { state: review, timeout: { hours: 24 }, onTimeout: order.cancel }]
+ *   failed: failed
+ * transitions:
+ *   - { event: order.submit, from: [pending], to: review, conditions: [hasItems] }
+ *   - { event: order.approve, from: [review], to: completed }
+ *   - { event: order.cancel, from: [pending, review], to: cancelled }
+ * ```
+ */
+export interface IWorkflowDefinitionDocument {
+  /** URL or path of the JSON Schema, for editor support. Ignored when loading. */
+  $schema?: string;
+  name: string;
+  version?: number;
+  states: {
+    finals: StateValue[];
+    idles: Array<StateValue | { state: StateValue; timeout?: Duration; onTimeout?: string }>;
+    failed: StateValue;
+    compound?: ICompoundState<StateValue>[];
+  };
+  defaultCallbackTimeout?: Duration;
+  defaultOnTimeout?: string;
+  transitions: ITransitionDocument[];
+  /** Names of workflow-level conditions from the {@link WorkflowConditionLibrary}. */
+  conditions?: string[];
+  parallel?: Array<{
+    state: StateValue;
+    regions: Array<{ name: string; initial: StateValue; finals: StateValue[]; transitions: ITransitionDocument[] }>;
+  }>;
+  children?: Array<{ state: StateValue; workflow: string; event: string; onDone: string; onFailed?: string }>;
+  saga?: { compensated: StateValue; retry?: Omit<IBackoffRetryConfig, 'handler'> };
+  entityService: string;
+}
+
+/**
+ * Named conditions that {@link IWorkflowDefinitionDocument}s refer to, registered
+ * with `WorkflowModule.register({ conditions })`.
+ *
+ * @example
+ * ```typescript
+ * const conditions: WorkflowConditionLibrary = {
+ *   hasItems: (order: Order) => order.items.length > 0,
+ *   isApproved: (_order, payload?: { approved?: boolean }) => payload?.approved === true,
+ * };
+ * ```
+ */
+export type WorkflowConditionLibrary = Record<string, (entity: any, payload?: any) => boolean>;
+
+/**
+ * Binds a workflow definition to a handler class through
+ * `WorkflowModule.register({ definitions })` instead of `@Workflow`. The class
+ * declares its `@OnEvent` handlers as usual.
+ */
+export interface IWorkflowBinding {
+  /** The handler class. Registered as a provider of the module. */
+  workflow: Type<object>;
+  /** The definition: a document loaded from JSON or YAML, or a definition object. */
+  definition: IWorkflowDefinitionDocument | IWorkflowDefinition<any, any, any>;
+}
+
+/**
+ * NestJS injection token for the workflow bindings passed to
+ * {@link WorkflowModule.register} or {@link WorkflowModule.forFeature}, with
+ * their definitions resolved. Every module registering bindings provides its own.
+ */
+export const WORKFLOW_DEFINITION_BINDINGS = Symbol('WORKFLOW_DEFINITION_BINDINGS');
@@ -0,0 +1,8 @@
+/**
+ * Output format of {@link WorkflowDiagram.render}:
+ *
+ * - `mermaid` — Mermaid `stateDiagram-v2`, rendered by GitHub, GitLab and Docusaurus.
+ * - `dot` — Graphviz DOT, rendered with `dot -Tsvg`.
+ * - `plantuml` — PlantUML state diagram.
+ */
+export type DiagramFormat = 'mermaid' | 'dot' | 'plantuml';
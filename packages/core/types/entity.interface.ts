@@ -1,3 +1,16 @@
+/**
+ * Context passed by the orchestrator to {@link IWorkflowEntity.update} so the
+ * persistence layer can perform a conditional (compare-and-set) write.
+ *
+ * @typeParam State - The enum or union of valid entity states
+ */
+export interface IWorkflowUpdateContext<State = string | number> {
+  /** The status the transition was validated against — the entity must still be in it. */
+  expectedStatus: State;
+  /** The event that triggered the update. */
+  event: string;
+}
+
 /**
  * Contract for the persistence layer of a workflow entity.
  *
@@ -14,7 +27,7 @@
  * export class OrderEntityService implements IWorkflowEntity<Order, OrderStatus> {
  *   async create() { ... }
  *   async load(urn) { ... }
- *   async update(entity, status) { ... }
+ *   async update(entity, status, context) { ... }
  *   status(entity) { return entity.status; }
  *   urn(entity) { return entity.id; }
  * }
@@ -29,11 +42,17 @@ export interface IWorkflowEntity<T = any, State = string | number> {
 
   /**
    * Updates the status of an entity
+   *
+   * Two events for the same entity may be processed concurrently. To keep
+   * transitions safe, implementations should write conditionally on
+   * `context.expectedStatus` (or on a version attribute of the entity) and
+   * throw a {@link WorkflowConflictException} when the condition fails.
    * @param entity The entity to update
    * @param status The new status
+   * @param context The state the transition was validated against
    * @returns The updated entity
    */
-  update(entity: T, status: State): Promise<T>;
+  update(entity: T, status: State, context?: IWorkflowUpdateContext<State>): Promise<T>;
 
   /**
    * Loads an entity by its URN
@@ -49,6 +68,45 @@ export interface IWorkflowEntity<T = any, State = string | number> {
    */
   status(entity: T): State;
 
+  /**
+   * Gets the sub-state of a parallel region. Required when the workflow
+   * declares `parallel` states.
+   * @param entity The entity
+   * @param region The region name
+   * @returns The region's sub-state, or `undefined` if the region was never started
+   */
+  regionStatus?(entity: T, region: string): State | undefined;
+
+  /**
+   * Updates the sub-state of a parallel region. Required when the workflow
+   * declares `parallel` states. Like {@link update}, implementations should
+   * write conditionally on `context.expectedStatus` (the region's sub-state)
+   * when it is provided — it is omitted when a region is started.
+   * @param entity The entity to update
+   * @param region The region name
+   * @param status The new sub-state
+   * @param context The sub-state the transition was validated against
+   * @returns The updated entity
+   */
+  updateRegion?(entity: T, region: string, status: State, context?: IWorkflowUpdateContext<State>): Promise<T>;
+
+  /**
+   * Gets the definition version the entity is pinned to. Required, with
+   * {@link updateVersion}, when several versions of the workflow are registered.
+   * @param entity The entity
+   * @returns The pinned version, or `undefined` if the entity was never pinned
+   */
+  version?(entity: T): number | undefined;
+
+  /**
+   * Pins the entity to a definition version. Called on the first event of an
+   * entity, and by `OrchestratorService.migrate()` once a migration succeeded.
+   * @param entity The entity to update
+   * @param version The definition version
+   * @returns The updated entity
+   */
+  updateVersion?(entity: T, version: number): Promise<T>;
+
   /**
    * Gets the URN of an entity
    * @param entity The entity
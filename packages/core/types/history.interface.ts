@@ -0,0 +1,108 @@
+/**
+ * Outcome of a single {@link OrchestratorService.transit} call as recorded in
+ * the workflow history.
+ *
+ * Mirrors the {@link TransitResult} statuses, plus `failed` for transits that
+ * threw (handler error, rejected event, etc.), `compensated` for steps
+ * undone by an `@OnCompensate` handler and `migrated` for entities moved to
+ * another definition version.
+ */
+export type WorkflowHistoryOutcome =
+  | 'final'
+  | 'idle'
+  | 'continued'
+  | 'forked'
+  | 'no_transition'
+  | 'failed'
+  | 'compensated'
+  | 'migrated';
+
+/**
+ * One entry of the audit trail written by the orchestrator on every transit.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   urn: 'order-123',
+ *   workflow: 'OrderWorkflow',
+ *   event: 'order.submit',
+ *   from: 'pending',
+ *   to: 'processing',
+ *   outcome: 'continued',
+ *   payload: { approved: true },
+ *   output: { processedAt: '2026-01-01T00:00:00.000Z' },
+ *   attempt: 0,
+ *   startedAt: new Date('2026-01-01T00:00:00.000Z'),
+ *   durationMs: 12,
+ * }
+ * ```
+ */
+export interface IWorkflowHistoryRecord {
+  /** Unique resource name of the entity. */
+  urn: string | number;
+  /** Name of the workflow that handled the event. */
+  workflow: string;
+  /** Definition version that handled the event. Unset for unversioned workflows. */
+  version?: number;
+  /** Event that triggered the transit. */
+  event: string;
+  /** Parallel region the event moved. `from` and `to` are then the region's sub-states. */
+  region?: string;
+  /** Entity status when the transit started. */
+  from: string | number;
+  /** Entity status after the transit. Unset when the entity did not move. */
+  to?: string | number;
+  /** What happened — see {@link WorkflowHistoryOutcome}. */
+  outcome: WorkflowHistoryOutcome;
+  /** Payload of the incoming event. */
+  payload?: unknown;
+  /** Name of the handler method that ran. Unset when the event was rejected before reaching a handler. */
+  handler?: string;
+  /** Value returned by the event handler, if it ran. */
+  output?: unknown;
+  /** Error that made the transit fail, if any. */
+  error?: { name: string; message: string };
+  /** Retry attempt counter of the incoming event. */
+  attempt: number;
+  /** When the transit started. */
+  startedAt: Date;
+  /** Wall-clock duration of the transit in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * Pluggable persistence for the workflow audit trail.
+ *
+ * The orchestrator appends one {@link IWorkflowHistoryRecord} per transit.
+ * An in-memory implementation ({@link InMemoryWorkflowHistoryStore}) is
+ * registered by default — supply your own via
+ * `WorkflowModule.register({ historyStore })` to persist it (DynamoDB, SQL, etc.).
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class DynamoHistoryStore implements IWorkflowHistoryStore {
+ *   async append(record) { ... }
+ *   async getHistory(urn) { ... }
+ * }
+ * ```
+ */
+export interface IWorkflowHistoryStore {
+  /**
+   * Persist a history record
+   * @param record The record to store
+   */
+  append(record: IWorkflowHistoryRecord): Promise<void>;
+
+  /**
+   * Returns all records of an entity, oldest first
+   * @param urn The unique resource name of the entity
+   */
+  getHistory(urn: string | number): Promise<IWorkflowHistoryRecord[]>;
+}
+
+/**
+ * NestJS injection token for the {@link IWorkflowHistoryStore} used by
+ * {@link OrchestratorService}.
+ */
+export const WORKFLOW_HISTORY_STORE = Symbol('WORKFLOW_HISTORY_STORE');
@@ -1,7 +1,21 @@
+export * from './child-workflow.interface';
+export * from './definition-document.interface';
+export * from './diagram.type';
 export * from './entity.interface';
+export * from './history.interface';
+export * from './interceptor.interface';
+export * from './lifecycle.interface';
+export * from './migration.interface';
+export * from './module-options.interface';
+export * from './registry.interface';
 export * from './retry.interface';
+export * from './saga.interface';
 export * from './shared.type';
+export * from './step-functions.interface';
 export * from './transit-result.type';
+export * from './transition-check.interface';
 export * from './transition-event.interface';
+export * from './validation.type';
 export * from './workflow-definition.interface';
+export * from './workflow-domain-event.interface';
 export * from './workflow-event.interface';
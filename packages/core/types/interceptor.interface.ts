@@ -0,0 +1,73 @@
+import type { Type } from '@nestjs/common';
+import type { TransitResult } from './transit-result.type';
+import type { IWorkflowDefinition } from './workflow-definition.interface';
+import type { IWorkflowEvent } from './workflow-event.interface';
+
+/**
+ * What an interceptor knows about the transit it wraps.
+ *
+ * @typeParam T - The entity type managed by the workflow
+ */
+export interface IWorkflowExecutionContext<T = any> {
+  /** The incoming event, as passed to `transit()`. */
+  readonly event: IWorkflowEvent;
+  /** Name of the workflow the event was routed to. */
+  readonly workflow: string;
+  /** Definition of that workflow. */
+  readonly definition: IWorkflowDefinition<T, any, any>;
+  /** Name of the `@OnEvent` method about to run. */
+  readonly handler: string;
+  /** The entity, loaded before the transit. */
+  readonly entity: T;
+  /**
+   * Payload passed to the handler and its conditions. Assign it before
+   * calling `next.handle()` to transform the payload.
+   */
+  payload: unknown;
+}
+
+/** Continues the interceptor chain — the last call runs the transit itself. */
+export interface IWorkflowCallHandler {
+  handle(): Promise<TransitResult>;
+}
+
+/**
+ * Wraps every {@link OrchestratorService.transit} call with cross-cutting
+ * logic — tenant context, tracing, authorization, timing.
+ *
+ * An interceptor can short-circuit by returning a {@link TransitResult}
+ * without calling `next.handle()`, transform the payload through
+ * `context.payload`, or observe and replace the result.
+ *
+ * Register interceptors for every workflow with
+ * `WorkflowModule.register({ interceptors })`, or per workflow / handler with
+ * `@UseWorkflowInterceptors()`. Global interceptors run outermost, then
+ * class-level, then handler-level ones.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class TimingInterceptor implements WorkflowInterceptor {
+ *   async intercept(context: IWorkflowExecutionContext, next: IWorkflowCallHandler) {
+ *     const started = Date.now();
+ *     const result = await next.handle();
+ *     this.metrics.timing(`${context.workflow}.${context.event.event}`, Date.now() - started);
+ *     return result;
+ *   }
+ * }
+ * ```
+ */
+export interface WorkflowInterceptor<T = any> {
+  intercept(context: IWorkflowExecutionContext<T>, next: IWorkflowCallHandler): Promise<TransitResult>;
+}
+
+/**
+ * An interceptor instance, or a class resolved from the module's providers.
+ */
+export type WorkflowInterceptorRef = Type<WorkflowInterceptor> | WorkflowInterceptor;
+
+/**
+ * NestJS injection token for the global {@link WorkflowInterceptor}s
+ * registered through `WorkflowModule.register({ interceptors })`.
+ */
+export const WORKFLOW_INTERCEPTORS = Symbol('WORKFLOW_INTERCEPTORS');
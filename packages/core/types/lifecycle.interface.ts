@@ -0,0 +1,35 @@
+/**
+ * Kind of a state lifecycle hook:
+ * - `enter` — `@OnStateEnter(state)`, the entity entered `state`
+ * - `exit` — `@OnStateExit(state)`, the entity left `state`
+ * - `changed` — `@OnStatusChanged()`, the entity moved to any other state
+ */
+export type WorkflowLifecycleHookKind = 'enter' | 'exit' | 'changed';
+
+/** A lifecycle hook discovered on a workflow class. */
+export interface IWorkflowLifecycleHook {
+  kind: WorkflowLifecycleHookKind;
+  /** The state an `enter` / `exit` hook watches. Unset for `changed` hooks. */
+  state?: string | number;
+  /** The method name on the workflow class. */
+  name: string;
+  /** Reference to the method itself. */
+  handler: (...payload: any[]) => Promise<any>;
+}
+
+/**
+ * Payload passed to lifecycle hooks through `@Payload()` once the entity
+ * status was persisted.
+ *
+ * @typeParam State - The enum or union of valid entity states
+ */
+export interface IStatusChange<State = string | number> {
+  /** Event that moved the entity. */
+  event: string;
+  /** Status before the update. */
+  from: State;
+  /** Status after the update. */
+  to: State;
+  /** Value returned by the event handler, if any. */
+  output?: unknown;
+}
@@ -0,0 +1,26 @@
+/**
+ * Payload passed to `@OnMigrate` hooks through `@Payload()`, and returned by
+ * `OrchestratorService.migrate()` once the entity was moved.
+ *
+ * @typeParam State - The enum or union of valid entity states
+ */
+export interface IWorkflowMigration<State = string | number> {
+  /** Name of the workflow. */
+  workflow: string;
+  /** Version the entity is moved from. */
+  from: number;
+  /** Version the entity is moved to. */
+  to: number;
+  /** Entity status — before the hook runs, or once the migration completed. */
+  state: State;
+}
+
+/** An `@OnMigrate` hook discovered on a workflow class. */
+export interface IWorkflowMigrationHook {
+  /** The version the hook migrates from. Unset for hooks accepting any older version. */
+  from?: number;
+  /** The method name on the workflow class. */
+  name: string;
+  /** Reference to the method itself. */
+  handler: (...payload: any[]) => Promise<any>;
+}
@@ -0,0 +1,83 @@
+import type { InjectionToken, OptionalFactoryDependency, Provider, Type } from '@nestjs/common';
+import type { IWorkflowBinding, WorkflowConditionLibrary } from './definition-document.interface';
+import type { IWorkflowEntity } from './entity.interface';
+import type { IWorkflowHistoryStore } from './history.interface';
+import type { WorkflowInterceptor } from './interceptor.interface';
+import type { PayloadValidator } from './shared.type';
+import type { DefinitionValidationMode } from './validation.type';
+
+/**
+ * Module-wide options of {@link WorkflowModule.registerAsync}, resolved once
+ * the factory or options class they come from is instantiated.
+ */
+export interface IWorkflowModuleOptions {
+  /** Validation function for `@Payload(schema)` decorated parameters. */
+  payloadValidator?: PayloadValidator;
+  /** Store for the transition audit trail. Defaults to an `InMemoryWorkflowHistoryStore`. */
+  historyStore?: IWorkflowHistoryStore;
+  /** How invalid workflow definitions are reported at startup. Defaults to `warn`. */
+  validation?: DefinitionValidationMode;
+  /** Interceptors wrapping every transit, outermost first. */
+  interceptors?: WorkflowInterceptor[];
+  /** Named conditions the definition documents of `definitions` refer to. */
+  conditions?: WorkflowConditionLibrary;
+}
+
+/**
+ * Class creating the {@link IWorkflowModuleOptions}, for
+ * `WorkflowModule.registerAsync({ useClass })`.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class WorkflowConfig implements IWorkflowOptionsFactory {
+ *   constructor(private readonly config: ConfigService) {}
+ *
+ *   createWorkflowOptions(): IWorkflowModuleOptions {
+ *     return { validation: this.config.get('WORKFLOW_VALIDATION') };
+ *   }
+ * }
+ * ```
+ */
+export interface IWorkflowOptionsFactory {
+  createWorkflowOptions(): IWorkflowModuleOptions | Promise<IWorkflowModuleOptions>;
+}
+
+/** Providers a {@link WorkflowModule} registration adds to its module. */
+export interface IWorkflowFeatureOptions {
+  /** Additional NestJS modules to import. */
+  imports?: any[];
+  /** Providers for {@link IWorkflowEntity} implementations, keyed by injection token. */
+  entities?: Provider<IWorkflowEntity>[];
+  /** Workflow classes decorated with `@Workflow`. */
+  workflows?: Provider[];
+  /** Extra providers to include in the module. */
+  providers?: Provider[];
+  /** Handler classes bound to a definition document or object instead of `@Workflow`. */
+  definitions?: IWorkflowBinding[];
+}
+
+/**
+ * Options of {@link WorkflowModule.registerAsync}: the workflows and entity
+ * services to register, and how to create the {@link IWorkflowModuleOptions}.
+ * Set either `useFactory` or `useClass`.
+ */
+export interface IWorkflowModuleAsyncOptions extends IWorkflowFeatureOptions {
+  /**
+   * Register the module globally, so the providers of every module — including
+   * `forFeature()` modules — can inject the orchestrator. Defaults to `false`.
+   */
+  global?: boolean;
+  /** Factory returning the module options, called with the `inject` providers. */
+  useFactory?: (...args: any[]) => IWorkflowModuleOptions | Promise<IWorkflowModuleOptions>;
+  /** Providers passed to `useFactory`. */
+  inject?: Array<InjectionToken | OptionalFactoryDependency>;
+  /** Class instantiated as a provider to create the module options. */
+  useClass?: Type<IWorkflowOptionsFactory>;
+}
+
+/**
+ * NestJS injection token for the {@link IWorkflowModuleOptions} created by
+ * {@link WorkflowModule.registerAsync}.
+ */
+export const WORKFLOW_MODULE_OPTIONS = Symbol('WORKFLOW_MODULE_OPTIONS');
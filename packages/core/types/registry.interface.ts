@@ -0,0 +1,52 @@
+import type { Type } from '@nestjs/common';
+import type { WorkflowLifecycleHookKind } from './lifecycle.interface';
+import type { IBackoffRetryConfig } from './retry.interface';
+import type { ITransitionEvent } from './transition-event.interface';
+import type { IWorkflowDefinition } from './workflow-definition.interface';
+
+/** An `@OnEvent` handler of a registered workflow. */
+export interface IRegisteredHandler {
+  /** The event the handler responds to. */
+  event: string;
+  /** The method name on the workflow class. */
+  name: string;
+  /** The `@WithRetry()` config of the handler, if any. */
+  retryConfig?: IBackoffRetryConfig;
+  /** Milliseconds after which the handler is aborted, if a timeout is set. */
+  timeout?: number;
+}
+
+/**
+ * A workflow discovered by {@link OrchestratorService}, as exposed by
+ * {@link WorkflowRegistry}.
+ *
+ * @typeParam State - State value type
+ */
+export interface IRegisteredWorkflow<State = string | number> {
+  /** The `name` of the workflow definition. */
+  name: string;
+  /** The `version` of the workflow definition, `1` when it declares none. */
+  version: number;
+  /** The class decorated with `@Workflow`. */
+  workflowClass: Type<unknown>;
+  /** The definition passed to `@Workflow`. */
+  definition: IWorkflowDefinition<object, string, State>;
+  /** Injection token of the workflow's {@link IWorkflowEntity} service. */
+  entityService: string;
+  /**
+   * Every state the definition mentions — declared finals, idles and failed
+   * state, transition sources and targets, compound, parallel, child workflow
+   * and saga states — in order of first appearance.
+   */
+  states: State[];
+  /** The transitions of the definition. */
+  transitions: ITransitionEvent<object, string, State, any>[];
+  /** The `@OnEvent` handlers, in declaration order. */
+  handlers: IRegisteredHandler[];
+  /** The `@OnCompensate` handlers of a saga. */
+  compensators: Array<{ event: string; name: string }>;
+  /** The `@OnStateEnter`, `@OnStateExit` and `@OnStatusChanged` hooks. */
+  lifecycleHooks: Array<{ kind: WorkflowLifecycleHookKind; state?: State; name: string }>;
+  /** The `@OnMigrate` hooks moving entities to this version. */
+  migrations: Array<{ from?: number; name: string }>;
+}
@@ -45,6 +45,16 @@ export interface IBackoffRetryConfig {
   maxDelay?: number;
   /** `true` for full jitter, or a number `0–1` for partial jitter percentage. */
   jitter?: boolean | number;
+  /**
+   * Abort the handler after this many milliseconds. A timeout set on
+   * `@OnEvent()` takes precedence.
+   */
+  timeout?: number;
+  /**
+   * Whether a handler timeout is retried. Defaults to `true`; with `false`
+   * a timeout fails the transit permanently, like an `UnretriableException`.
+   */
+  retryOnTimeout?: boolean;
 }
 
 /**
@@ -0,0 +1,38 @@
+import type { IBackoffRetryConfig } from './retry.interface';
+
+/**
+ * Saga configuration of a workflow — see {@link OnCompensate}.
+ *
+ * @typeParam State - The enum or union of valid entity states
+ *
+ * @example
+ * ```typescript
+ * saga: {
+ *   compensated: OrderStatus.Compensated,
+ *   retry: { maxAttempts: 3, strategy: RetryStrategy.EXPONENTIAL, initialDelay: 200 },
+ * }
+ * ```
+ */
+export interface ISagaConfig<State> {
+  /** State the entity ends in once every compensator ran. */
+  compensated: State;
+  /**
+   * Retry policy applied to each compensator. Defaults to a single attempt.
+   * A `@WithRetry()` on the compensator method takes precedence.
+   */
+  retry?: Omit<IBackoffRetryConfig, 'handler'>;
+}
+
+/**
+ * Payload passed to an `@OnCompensate` handler through `@Payload()`.
+ */
+export interface ICompensationContext {
+  /** Event of the step being undone. */
+  event: string;
+  /** Payload the step was triggered with. */
+  payload?: unknown;
+  /** Value returned by the step's handler — e.g. the id of a charge to refund. */
+  output?: unknown;
+  /** Error of the failed step that started the compensation run. */
+  error?: { name: string; message: string };
+}
@@ -0,0 +1,90 @@
+/**
+ * Subset of the Amazon States Language produced by {@link StepFunctionsExporter}.
+ * Field names follow the ASL specification.
+ */
+export interface IAslStateMachine {
+  Comment?: string;
+  StartAt: string;
+  States: Record<string, AslState>;
+}
+
+export type AslState = IAslTaskState | IAslChoiceState | IAslPassState | IAslSucceedState | IAslFailState;
+
+/** A `Retry` entry of a Task state. */
+export interface IAslRetrier {
+  ErrorEquals: string[];
+  MaxAttempts?: number;
+  IntervalSeconds?: number;
+  BackoffRate?: number;
+  MaxDelaySeconds?: number;
+  JitterStrategy?: 'FULL' | 'NONE';
+}
+
+/** A `Catch` entry of a Task state. */
+export interface IAslCatcher {
+  ErrorEquals: string[];
+  ResultPath?: string;
+  Next: string;
+}
+
+export interface IAslTaskState {
+  Type: 'Task';
+  Comment?: string;
+  Resource: string;
+  Parameters?: Record<string, unknown>;
+  ResultPath?: string;
+  TimeoutSeconds?: number;
+  Retry?: IAslRetrier[];
+  Catch?: IAslCatcher[];
+  Next: string;
+}
+
+/** A rule of a Choice state, comparing one variable. */
+export interface IAslChoiceRule {
+  Variable: string;
+  StringEquals?: string;
+  NumericEquals?: number;
+  Next: string;
+}
+
+export interface IAslChoiceState {
+  Type: 'Choice';
+  Comment?: string;
+  Choices: IAslChoiceRule[];
+  Default?: string;
+}
+
+export interface IAslPassState {
+  Type: 'Pass';
+  Comment?: string;
+  InputPath?: string;
+  Next: string;
+}
+
+export interface IAslSucceedState {
+  Type: 'Succeed';
+  Comment?: string;
+}
+
+export interface IAslFailState {
+  Type: 'Fail';
+  Comment?: string;
+  Error: string;
+  Cause?: string;
+}
+
+/** Options of {@link StepFunctionsExporter.toAsl}. */
+export interface IStepFunctionsExportOptions {
+  /**
+   * ARN of the Lambda function that runs `OrchestratorService.transit()` for
+   * the `IWorkflowEvent` it receives and returns the {@link TransitResult}.
+   */
+  functionArn: string;
+  /**
+   * Name or ARN of the Lambda function invoked with a task token when the
+   * entity waits for an external event. Defaults to `functionArn`.
+   */
+  callbackFunctionArn?: string;
+  /** `Comment` of the state machine. Defaults to the workflow name. */
+  comment?: string;
+}
@@ -1,3 +1,4 @@
+import type { IChildWorkflowInvocation } from './child-workflow.interface';
 import type { Duration } from './shared.type';
 import type { IWorkflowEvent } from './workflow-event.interface';
 
@@ -11,13 +12,27 @@ import type { IWorkflowEvent } from './workflow-event.interface';
  * | `final`         | Entity reached a terminal state — workflow done.   |
  * | `idle`          | Entity is idle, waiting for an external callback.  |
  * | `continued`     | Auto-transition found — feed `nextEvent` back in.  |
+ * | `forked`        | Regions forked — run every event in `branches`.    |
  * | `no_transition` | No unambiguous next step — wait for explicit event.|
  *
+ * An `idle` result carrying `child` means the entity waits for a child
+ * workflow — run `child.start` to completion instead of waiting for a callback.
+ *
+ * `idle` and `no_transition` results carrying `onTimeout` declare what happens
+ * when no callback arrives within `timeout` — feed `onTimeout` back in.
+ *
  * Adapters consume this via `BaseWorkflowAdapter` handler methods or a
  * manual `switch` on `result.status`.
  */
 export type TransitResult =
   | { status: 'final'; state: string | number }
-  | { status: 'idle'; state: string | number; timeout?: Duration }
+  | {
+      status: 'idle';
+      state: string | number;
+      timeout?: Duration;
+      onTimeout?: IWorkflowEvent;
+      child?: IChildWorkflowInvocation;
+    }
   | { status: 'continued'; nextEvent: IWorkflowEvent }
-  | { status: 'no_transition'; state: string | number; timeout?: Duration };
+  | { status: 'forked'; state: string | number; branches: IWorkflowEvent[] }
+  | { status: 'no_transition'; state: string | number; timeout?: Duration; onTimeout?: IWorkflowEvent };
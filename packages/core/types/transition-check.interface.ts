@@ -0,0 +1,31 @@
+/**
+ * Result of {@link OrchestratorService.canTransit}: whether an event would
+ * move the entity, evaluated without running the handler or updating the entity.
+ *
+ * @example
+ * ```typescript
+ * {
+ *   allowed: false,
+ *   from: 'pending',
+ *   failedConditions: ['hasPaymentMethod'],
+ * }
+ * ```
+ */
+export interface ITransitionCheck<State = string | number> {
+  /** `true` when {@link OrchestratorService.transit} would run the handler for the event. */
+  allowed: boolean;
+  /** The entity's current state, or the region's sub-state for a region transition. */
+  from: State;
+  /** The state the entity would move to, when a transition matched. */
+  to?: State;
+  /** The region of the parallel state the transition belongs to. */
+  region?: string;
+  /**
+   * Names of the conditions that rejected the event: the workflow-level
+   * condition, or the first failing condition of each matching transition.
+   * Anonymous conditions are named by their index, e.g. `conditions[0]`.
+   */
+  failedConditions: string[];
+  /** Regions that must reach a final sub-state before the event can leave the parallel state. */
+  pendingRegions?: string[];
+}
@@ -4,8 +4,9 @@
  * - `from`: The state that the workflow is transitioning from.
  * - `to`: The state that the workflow is transitioning to.
  * - `conditions`: An optional array of conditions to be checked during the transition.
- * Actions and conditions can be defined as functions that take an entity and an optional payload as arguments or
- * as workflow actions classes that are decorated with the `@OnEvent` and/or `@OnStatusChanged` decorator.
+ * Conditions are functions that take an entity and an optional payload as arguments. Actions are methods of the
+ * workflow class decorated with `@OnEvent`; side effects of reaching a state belong in `@OnStateEnter`,
+ * `@OnStateExit` or `@OnStatusChanged` hooks.
  */
 export interface ITransitionEvent<T, Event, State = string, P = unknown> {
   event: Event;
@@ -0,0 +1,33 @@
+/**
+ * How {@link OrchestratorService} reacts to problems found by
+ * {@link WorkflowDefinitionValidator} at module initialisation.
+ *
+ * - `error` — throw, failing the application bootstrap.
+ * - `warn` — log every issue and continue (default).
+ * - `off` — skip validation.
+ */
+export type DefinitionValidationMode = 'error' | 'warn' | 'off';
+
+/** Kind of problem detected in a workflow definition. */
+export type DefinitionIssueCode =
+  | 'undeclared-state'
+  | 'final-has-outgoing'
+  | 'unreachable-state'
+  | 'handler-without-transition'
+  | 'transition-without-handler'
+  | 'failed-is-idle'
+  | 'invalid-compound-state'
+  | 'invalid-timeout-event';
+
+/** A single problem found in a workflow definition. */
+export interface IDefinitionValidationIssue {
+  code: DefinitionIssueCode;
+  /** Human-readable description, prefixed with the workflow name. */
+  message: string;
+}
+
+/**
+ * NestJS injection token for the {@link DefinitionValidationMode} provided via
+ * {@link WorkflowModule.register}.
+ */
+export const WORKFLOW_DEFINITION_VALIDATION = Symbol('WORKFLOW_DEFINITION_VALIDATION');
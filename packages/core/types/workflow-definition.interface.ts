@@ -1,4 +1,11 @@
-import type { Duration, IBackoffRetryConfig, ITransitionEvent, IWorkflowEntity } from '@/core';
+import type {
+  Duration,
+  IBackoffRetryConfig,
+  ISagaConfig,
+  ITransitionEvent,
+  IWorkflowEntity,
+  WorkflowInterceptor,
+} from '@/core';
 
 /**
  * Defines the structure of a workflow definition, which includes the following properties:
@@ -12,9 +19,115 @@ import type { Duration, IBackoffRetryConfig, ITransitionEvent, IWorkflowEntity }
  */
 /**
  * An idle state entry — either a bare state value or a state with a per-state
- * callback timeout that overrides {@link IWorkflowDefinition.defaultCallbackTimeout}.
+ * callback timeout that overrides {@link IWorkflowDefinition.defaultCallbackTimeout},
+ * and the event fired when that timeout elapses.
+ *
+ * @example
+ * ```typescript
+ * { state: SubscriptionStatus.Trial, timeout: { hours: 24 * 14 }, onTimeout: 'subscription.expire' }
+ * ```
  */
-export type IdleStateEntry<State> = State | { state: State; timeout?: Duration };
+export type IdleStateEntry<State, Event = string> =
+  | State
+  | {
+      state: State;
+      timeout?: Duration;
+      /** Event sent to the entity when no callback arrived within the timeout. */
+      onTimeout?: Event;
+    };
+
+/**
+ * A compound (parent) state grouping child states.
+ *
+ * Transitions whose `from` lists the parent apply to every child, and a parent
+ * listed in `idles` or `finals` makes all its children idle or final. Entities
+ * always rest in a leaf state — a transition targeting a parent lands in its
+ * `initial` child. Children may themselves be compound states.
+ *
+ * @example
+ * ```typescript
+ * { state: SubscriptionStatus.Active, children: [SubscriptionStatus.Trial, SubscriptionStatus.Paid], initial: SubscriptionStatus.Trial }
+ * ```
+ */
+export interface ICompoundState<State> {
+  /** The parent state. Never stored on an entity. */
+  state: State;
+  /** Direct children of the parent state. */
+  children: State[];
+  /** Child entered when a transition targets the parent state. */
+  initial?: State;
+}
+
+/**
+ * One independent branch of a {@link IParallelState}.
+ *
+ * A region keeps its own sub-state, persisted through
+ * {@link IWorkflowEntity.updateRegion}, and moves through its own transitions
+ * while the entity stays in the parallel state.
+ */
+export interface IWorkflowRegion<T, Event, State> {
+  /** Region name — the key the sub-state is stored under. */
+  name: string;
+  /** Sub-state the region starts in when the parallel state is entered. */
+  initial: State;
+  /** Terminal sub-states — the region is done once it reaches one of them. */
+  finals: State[];
+  /** Transitions between the region's sub-states. */
+  transitions: ITransitionEvent<T, Event, State, any>[];
+}
+
+/**
+ * A state whose regions run independently (fork) and must all reach a
+ * terminal sub-state before any transition out of it is allowed (join).
+ *
+ * @example
+ * ```typescript
+ * {
+ *   state: OrderStatus.Fulfilling,
+ *   regions: [
+ *     { name: 'payment', initial: 'authorized', finals: ['captured'], transitions: [...] },
+ *     { name: 'inventory', initial: 'requested', finals: ['reserved'], transitions: [...] },
+ *   ],
+ * }
+ * ```
+ */
+export interface IParallelState<T, Event, State> {
+  /** The state the entity holds while its regions run. */
+  state: State;
+  /** Regions started when the entity enters `state`. */
+  regions: IWorkflowRegion<T, Event, State>[];
+}
+
+/**
+ * A child workflow the parent waits on while it is in `state`.
+ *
+ * Entering `state` starts the child workflow with `event`; the parent stays
+ * idle until the child reaches a final or failed state, then receives
+ * `onDone` (or `onFailed`) with an {@link IChildWorkflowResult} payload.
+ *
+ * @example
+ * ```typescript
+ * { state: OrderStatus.AwaitingPayment, workflow: 'PaymentWorkflow', event: 'payment.start', onDone: OrderEvent.PaymentSettled }
+ * ```
+ */
+export interface IChildWorkflow<T, Event, State> {
+  /** Parent state that waits for the child. */
+  state: State;
+  /** Name of the registered child workflow. */
+  workflow: string;
+  /** Event that starts the child workflow. */
+  event: string;
+  /**
+   * URN of the child entity, derived from the parent entity and the output of
+   * the handler that entered `state`. When omitted, a new child entity is
+   * created through the child workflow's entity service.
+   */
+  urn?: (entity: T, output: unknown) => string | number;
+  /** Event sent to the parent when the child reaches a final state. */
+  onDone: Event;
+  /** Event sent to the parent when the child ends in its failed state. Defaults to `onDone`. */
+  onFailed?: Event;
+}
 
 /**
  * Complete definition of a workflow, passed to the {@link Workflow} class decorator.
@@ -42,24 +155,58 @@ export type IdleStateEntry<State> = State | { state: State; timeout?: Duration }
 export interface IWorkflowDefinition<T, Event, State> {
   /** Human-readable workflow name (used in logs). */
   name: string;
+  /**
+   * Version of the definition, a positive integer. Several versions of a
+   * workflow — classes sharing its `name` — can be registered side by side:
+   * every entity is pinned to the version it started on, and moves to a newer
+   * one only through {@link OrchestratorService.migrate}. Defaults to `1`.
+   */
+  version?: number;
   /** Categorised states that drive the orchestrator's routing behaviour. */
   states: {
     /** Terminal states — reaching one ends the workflow. */
     finals: State[];
     /** Idle states — the workflow pauses and waits for an external callback. */
-    idles: IdleStateEntry<State>[];
+    idles: IdleStateEntry<State, Event>[];
     /** The state to transition to when a handler throws an error. */
     failed: State;
+    /**
+     * Parent/child state groups. When a transition is declared on both a child
+     * and one of its ancestors, the one closest to the entity's state wins.
+     */
+    compound?: ICompoundState<State>[];
   };
   /**
    * Default timeout for callback waits (idle & no_transition states).
    * Per-state timeouts in `idles` take precedence over this value.
    */
   defaultCallbackTimeout?: Duration;
+  /**
+   * Event sent to the entity when a callback wait expires and its idle state
+   * declares no `onTimeout` of its own. Applies to `no_transition` waits too.
+   */
+  defaultOnTimeout?: Event;
   /** Allowed transitions between states, guarded by optional conditions. */
   transitions: ITransitionEvent<T, Event, State, any>[];
-  /** Global conditions evaluated on every transition in this workflow. */
+  /**
+   * Global conditions evaluated on every transition in this workflow — for
+   * explicit events and auto-transitions alike. When one fails, an explicit
+   * event is rejected (naming the guard by its function name) and an
+   * auto-transition stops with `no_transition`.
+   */
   conditions?: (<P>(entity: T, payload?: P | T | object | string) => boolean)[];
+  /**
+   * Parallel states with fork/join semantics. Requires the entity service to
+   * implement `regionStatus()` and `updateRegion()`.
+   */
+  parallel?: IParallelState<T, Event, State>[];
+  /** Child workflows started when the entity enters one of their `state`s. */
+  children?: IChildWorkflow<T, Event, State>[];
+  /**
+   * Enables compensation: when a step fails permanently, the `@OnCompensate`
+   * handlers of the completed steps run in reverse order.
+   */
+  saga?: ISagaConfig<State>;
   /**
    * NestJS injection token for the {@link IWorkflowEntity} service that
    * handles persistence for this workflow's entities.
@@ -80,6 +227,10 @@ export interface IWorkflowDefaultRoute {
   defaultHandler?: TDefaultHandler<any>;
   entityService: IWorkflowEntity;
   retryConfig?: IBackoffRetryConfig;
+  /** Milliseconds after which the handler is aborted, from `@OnEvent()` or `@WithRetry()`. */
+  timeout?: number;
+  /** Global, class-level and handler-level interceptors, outermost first. */
+  interceptors: WorkflowInterceptor[];
 }
 
 /**
@@ -94,6 +245,20 @@ export interface IWorkflowHandler {
   name: string;
   /** Reference to the method itself. */
   handler: (...payload: any[]) => Promise<any>;
+  /** Milliseconds after which the handler is aborted — see {@link IEventHandlerOptions}. */
+  timeout?: number;
+}
+
+/**
+ * Options of the {@link OnEvent} decorator.
+ */
+export interface IEventHandlerOptions {
+  /**
+   * Abort the handler after this many milliseconds. The handler's `@Signal()`
+   * parameter is aborted and the transit fails with a `HandlerTimeoutException`
+   * — retried when the handler has a `@WithRetry()` config, permanent otherwise.
+   */
+  timeout?: number;
 }
 
 /**
@@ -0,0 +1,131 @@
+import type { TransitResult } from './transit-result.type';
+
+/** Fields every {@link WorkflowDomainEvent} carries. */
+export interface IWorkflowDomainEventBase {
+  /** Unique resource name of the entity. */
+  urn: string | number;
+  /** Name of the workflow the entity runs through. */
+  workflow: string;
+  /** Definition version that handled the event. Unset for unversioned workflows. */
+  version?: number;
+  /** Workflow event that triggered the transit. */
+  event: string;
+  /** When the orchestrator emitted the domain event. */
+  occurredAt: Date;
+}
+
+/** A transition was validated and its `@OnEvent` handler is about to run. */
+export interface ITransitionStartedEvent extends IWorkflowDomainEventBase {
+  type: 'transition.started';
+  /** Status the entity leaves. */
+  from: string | number;
+  /** Status the transition leads to. */
+  to: string | number;
+  /** Parallel region the transition moves. `from` and `to` are then the region's sub-states. */
+  region?: string;
+  /** Name of the handler method. */
+  handler: string;
+  /** Payload of the incoming event. */
+  payload?: unknown;
+  /** Retry attempt counter of the incoming event. */
+  attempt: number;
+}
+
+/** The handler ran and the new status is stored. */
+export interface ITransitionCompletedEvent extends IWorkflowDomainEventBase {
+  type: 'transition.completed';
+  from: string | number;
+  /** Status of the entity after the transition. */
+  to: string | number;
+  region?: string;
+  handler: string;
+  /** What the caller does next — the status of the returned {@link TransitResult}. */
+  outcome: TransitResult['status'];
+  /** Value returned by the handler. */
+  output?: unknown;
+  /** Wall-clock duration of the transit in milliseconds. */
+  durationMs: number;
+}
+
+/**
+ * A started transition failed — the handler threw, or the status update was
+ * rejected. The entity is moved to the failed state of the workflow, unless
+ * the update conflicted with a concurrent transition.
+ */
+export interface ITransitionFailedEvent extends IWorkflowDomainEventBase {
+  type: 'transition.failed';
+  from: string | number;
+  /** Status the entity was moved to. Unset when it did not move. */
+  to?: string | number;
+  region?: string;
+  handler: string;
+  /** Error that made the transition fail. */
+  error: { name: string; message: string };
+  /** `false` for an {@link UnretriableException}, which is not retried by the adapters. */
+  retriable: boolean;
+  durationMs: number;
+}
+
+/** The entity, or one of its parallel regions, entered a new state. */
+export interface IStateEnteredEvent extends IWorkflowDomainEventBase {
+  type: 'state.entered';
+  /** The state entered. */
+  state: string | number;
+  /** The state left. */
+  from: string | number;
+  /** Parallel region that entered `state`, for region sub-states. */
+  region?: string;
+}
+
+/** The entity reached a final state — including the failed state, after an {@link UnretriableException}. */
+export interface IWorkflowCompletedEvent extends IWorkflowDomainEventBase {
+  type: 'workflow.completed';
+  /** The final state. */
+  state: string | number;
+}
+
+/**
+ * Domain event emitted by the orchestrator while it moves an entity, and
+ * published through the {@link IWorkflowEventPublisher} — the `WorkflowEventBus`
+ * of the event-bus entry point.
+ *
+ * A transit emits `transition.started`, then `state.entered` once the new
+ * status is stored, then `transition.completed` — or `transition.failed` if
+ * the handler or the update threw. `workflow.completed` follows when the
+ * entity reached a final state.
+ */
+export type WorkflowDomainEvent =
+  | ITransitionStartedEvent
+  | ITransitionCompletedEvent
+  | ITransitionFailedEvent
+  | IStateEnteredEvent
+  | IWorkflowCompletedEvent;
+
+/** Type of a {@link WorkflowDomainEvent}, e.g. `transition.completed`. */
+export type WorkflowDomainEventType = WorkflowDomainEvent['type'];
+
+/** The {@link WorkflowDomainEvent} of the given type. */
+export type WorkflowDomainEventOf<K extends WorkflowDomainEventType> = Extract<WorkflowDomainEvent, { type: K }>;
+
+/**
+ * Receives the {@link WorkflowDomainEvent}s of the orchestrator. A transit
+ * does not wait for `publish()` to settle, and only logs its failures. The
+ * Lambda adapters wait for the pending publishes with
+ * `OrchestratorService.flushEvents()` before their invocation returns or
+ * suspends, so events sent to a broker are not lost.
+ *
+ * Provided under {@link WORKFLOW_EVENT_PUBLISHER} by `WorkflowEventBusModule`;
+ * without a provider, the orchestrator publishes nothing.
+ */
+export interface IWorkflowEventPublisher {
+  /**
+   * Deliver an event
+   * @param event The event to deliver
+   */
+  publish(event: WorkflowDomainEvent): Promise<void>;
+}
+
+/**
+ * NestJS injection token for the {@link IWorkflowEventPublisher} of the orchestrator.
+ */
+export const WORKFLOW_EVENT_PUBLISHER = Symbol('WORKFLOW_EVENT_PUBLISHER');
@@ -8,6 +8,7 @@
  * ```typescript
  * const event: IWorkflowEvent = {
  *   event: 'order.submit',
+ *   workflow: 'OrderWorkflow',
  *   urn: 'order-123',
  *   payload: { items: [{ sku: 'ABC', qty: 2 }] },
  *   attempt: 0,
@@ -17,6 +18,11 @@
 export interface IWorkflowEvent<T = any> {
   /** Event name that matches a transition's `event` field. */
   event: string;
+  /**
+   * Name of the workflow that should handle the event. Required when several
+   * registered workflows handle the same event name; optional otherwise.
+   */
+  workflow?: string;
   /** Unique resource name identifying the entity instance. */
   urn: string | number;
   /** Optional data forwarded to the handler and transition conditions. */
@@ -0,0 +1,228 @@
+import type {
+  ITransitionDocument,
+  ITransitionEvent,
+  IWorkflowDefinition,
+  IWorkflowDefinitionDocument,
+  WorkflowConditionLibrary,
+} from '../types';
+import { WORKFLOW_DEFINITION_SCHEMA } from './definition-schema';
+
+type Schema = { [keyword: string]: any };
+type Condition = (entity: any, payload?: any) => boolean;
+
+/** Options of {@link WorkflowDefinitionLoader.parse} and {@link WorkflowDefinitionLoader.fromFile}. */
+export interface IDefinitionLoadOptions {
+  /** Source format. Defaults to `json`; `fromFile` infers it from the file extension. */
+  format?: 'json' | 'yaml';
+  /**
+   * YAML parser, required for YAML sources — the library ships none.
+   * @example `parseYaml: (source) => yaml.load(source)`
+   */
+  parseYaml?: (source: string) => unknown;
+}
+
+/**
+ * Loads declarative workflow definitions — JSON or YAML documents validated
+ * against {@link WORKFLOW_DEFINITION_SCHEMA} — and resolves their named
+ * conditions into an {@link IWorkflowDefinition}.
+ *
+ * Documents bound through `WorkflowModule.register({ definitions })` are
+ * resolved automatically; use the loader directly to read them from disk.
+ *
+ * @example
+ * ```typescript
+ * const order = await WorkflowDefinitionLoader.fromFile('workflows/order.yaml', { parseYaml });
+ *
+ * WorkflowModule.register({
+ *   entities: [{ provide: 'entity.order', useClass: OrderEntityService }],
+ *   workflows: [],
+ *   definitions: [{ workflow: OrderHandlers, definition: order }],
+ *   conditions: { hasItems: (order: Order) => order.items.length > 0 },
+ * });
+ * ```
+ */
+export class WorkflowDefinitionLoader {
+  /**
+   * Parse and validate a definition document.
+   * @throws Error listing every schema violation when the document is invalid
+   */
+  static parse(source: string, options: IDefinitionLoadOptions = {}): IWorkflowDefinitionDocument {
+    const { format = 'json', parseYaml } = options;
+    let document: unknown;
+    if (format === 'yaml') {
+      if (!parseYaml) {
+        throw new Error('Loading a YAML workflow definition requires the parseYaml option');
+      }
+      document = parseYaml(source);
+    } else {
+      try {
+        document = JSON.parse(source);
+      } catch (error) {
+        throw new Error(`Invalid workflow definition: ${(error as Error).message}`, { cause: error });
+      }
+    }
+    return WorkflowDefinitionLoader.assertValid(document);
+  }
+
+  /**
+   * Read, parse and validate a definition document. Files ending in `.yaml`
+   * or `.yml` are parsed as YAML unless `options.format` says otherwise.
+   *
+   * `node:fs` is only loaded by this method, so the rest of the loader runs
+   * in environments without a file system.
+   */
+  static async fromFile(path: string, options: IDefinitionLoadOptions = {}): Promise<IWorkflowDefinitionDocument> {
+    const { readFile } = await import('node:fs/promises');
+    const format = options.format ?? (/\.ya?ml$/i.test(path) ? 'yaml' : 'json');
+    return WorkflowDefinitionLoader.parse(await readFile(path, 'utf8'), { ...options, format });
+  }
+
+  /**
+   * Validate a document against {@link WORKFLOW_DEFINITION_SCHEMA}.
+   * @returns One message per violation, prefixed with its JSON path; empty when valid
+   */
+  static validate(document: unknown): string[] {
+    const issues: string[] = [];
+    WorkflowDefinitionLoader.check(document, WORKFLOW_DEFINITION_SCHEMA, '$', issues);
+    return issues;
+  }
+
+  /**
+   * Turn a document into an {@link IWorkflowDefinition}, replacing condition
+   * names with the functions of the library. Definition objects — whose
+   * conditions are already functions — are returned unchanged.
+   * @throws Error when the document is invalid or refers to an unknown condition
+   */
+  static resolve(
+    definition: IWorkflowDefinitionDocument | IWorkflowDefinition<any, any, any>,
+    conditions: WorkflowConditionLibrary = {},
+  ): IWorkflowDefinition<any, any, any> {
+    if (!WorkflowDefinitionLoader.isDocument(definition)) return definition;
+
+    const { $schema: _schema, ...document } = WorkflowDefinitionLoader.assertValid(definition);
+    const lookup = (name: string): Condition => {
+      const condition = conditions[name];
+      if (typeof condition !== 'function') {
+        throw new Error(`Workflow ${document.name} refers to unknown condition "${name}"`);
+      }
+      // Named wrapper so rejections name the condition like a declared function would
+      return { [name]: (entity: any, payload?: any) => condition(entity, payload) }[name];
+    };
+    const transition = (t: ITransitionDocument): ITransitionEvent<any, any, any, any> => ({
+      ...t,
+      conditions: t.conditions?.map(lookup),
+    });
+
+    return {
+      ...document,
+      transitions: document.transitions.map(transition),
+      conditions: document.conditions?.map(lookup),
+      parallel: document.parallel?.map((p) => ({
+        ...p,
+        regions: p.regions.map((r) => ({ ...r, transitions: r.transitions.map(transition) })),
+      })),
+    } as IWorkflowDefinition<any, any, any>;
+  }
+
+  private static assertValid(document: unknown): IWorkflowDefinitionDocument {
+    const issues = WorkflowDefinitionLoader.validate(document);
+    if (issues.length > 0) {
+      throw new Error(`Invalid workflow definition:\n  - ${issues.join('\n  - ')}`);
+    }
+    return document as IWorkflowDefinitionDocument;
+  }
+
+  /** A document names its conditions; a definition object may carry functions. */
+  private static isDocument(
+    definition: IWorkflowDefinitionDocument | IWorkflowDefinition<any, any, any>,
+  ): definition is IWorkflowDefinitionDocument {
+    type Guarded = { conditions?: unknown[] };
+    const {
+      transitions = [],
+      conditions = [],
+      parallel = [],
+      children = [],
+    } = definition as Guarded & {
+      transitions?: Guarded[];
+      parallel?: Array<{ regions: Array<{ transitions: Guarded[] }> }>;
+      children?: Array<{ urn?: unknown }>;
+    };
+    const guards = [
+      ...conditions,
+      ...[...transitions, ...parallel.flatMap((p) => p.regions.flatMap((r) => r.transitions))].flatMap(
+        (t) => t.conditions ?? [],
+      ),
+    ];
+    return !guards.some((c) => typeof c === 'function') && !children.some((c) => typeof c.urn === 'function');
+  }
+
+  /** Minimal JSON Schema check covering the keywords used by {@link WORKFLOW_DEFINITION_SCHEMA}. */
+  private static check(value: unknown, schema: Schema, path: string, issues: string[]): void {
+    if (schema.$ref) {
+      const name = (schema.$ref as string).replace('#/definitions/', '');
+      const definitions: Record<string, Schema> = WORKFLOW_DEFINITION_SCHEMA.definitions;
+      return WorkflowDefinitionLoader.check(value, definitions[name], path, issues);
+    }
+    if (schema.anyOf) {
+      const matches = (schema.anyOf as Schema[]).some((option) => {
+        const optionIssues: string[] = [];
+        WorkflowDefinitionLoader.check(value, option, path, optionIssues);
+        return optionIssues.length === 0;
+      });
+      if (!matches) issues.push(`${path} does not match any of the allowed forms`);
+      return;
+    }
+    if (schema.enum && !(schema.enum as unknown[]).includes(value)) {
+      issues.push(`${path} must be one of ${(schema.enum as unknown[]).join(', ')}`);
+      return;
+    }
+    if (schema.type) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some((type) => WorkflowDefinitionLoader.isType(value, type))) {
+        issues.push(`${path} must be of type ${types.join(' or ')}`);
+        return;
+      }
+    }
+
+    if (typeof value === 'string' && value.length < (schema.minLength ?? 0)) {
+      issues.push(`${path} must not be empty`);
+    }
+    if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+      issues.push(`${path} must be at least ${schema.minimum}`);
+    }
+    if (Array.isArray(value)) {
+      if (value.length < (schema.minItems ?? 0)) {
+        issues.push(`${path} must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.items) {
+        value.forEach((item, i) => WorkflowDefinitionLoader.check(item, schema.items, `${path}[${i}]`, issues));
+      }
+    } else if (WorkflowDefinitionLoader.isType(value, 'object')) {
+      const record = value as Record<string, unknown>;
+      const properties: Record<string, Schema> = schema.properties ?? {};
+      for (const key of (schema.required ?? []) as string[]) {
+        if (record[key] === undefined) issues.push(`${path}.${key} is required`);
+      }
+      for (const [key, item] of Object.entries(record)) {
+        if (properties[key]) {
+          WorkflowDefinitionLoader.check(item, properties[key], `${path}.${key}`, issues);
+        } else if (schema.additionalProperties === false) {
+          issues.push(`${path}.${key} is not allowed`);
+        }
+      }
+    }
+  }
+
+  private static isType(value: unknown, type: string): boolean {
+    switch (type) {
+      case 'object':
+        return typeof value === 'object' && value !== null && !Array.isArray(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'integer':
+        return Number.isInteger(value);
+      default:
+        return typeof value === type;
+    }
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * JSON Schema (draft-07) of an {@link IWorkflowDefinitionDocument}. Documents
+ * loaded through {@link WorkflowDefinitionLoader} are validated against it.
+ *
+ * The package publishes it as `nestjs-serverless-workflow/workflow-definition.schema.json`
+ * — generated from this constant by `bun run schema` — for editors to
+ * complete and validate documents:
+ *
+ * @example
+ * ```yaml
+ * $schema: ./node_modules/nestjs-serverless-workflow/schema/workflow-definition.schema.json
+ * ```
+ */
+export const WORKFLOW_DEFINITION_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  title: 'Workflow definition',
+  type: 'object',
+  required: ['name', 'states', 'transitions', 'entityService'],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: 'string' },
+    name: { type: 'string', minLength: 1 },
+    version: { type: 'integer', minimum: 1 },
+    states: {
+      type: 'object',
+      required: ['finals', 'idles', 'failed'],
+      additionalProperties: false,
+      properties: {
+        finals: { type: 'array', items: { $ref: '#/definitions/state' } },
+        idles: {
+          type: 'array',
+          items: { anyOf: [{ $ref: '#/definitions/state' }, { $ref: '#/definitions/idleState' }] },
+        },
+        failed: { $ref: '#/definitions/state' },
+        compound: { type: 'array', items: { $ref: '#/definitions/compoundState' } },
+      },
+    },
+    defaultCallbackTimeout: { $ref: '#/definitions/duration' },
+    defaultOnTimeout: { $ref: '#/definitions/event' },
+    transitions: { type: 'array', items: { $ref: '#/definitions/transition' } },
+    conditions: { $ref: '#/definitions/conditions' },
+    parallel: { type: 'array', items: { $ref: '#/definitions/parallelState' } },
+    children: { type: 'array', items: { $ref: '#/definitions/childWorkflow' } },
+    saga: {
+      type: 'object',
+      required: ['compensated'],
+      additionalProperties: false,
+      properties: {
+        compensated: { $ref: '#/definitions/state' },
+        retry: { $ref: '#/definitions/retry' },
+      },
+    },
+    entityService: { type: 'string', minLength: 1 },
+  },
+  definitions: {
+    state: { type: ['string', 'integer'] },
+    event: { type: 'string', minLength: 1 },
+    conditions: { type: 'array', items: { type: 'string', minLength: 1 } },
+    duration: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        hours: { type: 'number', minimum: 0 },
+        minutes: { type: 'number', minimum: 0 },
+        seconds: { type: 'number', minimum: 0 },
+      },
+    },
+    idleState: {
+      type: 'object',
+      required: ['state'],
+      additionalProperties: false,
+      properties: {
+        state: { $ref: '#/definitions/state' },
+        timeout: { $ref: '#/definitions/duration' },
+        onTimeout: { $ref: '#/definitions/event' },
+      },
+    },
+    compoundState: {
+      type: 'object',
+      required: ['state', 'children'],
+      additionalProperties: false,
+      properties: {
+        state: { $ref: '#/definitions/state' },
+        children: { type: 'array', minItems: 1, items: { $ref: '#/definitions/state' } },
+        initial: { $ref: '#/definitions/state' },
+      },
+    },
+    transition: {
+      type: 'object',
+      required: ['event', 'from', 'to'],
+      additionalProperties: false,
+      properties: {
+        event: {
+          anyOf: [
+            { $ref: '#/definitions/event' },
+            { type: 'array', minItems: 1, items: { $ref: '#/definitions/event' } },
+          ],
+        },
+        from: { type: 'array', minItems: 1, items: { $ref: '#/definitions/state' } },
+        to: { $ref: '#/definitions/state' },
+        conditions: { $ref: '#/definitions/conditions' },
+      },
+    },
+    parallelState: {
+      type: 'object',
+      required: ['state', 'regions'],
+      additionalProperties: false,
+      properties: {
+        state: { $ref: '#/definitions/state' },
+        regions: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            required: ['name', 'initial', 'finals', 'transitions'],
+            additionalProperties: false,
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              initial: { $ref: '#/definitions/state' },
+              finals: { type: 'array', items: { $ref: '#/definitions/state' } },
+              transitions: { type: 'array', items: { $ref: '#/definitions/transition' } },
+            },
+          },
+        },
+      },
+    },
+    childWorkflow: {
+      type: 'object',
+      required: ['state', 'workflow', 'event', 'onDone'],
+      additionalProperties: false,
+      properties: {
+        state: { $ref: '#/definitions/state' },
+        workflow: { type: 'string', minLength: 1 },
+        event: { $ref: '#/definitions/event' },
+        onDone: { $ref: '#/definitions/event' },
+        onFailed: { $ref: '#/definitions/event' },
+      },
+    },
+    retry: {
+      type: 'object',
+      required: ['maxAttempts'],
+      additionalProperties: false,
+      properties: {
+        maxAttempts: { type: 'integer', minimum: 1 },
+        strategy: { enum: ['fixed', 'exponential', 'exponential_jitter'] },
+        initialDelay: { type: 'number', minimum: 0 },
+        backoffMultiplier: { type: 'number', minimum: 0 },
+        maxDelay: { type: 'number', minimum: 0 },
+        jitter: { type: ['boolean', 'number'] },
+        timeout: { type: 'number', minimum: 0 },
+        retryOnTimeout: { type: 'boolean' },
+      },
+    },
+  },
+} as const;
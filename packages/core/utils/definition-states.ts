@@ -0,0 +1,36 @@
+import type { IWorkflowDefinition } from '../types';
+
+type StateValue = string | number;
+
+const toArray = <V>(value: V | V[]): V[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Lookups over the states of a workflow definition that are spread across
+ * `states`, `transitions`, `compound`, `parallel`, `children` and `saga`.
+ */
+export class DefinitionStates {
+  /**
+   * Every state the definition mentions — idles, transition sources and
+   * targets, compound, parallel and child workflow states, finals, the failed
+   * state and the saga's compensated state — in order of first appearance.
+   * Sub-states of parallel regions are not included.
+   */
+  static collect<State extends StateValue>(definition: IWorkflowDefinition<any, any, State>): State[] {
+    const states = new Set<State>([
+      ...definition.states.idles.map((entry) => DefinitionStates.idleState(entry)),
+      ...definition.transitions.flatMap((t) => [...toArray(t.from), t.to]),
+      ...(definition.states.compound ?? []).flatMap((c) => [c.state, ...c.children]),
+      ...(definition.parallel ?? []).map((p) => p.state),
+      ...(definition.children ?? []).map((c) => c.state),
+      ...definition.states.finals,
+      definition.states.failed,
+    ]);
+    if (definition.saga) states.add(definition.saga.compensated);
+    return [...states];
+  }
+
+  /** The state of an entry of `states.idles`, which is either a state or `{ state, timeout, onTimeout }`. */
+  static idleState<State>(entry: State | { state: State }): State {
+    return typeof entry === 'object' && entry !== null && 'state' in entry ? entry.state : entry;
+  }
+}
@@ -0,0 +1,210 @@
+import type { IDefinitionValidationIssue, IWorkflowDefinition } from '../types';
+import { StateHierarchy } from './state-hierarchy';
+
+type StateValue = string | number;
+
+const toArray = <V>(value: V | V[]): V[] => (Array.isArray(value) ? value : [value]);
+
+/**
+ * Static checks for a workflow definition, run by {@link OrchestratorService}
+ * at module initialisation so misconfigured `@Workflow` classes are caught at
+ * boot instead of on the first unlucky event.
+ *
+ * Entry points are the idle states, the initial states (the `from` of the
+ * first transition) and every declared state that is left by a transition
+ * but never entered by one. Any other state left by a transition must be
+ * declared (final, idle, failed, compound or parallel) or entered by another
+ * transition, so a misspelled `from` is reported instead of being taken for
+ * an entry point. The failed state is exempt from the
+ * reachability check — it is entered when a handler throws.
+ *
+ * Compound states are checked through their leaves: a transition out of a
+ * parent leaves every child, and a transition into a parent enters its
+ * `initial` child.
+ */
+export class WorkflowDefinitionValidator {
+  /**
+   * Validate a workflow definition against the events handled by its class.
+   * @param definition The workflow definition from `@Workflow`
+   * @param handledEvents Event names registered with `@OnEvent` on the workflow class
+   * @returns All issues found, empty when the definition is consistent
+   */
+  static validate(
+    definition: IWorkflowDefinition<any, any, any>,
+    handledEvents: string[],
+  ): IDefinitionValidationIssue[] {
+    const issues: IDefinitionValidationIssue[] = [];
+    const report = (code: IDefinitionValidationIssue['code'], message: string) => {
+      const issue = { code, message: `[${definition.name}] ${message}` };
+      if (!issues.some((i) => i.message === issue.message)) issues.push(issue);
+    };
+
+    const hierarchy = WorkflowDefinitionValidator.buildHierarchy(definition, report);
+    const resolveTarget = (state: StateValue): StateValue => {
+      try {
+        return hierarchy.resolveTarget(state);
+      } catch (error) {
+        report('invalid-compound-state', `${(error as Error).message}.`);
+        return state;
+      }
+    };
+    const within = (state: StateValue, declared: Set<StateValue>) =>
+      hierarchy.lineage(state).some((s) => declared.has(s));
+
+    const finals = new Set<StateValue>(definition.states.finals);
+    const idles = new Set<StateValue>(
+      definition.states.idles.map((entry) =>
+        typeof entry === 'object' && entry !== null && 'state' in entry ? entry.state : entry,
+      ),
+    );
+    const failed: StateValue = definition.states.failed;
+    const declared = new Set<StateValue>([
+      ...finals,
+      ...idles,
+      failed,
+      ...(definition.states.compound ?? []).map((c) => c.state),
+      ...(definition.parallel ?? []).map((p) => p.state),
+    ]);
+
+    const sources = new Set<StateValue>();
+    const targets = new Set<StateValue>();
+    const transitionEvents = new Set<string>();
+    for (const t of definition.transitions) {
+      toArray<StateValue>(t.from).forEach((s) => hierarchy.leaves(s).forEach((leaf) => sources.add(leaf)));
+      targets.add(resolveTarget(t.to));
+      toArray<string>(t.event).forEach((e) => transitionEvents.add(e));
+    }
+    // Region transitions move sub-states, not the entity status — only their events are checked
+    for (const region of (definition.parallel ?? []).flatMap((p) => p.regions)) {
+      region.transitions.forEach((t) => toArray<string>(t.event).forEach((e) => transitionEvents.add(e)));
+    }
+
+    if (idles.has(failed)) {
+      report('failed-is-idle', `Failed state "${failed}" is also declared as idle.`);
+    }
+
+    for (const state of finals) {
+      if (hierarchy.leaves(state).some((leaf) => sources.has(leaf))) {
+        report('final-has-outgoing', `Final state "${state}" has outgoing transitions.`);
+      }
+    }
+
+    for (const state of targets) {
+      if (!within(state, finals) && !within(state, idles) && state !== failed && !sources.has(state)) {
+        report(
+          'undeclared-state',
+          `State "${state}" is a transition target but is not declared as final, idle or failed and has no outgoing transitions.`,
+        );
+      }
+    }
+
+    const initial = new Set<StateValue>(
+      toArray<StateValue>(definition.transitions[0]?.from ?? []).flatMap((s) => hierarchy.leaves(s)),
+    );
+    const undeclaredSources = new Set<StateValue>();
+    for (const state of sources) {
+      if (!within(state, declared) && !targets.has(state) && !initial.has(state)) {
+        undeclaredSources.add(state);
+        report(
+          'undeclared-state',
+          `State "${state}" is left by a transition but is not declared as final, idle or failed and no transition enters it.`,
+        );
+      }
+    }
+
+    const idleLeaves = new Set<StateValue>([...idles].flatMap((s) => hierarchy.leaves(s)));
+    const entryPoints = [...idleLeaves, ...[...sources].filter((s) => !targets.has(s) && !undeclaredSources.has(s))];
+    const reachable = WorkflowDefinitionValidator.findReachableStates(definition, hierarchy, entryPoints);
+    const knownStates = new Set<StateValue>([
+      ...[...finals].flatMap((s) => hierarchy.leaves(s)),
+      ...idleLeaves,
+      ...sources,
+      ...targets,
+    ]);
+    for (const state of knownStates) {
+      if (state !== failed && !undeclaredSources.has(state) && !reachable.has(state)) {
+        report('unreachable-state', `State "${state}" is not reachable from any entry point.`);
+      }
+    }
+
+    const handled = new Set(handledEvents);
+    for (const event of handled) {
+      if (!transitionEvents.has(event)) {
+        report('handler-without-transition', `@OnEvent handler for "${event}" has no matching transition.`);
+      }
+    }
+    for (const event of transitionEvents) {
+      if (!handled.has(event)) {
+        report('transition-without-handler', `Transition event "${event}" has no @OnEvent handler.`);
+      }
+    }
+
+    for (const entry of definition.states.idles) {
+      if (typeof entry !== 'object' || entry === null || !('state' in entry) || entry.onTimeout === undefined) continue;
+      for (const leaf of hierarchy.leaves(entry.state)) {
+        const lineage = hierarchy.lineage(leaf);
+        const leaves = definition.transitions.some(
+          (t) =>
+            toArray<string>(t.event).includes(entry.onTimeout) &&
+            toArray<StateValue>(t.from).some((s) => lineage.includes(s)),
+        );
+        if (!leaves) {
+          report(
+            'invalid-timeout-event',
+            `Timeout event "${entry.onTimeout}" of idle state "${entry.state}" has no transition from "${leaf}".`,
+          );
+        }
+      }
+    }
+    if (definition.defaultOnTimeout !== undefined && !transitionEvents.has(definition.defaultOnTimeout)) {
+      report('invalid-timeout-event', `Default timeout event "${definition.defaultOnTimeout}" has no transition.`);
+    }
+
+    return issues;
+  }
+
+  /** Build the compound-state hierarchy, reporting malformed declarations instead of throwing. */
+  private static buildHierarchy(
+    definition: IWorkflowDefinition<any, any, any>,
+    report: (code: IDefinitionValidationIssue['code'], message: string) => void,
+  ): StateHierarchy {
+    const compound = definition.states.compound ?? [];
+    try {
+      const hierarchy = new StateHierarchy(compound);
+      compound.forEach((entry) => hierarchy.lineage(entry.state));
+      return hierarchy;
+    } catch (error) {
+      report('invalid-compound-state', `${(error as Error).message}.`);
+      return new StateHierarchy();
+    }
+  }
+
+  /** Breadth-first walk over the transitions (at leaf level), starting from every entry point. */
+  private static findReachableStates(
+    definition: IWorkflowDefinition<any, any, any>,
+    hierarchy: StateHierarchy,
+    entryPoints: StateValue[],
+  ): Set<StateValue> {
+    const reachable = new Set<StateValue>(entryPoints);
+    const queue = [...entryPoints];
+
+    while (queue.length > 0) {
+      const state = queue.shift()!;
+      const lineage = hierarchy.lineage(state);
+      for (const t of definition.transitions) {
+        if (!toArray<StateValue>(t.from).some((s) => lineage.includes(s))) continue;
+        let target: StateValue;
+        try {
+          target = hierarchy.resolveTarget(t.to);
+        } catch {
+          target = t.to;
+        }
+        if (reachable.has(target)) continue;
+        reachable.add(target);
+        queue.push(target);
+      }
+    }
+
+    return reachable;
+  }
+}
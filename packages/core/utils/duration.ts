@@ -0,0 +1,13 @@
+import type { Duration } from '../types';
+
+/**
+ * Convert a {@link Duration} to milliseconds, adding up its fields.
+ *
+ * @example
+ * ```typescript
+ * durationToMilliseconds({ minutes: 1, seconds: 30 }); // 90000
+ * ```
+ */
+export function durationToMilliseconds({ hours = 0, minutes = 0, seconds = 0 }: Duration): number {
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000;
+}
@@ -1 +1,9 @@
+export * from './definition-loader';
+export * from './definition-schema';
+export * from './definition-states';
+export * from './definition-validator';
+export * from './duration';
 export * from './retry-backoff';
+export * from './state-hierarchy';
+export * from './step-functions-exporter';
+export * from './workflow-diagram';
@@ -0,0 +1,87 @@
+import type { ICompoundState } from '../types';
+
+type StateValue = string | number;
+
+/**
+ * Parent/child lookups over the `states.compound` declarations of a workflow.
+ *
+ * Entities always rest in a leaf state; compound (parent) states only exist in
+ * the definition, so that transitions, idle and final declarations made on a
+ * parent apply to every descendant.
+ *
+ * @example
+ * ```typescript
+ * const hierarchy = new StateHierarchy([
+ *   { state: 'active', children: ['trial', 'paid'], initial: 'trial' },
+ * ]);
+ * hierarchy.lineage('trial');        // ['trial', 'active']
+ * hierarchy.resolveTarget('active'); // 'trial'
+ * ```
+ */
+export class StateHierarchy {
+  private readonly parents = new Map<StateValue, StateValue>();
+  private readonly compounds = new Map<StateValue, ICompoundState<StateValue>>();
+
+  constructor(compound: ICompoundState<any>[] = []) {
+    for (const entry of compound) {
+      this.compounds.set(entry.state, entry);
+      for (const child of entry.children) {
+        const existing = this.parents.get(child);
+        if (existing !== undefined && existing !== entry.state) {
+          throw new Error(`State "${child}" has more than one parent: ${existing}, ${entry.state}`);
+        }
+        this.parents.set(child, entry.state);
+      }
+    }
+  }
+
+  /** `true` when `state` is declared as a compound (parent) state. */
+  isCompound(state: StateValue): boolean {
+    return this.compounds.has(state);
+  }
+
+  /** The state followed by its ancestors, closest first. */
+  lineage(state: StateValue): StateValue[] {
+    const lineage = [state];
+    let parent = this.parents.get(state);
+    while (parent !== undefined) {
+      if (lineage.includes(parent)) throw new Error(`Cycle detected in compound states at "${parent}"`);
+      lineage.push(parent);
+      parent = this.parents.get(parent);
+    }
+    return lineage;
+  }
+
+  /** `true` when `state` is `candidate` or one of its descendants. */
+  isWithin(state: StateValue, candidate: StateValue): boolean {
+    return this.lineage(state).includes(candidate);
+  }
+
+  /** All leaf states below `state`, or `[state]` when it is a leaf. */
+  leaves(state: StateValue): StateValue[] {
+    const compound = this.compounds.get(state);
+    if (!compound) return [state];
+    return compound.children.flatMap((child) => this.leaves(child));
+  }
+
+  /**
+   * The leaf state an entity lands in when a transition targets `state` —
+   * compound targets are resolved through their `initial` child.
+   * @throws {Error} If a compound state on the way has no `initial` child.
+   */
+  resolveTarget(state: StateValue): StateValue {
+    let target = state;
+    const visited = new Set<StateValue>();
+    let compound = this.compounds.get(target);
+    while (compound) {
+      if (compound.initial === undefined) {
+        throw new Error(`Compound state "${target}" is a transition target but declares no initial child`);
+      }
+      if (visited.has(target)) throw new Error(`Cycle detected in compound states at "${target}"`);
+      visited.add(target);
+      target = compound.initial;
+      compound = this.compounds.get(target);
+    }
+    return target;
+  }
+}
@@ -0,0 +1,411 @@
+import {
+  type AslState,
+  type Duration,
+  type IAslChoiceRule,
+  type IAslRetrier,
+  type IAslStateMachine,
+  type IBackoffRetryConfig,
+  type IRegisteredHandler,
+  type IStepFunctionsExportOptions,
+  type IWorkflowDefinition,
+  RetryStrategy,
+} from '../types';
+import { DefinitionStates } from './definition-states';
+import { durationToMilliseconds } from './duration';
+import { StateHierarchy } from './state-hierarchy';
+
+type StateValue = string | number;
+
+const toArray = <V>(value: V | V[]): V[] => (Array.isArray(value) ? value : [value]);
+
+const toSeconds = (duration: Duration): number => Math.max(1, Math.ceil(durationToMilliseconds(duration) / 1000));
+
+/** Names of the generated states that do not stand for a workflow state. */
+const DISPATCH = 'Dispatch';
+const CONTINUE = 'Continue';
+const AWAIT_EVENT = 'Await event';
+const SEND_TIMEOUT_EVENT = 'Send timeout event';
+const UNKNOWN_EVENT = 'Unknown event';
+const UNEXPECTED_RESULT = 'Unexpected result';
+const handleState = (event: string) => `Handle ${event}`;
+const routeState = (event: string) => `Route ${event}`;
+
+/** ASL caps state names at 80 characters. */
+const MAX_STATE_NAME_LENGTH = 80;
+
+/**
+ * Exports a workflow as an AWS Step Functions state machine in the Amazon
+ * States Language, so the same definition can run on Step Functions instead
+ * of durable Lambda.
+ *
+ * The state machine receives an `IWorkflowEvent` as input and mirrors what an
+ * adapter does with each {@link TransitResult}:
+ *
+ * - `Dispatch` routes the event to the Task state of its `@OnEvent` handler.
+ *   The Task invokes `functionArn`, which runs `OrchestratorService.transit()`
+ *   — conditions and handlers keep running in your code — with the retry
+ *   policy of `@WithRetry()`. Errors end in the failed state.
+ * - A Choice state per handler routes on the result: final, failed and
+ *   compensated states end the execution, idle states wait, `continued`
+ *   results dispatch the next event and `no_transition` results wait in place.
+ *   The Choice comment names the conditions guarding the handler's transitions.
+ * - Idle states are Task states with a task token (`waitForTaskToken`) that
+ *   invoke `callbackFunctionArn`; the execution resumes with the
+ *   `IWorkflowEvent` sent through `SendTaskSuccess`. Callback timeouts send the
+ *   idle state's `onTimeout` event.
+ *
+ * Parallel states and child workflows are not supported.
+ *
+ * @example
+ * ```typescript
+ * const workflow = app.get(WorkflowRegistry).getWorkflow('OrderWorkflow')!;
+ * const asl = StepFunctionsExporter.toAsl(workflow.definition, workflow.handlers, {
+ *   functionArn: 'arn:aws:lambda:eu-west-1:123456789012:function:order-workflow',
+ * });
+ * ```
+ */
+export class StepFunctionsExporter {
+  /**
+   * Build the state machine of a workflow.
+   * @param definition The workflow definition
+   * @param handlers The `@OnEvent` handlers of the workflow class, e.g. from {@link WorkflowRegistry}
+   * @throws {Error} If the workflow uses parallel states or child workflows, or the
+   *   generated state machine fails {@link StepFunctionsExporter.validate}.
+   */
+  static toAsl(
+    definition: IWorkflowDefinition<any, any, any>,
+    handlers: IRegisteredHandler[],
+    options: IStepFunctionsExportOptions,
+  ): IAslStateMachine {
+    if (definition.parallel?.length || definition.children?.length) {
+      throw new Error(
+        `Workflow ${definition.name} uses parallel states or child workflows, which cannot be exported to Step Functions`,
+      );
+    }
+
+    const hierarchy = new StateHierarchy(definition.states.compound);
+    const declared = (states: StateValue[]) => (state: StateValue) =>
+      hierarchy.lineage(state).some((s) => states.includes(s));
+    const isFinal = declared(definition.states.finals);
+    const idleEntries = definition.states.idles.map((entry) => ({
+      state: DefinitionStates.idleState<StateValue>(entry),
+      timeout: typeof entry === 'object' && entry !== null ? (entry.timeout as Duration | undefined) : undefined,
+      onTimeout: typeof entry === 'object' && entry !== null ? (entry.onTimeout as string | undefined) : undefined,
+    }));
+    // The closest idle declaration of a state or its ancestors wins
+    const idleEntry = (state: StateValue) =>
+      hierarchy
+        .lineage(state)
+        .map((s) => idleEntries.find((e) => e.state === s))
+        .find((e) => e !== undefined);
+    const terminal = new Set<StateValue>([definition.states.failed]);
+    if (definition.saga) terminal.add(definition.saga.compensated);
+    /** States the entity rests in between two transits, with an ASL state of their own. */
+    const isResting = (state: StateValue) => terminal.has(state) || isFinal(state) || idleEntry(state) !== undefined;
+
+    const leaves = DefinitionStates.collect<StateValue>(definition).filter((s) => !hierarchy.isCompound(s));
+    const generated = new Set([
+      DISPATCH,
+      CONTINUE,
+      AWAIT_EVENT,
+      SEND_TIMEOUT_EVENT,
+      UNKNOWN_EVENT,
+      UNEXPECTED_RESULT,
+      ...handlers.flatMap((h) => [handleState(h.event), routeState(h.event)]),
+    ]);
+    const clash = leaves.find((s) => generated.has(String(s)));
+    if (clash !== undefined) {
+      throw new Error(
+        `Workflow ${definition.name} has a state named "${clash}", which the exported state machine uses`,
+      );
+    }
+
+    const failed = String(definition.states.failed);
+    const states: Record<string, AslState> = {};
+    const timeoutEvents = new Set<string>();
+    const reachable = new Set<StateValue>();
+    let waitsInPlace = false;
+
+    states[DISPATCH] = {
+      Type: 'Choice',
+      Comment: 'Routes the incoming IWorkflowEvent to its handler',
+      Choices: handlers.map((h) => ({ Variable: '$.event', StringEquals: h.event, Next: handleState(h.event) })),
+      Default: UNKNOWN_EVENT,
+    };
+
+    for (const handler of handlers) {
+      const transitions = definition.transitions.filter((t) => toArray<string>(t.event).includes(handler.event));
+      const guards = [
+        ...(definition.conditions ?? []).map((c, i) => c.name || `conditions[${i}]`),
+        ...transitions.flatMap((t) => (t.conditions ?? []).map((c, i) => c.name || `conditions[${i}]`)),
+      ];
+
+      // A rejected guard leaves the entity where it was; idle sources keep waiting
+      const outcomes = new Set<StateValue>([
+        ...transitions.map((t) => hierarchy.resolveTarget(t.to)),
+        ...(guards.length > 0
+          ? transitions.flatMap((t) => toArray<StateValue>(t.from).flatMap((s) => hierarchy.leaves(s)))
+          : []),
+        ...terminal,
+      ]);
+      const continues = [...outcomes].some((s) => !isResting(s));
+      waitsInPlace ||= continues;
+
+      states[handleState(handler.event)] = {
+        Type: 'Task',
+        Comment: `@OnEvent('${handler.event}') ${handler.name}`,
+        Resource: options.functionArn,
+        ResultPath: '$.result',
+        Retry: StepFunctionsExporter.toRetry(handler.retryConfig),
+        Catch: [{ ErrorEquals: ['States.ALL'], ResultPath: '$.error', Next: failed }],
+        Next: routeState(handler.event),
+      };
+
+      const choices: IAslChoiceRule[] = continues
+        ? [
+            { Variable: '$.result.status', StringEquals: 'continued', Next: CONTINUE },
+            { Variable: '$.result.status', StringEquals: 'no_transition', Next: AWAIT_EVENT },
+          ]
+        : [];
+      for (const state of [...outcomes].filter(isResting)) {
+        reachable.add(state);
+        choices.push({ Variable: '$.result.state', ...StepFunctionsExporter.equals(state), Next: String(state) });
+      }
+      states[routeState(handler.event)] = {
+        Type: 'Choice',
+        ...(guards.length > 0 && { Comment: `Guarded by ${[...new Set(guards)].join(', ')}` }),
+        Choices: choices,
+        Default: UNEXPECTED_RESULT,
+      };
+    }
+
+    const callback = options.callbackFunctionArn ?? options.functionArn;
+    const wait = (
+      comment: string,
+      state: string | { 'state.$': string },
+      timeout?: Duration,
+      onTimeout?: string,
+    ): AslState => {
+      if (timeout && onTimeout) timeoutEvents.add(onTimeout);
+      return {
+        Type: 'Task',
+        Comment: comment,
+        Resource: 'arn:aws:states:::lambda:invoke.waitForTaskToken',
+        Parameters: {
+          FunctionName: callback,
+          Payload: {
+            'urn.$': '$.urn',
+            workflow: definition.name,
+            ...(typeof state === 'string' ? { state } : state),
+            'taskToken.$': '$$.Task.Token',
+          },
+        },
+        ...(timeout && { TimeoutSeconds: toSeconds(timeout) }),
+        ...(timeout &&
+          onTimeout && {
+            Catch: [{ ErrorEquals: ['States.Timeout'], ResultPath: '$.error', Next: SEND_TIMEOUT_EVENT }],
+          }),
+        Next: DISPATCH,
+      };
+    };
+
+    // Entities enter the state machine through an event, so only states a transit ends in are needed
+    for (const state of leaves.filter((s) => reachable.has(s))) {
+      const name = String(state);
+      const idle = idleEntry(state);
+      if (state === definition.states.failed) {
+        states[name] = { Type: 'Fail', Error: 'WorkflowFailed', Cause: `The entity ended in failed state "${name}"` };
+      } else if (state === definition.saga?.compensated) {
+        states[name] = {
+          Type: 'Fail',
+          Error: 'WorkflowCompensated',
+          Cause: `The entity ended in compensated state "${name}"`,
+        };
+      } else if (isFinal(state)) {
+        states[name] = { Type: 'Succeed' };
+      } else if (idle) {
+        states[name] = wait(
+          'Idle state — resumes with the IWorkflowEvent sent through SendTaskSuccess',
+          name,
+          idle.timeout ?? definition.defaultCallbackTimeout,
+          idle.onTimeout ?? (definition.defaultOnTimeout as string | undefined),
+        );
+      }
+    }
+
+    if (waitsInPlace) {
+      states[CONTINUE] = {
+        Type: 'Pass',
+        Comment: 'Dispatches the next event of an auto-transition',
+        InputPath: '$.result.nextEvent',
+        Next: DISPATCH,
+      };
+      states[AWAIT_EVENT] = wait(
+        'No transition was valid — waits for an event in the current state',
+        { 'state.$': '$.result.state' },
+        definition.defaultCallbackTimeout,
+        definition.defaultOnTimeout as string | undefined,
+      );
+    }
+    if (timeoutEvents.size > 0) {
+      states[SEND_TIMEOUT_EVENT] = {
+        Type: 'Pass',
+        Comment: `Sends the timeout event of the wait: ${[...timeoutEvents].join(', ')}`,
+        InputPath: '$.result.onTimeout',
+        Next: DISPATCH,
+      };
+    }
+    states[UNKNOWN_EVENT] = {
+      Type: 'Fail',
+      Error: 'UnknownWorkflowEvent',
+      Cause: `The event has no handler in workflow ${definition.name}`,
+    };
+    states[UNEXPECTED_RESULT] = {
+      Type: 'Fail',
+      Error: 'UnexpectedTransitResult',
+      Cause: 'The transit result leads to no state of the workflow',
+    };
+
+    const asl: IAslStateMachine = { Comment: options.comment ?? definition.name, StartAt: DISPATCH, States: states };
+    const issues = StepFunctionsExporter.validate(asl);
+    if (issues.length > 0) {
+      throw new Error(`Invalid state machine for workflow ${definition.name}:\n  - ${issues.join('\n  - ')}`);
+    }
+    return asl;
+  }
+
+  /**
+   * Check the structure of a state machine: state names, transition targets,
+   * terminal states, Choice rules, retriers and catchers, and reachability
+   * from `StartAt`.
+   * @returns One message per problem, empty when the state machine is valid
+   */
+  static validate(asl: IAslStateMachine): string[] {
+    const issues: string[] = [];
+    const names = Object.keys(asl.States ?? {});
+    const exists = (name: string | undefined, where: string) => {
+      if (name === undefined || !names.includes(name)) issues.push(`${where} targets unknown state "${name}"`);
+    };
+
+    if (names.length === 0) issues.push('The state machine has no states');
+    exists(asl.StartAt, 'StartAt');
+
+    const edges = new Map<string, string[]>();
+    for (const [name, state] of Object.entries(asl.States ?? {})) {
+      const where = `State "${name}"`;
+      if (name.length === 0 || name.length > MAX_STATE_NAME_LENGTH) {
+        issues.push(`${where} must have a name of 1 to ${MAX_STATE_NAME_LENGTH} characters`);
+      }
+
+      const next: string[] = [];
+      switch (state.Type) {
+        case 'Task':
+          if (!state.Resource) issues.push(`${where} has no Resource`);
+          if (
+            state.TimeoutSeconds !== undefined &&
+            !(Number.isInteger(state.TimeoutSeconds) && state.TimeoutSeconds > 0)
+          ) {
+            issues.push(`${where} must have a positive integer TimeoutSeconds`);
+          }
+          StepFunctionsExporter.validateErrors(state.Retry ?? [], `${where} Retry`, issues);
+          StepFunctionsExporter.validateErrors(state.Catch ?? [], `${where} Catch`, issues);
+          for (const retrier of state.Retry ?? []) {
+            if (
+              retrier.MaxAttempts !== undefined &&
+              !(Number.isInteger(retrier.MaxAttempts) && retrier.MaxAttempts >= 0)
+            ) {
+              issues.push(`${where} Retry must have a non-negative integer MaxAttempts`);
+            }
+            if (
+              retrier.IntervalSeconds !== undefined &&
+              !(Number.isInteger(retrier.IntervalSeconds) && retrier.IntervalSeconds > 0)
+            ) {
+              issues.push(`${where} Retry must have a positive integer IntervalSeconds`);
+            }
+            if (retrier.BackoffRate !== undefined && retrier.BackoffRate < 1) {
+              issues.push(`${where} Retry must have a BackoffRate of at least 1`);
+            }
+          }
+          next.push(state.Next, ...(state.Catch ?? []).map((c) => c.Next));
+          exists(state.Next, `${where} Next`);
+          (state.Catch ?? []).forEach((c) => exists(c.Next, `${where} Catch`));
+          break;
+        case 'Pass':
+          next.push(state.Next);
+          exists(state.Next, `${where} Next`);
+          break;
+        case 'Choice':
+          if (!state.Choices?.length) issues.push(`${where} has no Choices`);
+          for (const rule of state.Choices ?? []) {
+            const comparisons = ['StringEquals', 'NumericEquals'].filter((k) => k in rule);
+            if (!rule.Variable?.startsWith('$') || comparisons.length !== 1) {
+              issues.push(`${where} has a Choice rule without a Variable and exactly one comparison`);
+            }
+            next.push(rule.Next);
+            exists(rule.Next, `${where} Choice`);
+          }
+          if (state.Default !== undefined) {
+            next.push(state.Default);
+            exists(state.Default, `${where} Default`);
+          }
+          break;
+        case 'Fail':
+          if (!state.Error) issues.push(`${where} has no Error`);
+          break;
+        case 'Succeed':
+          break;
+        default:
+          issues.push(`${where} has an unsupported Type "${(state as { Type: string }).Type}"`);
+      }
+      edges.set(name, next);
+    }
+
+    const reached = new Set<string>();
+    const queue = names.includes(asl.StartAt) ? [asl.StartAt] : [];
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (reached.has(name)) continue;
+      reached.add(name);
+      queue.push(...(edges.get(name) ?? []).filter((n) => names.includes(n)));
+    }
+    for (const name of names.filter((n) => !reached.has(n))) {
+      issues.push(`State "${name}" is unreachable from StartAt`);
+    }
+    return issues;
+  }
+
+  /** Retry blocks of a handler Task, from its `@WithRetry()` config. */
+  private static toRetry(config?: IBackoffRetryConfig): IAslRetrier[] {
+    // Mirrors the adapters: permanent failures are never retried, lost compare-and-set writes always are
+    const retriers: IAslRetrier[] = [
+      { ErrorEquals: ['UnretriableException'], MaxAttempts: 0 },
+      { ErrorEquals: ['WorkflowConflictException'], MaxAttempts: 3, IntervalSeconds: 1 },
+    ];
+    if (!config || config.maxAttempts <= 1) return retriers;
+
+    const strategy = config.strategy ?? RetryStrategy.EXPONENTIAL_JITTER;
+    retriers.push({
+      ErrorEquals: ['States.ALL'],
+      MaxAttempts: config.maxAttempts - 1,
+      IntervalSeconds: Math.max(1, Math.ceil((config.initialDelay ?? 1000) / 1000)),
+      BackoffRate: strategy === RetryStrategy.FIXED ? 1 : Math.max(1, config.backoffMultiplier ?? 2),
+      MaxDelaySeconds: Math.max(1, Math.ceil((config.maxDelay ?? 60000) / 1000)),
+      JitterStrategy: strategy === RetryStrategy.EXPONENTIAL_JITTER && config.jitter !== false ? 'FULL' : 'NONE',
+    });
+    return retriers;
+  }
+
+  private static equals(state: StateValue): Pick<IAslChoiceRule, 'StringEquals' | 'NumericEquals'> {
+    return typeof state === 'number' ? { NumericEquals: state } : { StringEquals: state };
+  }
+
+  /** `States.ALL` must stand alone in the last retrier or catcher. */
+  private static validateErrors(entries: Array<{ ErrorEquals: string[] }>, where: string, issues: string[]) {
+    entries.forEach((entry, i) => {
+      if (!entry.ErrorEquals?.length) issues.push(`${where} has an entry without ErrorEquals`);
+      if (entry.ErrorEquals?.includes('States.ALL') && (entry.ErrorEquals.length > 1 || i < entries.length - 1)) {
+        issues.push(`${where} must list States.ALL alone, in its last entry`);
+      }
+    });
+  }
+}
@@ -0,0 +1,365 @@
+import type { DiagramFormat, Duration, ITransitionEvent, IWorkflowDefinition } from '../types';
+import { DefinitionStates } from './definition-states';
+import { StateHierarchy } from './state-hierarchy';
+
+type StateValue = string | number;
+
+/** A state box. Compound states hold `children`, parallel states hold `regions`. */
+interface DiagramNode {
+  id: string;
+  label: string;
+  idle: boolean;
+  final: boolean;
+  failed: boolean;
+  notes: string[];
+  children: DiagramNode[];
+  regions: DiagramRegion[];
+}
+
+interface DiagramRegion {
+  id: string;
+  name: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+/** `from` / `to` of `null` stand for the start or end pseudo-state. */
+interface DiagramEdge {
+  from: string | null;
+  to: string | null;
+  label?: string;
+}
+
+interface DiagramModel {
+  name: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+const toArray = <V>(value: V | V[]): V[] => (Array.isArray(value) ? value : [value]);
+
+/** A state value as an identifier every format accepts. */
+const toId = (state: StateValue, prefix = ''): string => {
+  const id = `${prefix}${String(state).replace(/[^A-Za-z0-9_]/g, '_')}`;
+  return /^[0-9]/.test(id) ? `s_${id}` : id;
+};
+
+/** Every node of a tree, depth first. */
+const flatten = (nodes: DiagramNode[]): DiagramNode[] =>
+  nodes.flatMap((n) => [n, ...flatten(n.children), ...flatten(n.regions.flatMap((r) => r.nodes))]);
+
+/**
+ * Renders an {@link IWorkflowDefinition} as a state diagram, so diagrams are
+ * generated from the `@Workflow` definition instead of drawn by hand.
+ *
+ * Diagrams mark the entry states, final states, idle states (with their
+ * callback timeout and timeout event), the failed state and the saga's
+ * compensated state. Transitions are labelled with their events and the
+ * names of their conditions. Compound states are drawn nested, parallel
+ * states with one lane per region.
+ *
+ * @example
+ * ```typescript
+ * const definition = Reflect.getMetadata(WORKFLOW_DEFINITION_KEY, OrderWorkflow);
+ * WorkflowDiagram.render(definition, 'mermaid');
+ * ```
+ */
+export class WorkflowDiagram {
+  /**
+   * Render a definition in the given format.
+   * @throws {Error} If the format is unknown.
+   */
+  static render(definition: IWorkflowDefinition<any, any, any>, format: DiagramFormat): string {
+    switch (format) {
+      case 'mermaid':
+        return WorkflowDiagram.toMermaid(definition);
+      case 'dot':
+        return WorkflowDiagram.toDot(definition);
+      case 'plantuml':
+        return WorkflowDiagram.toPlantUml(definition);
+      default:
+        throw new Error(`Unknown diagram format: ${String(format)}. Use mermaid, dot or plantuml`);
+    }
+  }
+
+  /** Render a definition as a Mermaid `stateDiagram-v2`. */
+  static toMermaid(definition: IWorkflowDefinition<any, any, any>): string {
+    const model = WorkflowDiagram.buildModel(definition);
+    const lines = ['---', `title: ${model.name}`, '---', 'stateDiagram-v2'];
+
+    const declare = (nodes: DiagramNode[], edges: DiagramEdge[], indent: string) => {
+      for (const node of nodes) {
+        if (node.label !== node.id) lines.push(`${indent}state "${node.label}" as ${node.id}`);
+        if (node.children.length > 0) {
+          lines.push(`${indent}state ${node.id} {`);
+          declare(node.children, [], `${indent}  `);
+          lines.push(`${indent}}`);
+        } else if (node.regions.length > 0) {
+          lines.push(`${indent}state ${node.id} {`);
+          node.regions.forEach((region, i) => {
+            if (i > 0) lines.push(`${indent}  --`);
+            declare(region.nodes, region.edges, `${indent}  `);
+          });
+          lines.push(`${indent}}`);
+        } else if (node.label === node.id) {
+          lines.push(`${indent}${node.id}`);
+        }
+      }
+      for (const edge of edges) {
+        const label = edge.label ? ` : ${edge.label}` : '';
+        lines.push(`${indent}${edge.from ?? '[*]'} --> ${edge.to ?? '[*]'}${label}`);
+      }
+    };
+    declare(model.nodes, model.edges, '  ');
+
+    const all = flatten(model.nodes);
+    for (const node of all.filter((n) => n.notes.length > 0)) {
+      lines.push(`  note right of ${node.id}`, ...node.notes.map((n) => `    ${n}`), '  end note');
+    }
+    const idles = all.filter((n) => n.idle).map((n) => n.id);
+    const failed = all.filter((n) => n.failed).map((n) => n.id);
+    lines.push('  classDef idle fill:#fef3c7,stroke:#d97706', '  classDef failed fill:#fee2e2,stroke:#dc2626');
+    if (idles.length > 0) lines.push(`  class ${idles.join(',')} idle`);
+    if (failed.length > 0) lines.push(`  class ${failed.join(',')} failed`);
+    return lines.join('\n');
+  }
+
+  /** Render a definition as a Graphviz DOT digraph. */
+  static toDot(definition: IWorkflowDefinition<any, any, any>): string {
+    const model = WorkflowDiagram.buildModel(definition);
+    const quote = (value: string) => `"${value.replace(/"/g, '\\"')}"`;
+    const lines = [
+      `digraph ${quote(model.name)} {`,
+      `  label=${quote(model.name)};`,
+      '  labelloc=t;',
+      '  rankdir=LR;',
+      '  compound=true;',
+      '  node [shape=box, style=rounded];',
+    ];
+
+    // Edges cannot attach to clusters — they attach to a node inside and are clipped at the cluster border
+    const anchor = (node: DiagramNode): string =>
+      node.children.length > 0
+        ? anchor(node.children[0])
+        : node.regions[0]?.nodes.length
+          ? anchor(node.regions[0].nodes[0])
+          : node.id;
+    const isCluster = (node: DiagramNode) => node.children.length > 0 || node.regions.some((r) => r.nodes.length > 0);
+    const byId = new Map(flatten(model.nodes).map((n) => [n.id, n]));
+
+    const declare = (nodes: DiagramNode[], edges: DiagramEdge[], indent: string, scope: string) => {
+      for (const node of nodes) {
+        if (isCluster(node)) {
+          lines.push(`${indent}subgraph ${quote(`cluster_${node.id}`)} {`, `${indent}  label=${quote(node.label)};`);
+          if (node.children.length > 0) declare(node.children, [], `${indent}  `, scope);
+          for (const region of node.regions) {
+            lines.push(
+              `${indent}  subgraph ${quote(`cluster_${region.id}`)} {`,
+              `${indent}    label=${quote(region.name)};`,
+              `${indent}    style=dashed;`,
+            );
+            declare(region.nodes, region.edges, `${indent}    `, region.id);
+            lines.push(`${indent}  }`);
+          }
+          lines.push(`${indent}}`);
+          continue;
+        }
+        const attributes = [`label=${quote([node.label, ...node.notes].join('\\n'))}`];
+        if (node.final) attributes.push('peripheries=2');
+        if (node.idle) attributes.push('style="rounded,filled"', 'fillcolor="#fef3c7"');
+        if (node.failed) attributes.push('style="rounded,filled"', 'fillcolor="#fee2e2"', 'color="#dc2626"');
+        lines.push(`${indent}${quote(node.id)} [${attributes.join(', ')}];`);
+      }
+
+      const start = `${scope}__start`;
+      if (edges.some((e) => e.from === null)) lines.push(`${indent}${quote(start)} [shape=point];`);
+      for (const edge of edges) {
+        if (edge.to === null) continue; // finals are drawn with a double border
+        const from = edge.from === null ? undefined : byId.get(edge.from);
+        const to = byId.get(edge.to)!;
+        const attributes: string[] = [];
+        if (edge.label) attributes.push(`label=${quote(edge.label)}`);
+        if (from && isCluster(from)) attributes.push(`ltail=${quote(`cluster_${from.id}`)}`);
+        if (isCluster(to)) attributes.push(`lhead=${quote(`cluster_${to.id}`)}`);
+        const suffix = attributes.length > 0 ? ` [${attributes.join(', ')}]` : '';
+        lines.push(`${indent}${quote(from ? anchor(from) : start)} -> ${quote(anchor(to))}${suffix};`);
+      }
+    };
+    declare(model.nodes, model.edges, '  ', toId(model.name));
+
+    lines.push('}');
+    return lines.join('\n');
+  }
+
+  /** Render a definition as a PlantUML state diagram. */
+  static toPlantUml(definition: IWorkflowDefinition<any, any, any>): string {
+    const model = WorkflowDiagram.buildModel(definition);
+    const lines = [
+      `@startuml ${toId(model.name)}`,
+      `title ${model.name}`,
+      'hide empty description',
+      'skinparam state {',
+      '  BackgroundColor<<idle>> #fef3c7',
+      '  BackgroundColor<<failed>> #fee2e2',
+      '  BorderColor<<failed>> #dc2626',
+      '}',
+    ];
+
+    const declare = (nodes: DiagramNode[], edges: DiagramEdge[], indent: string) => {
+      for (const node of nodes) {
+        const stereotype = node.failed ? ' <<failed>>' : node.idle ? ' <<idle>>' : '';
+        const head = `${indent}state "${node.label}" as ${node.id}${stereotype}`;
+        if (node.children.length > 0) {
+          lines.push(`${head} {`);
+          declare(node.children, [], `${indent}  `);
+          lines.push(`${indent}}`);
+        } else if (node.regions.length > 0) {
+          lines.push(`${head} {`);
+          node.regions.forEach((region, i) => {
+            if (i > 0) lines.push(`${indent}  --`);
+            declare(region.nodes, region.edges, `${indent}  `);
+          });
+          lines.push(`${indent}}`);
+        } else {
+          lines.push(head);
+        }
+      }
+      for (const edge of edges) {
+        const label = edge.label ? ` : ${edge.label}` : '';
+        lines.push(`${indent}${edge.from ?? '[*]'} --> ${edge.to ?? '[*]'}${label}`);
+      }
+    };
+    declare(model.nodes, model.edges, '');
+
+    for (const node of flatten(model.nodes).filter((n) => n.notes.length > 0)) {
+      lines.push(`note right of ${node.id}`, ...node.notes.map((n) => `  ${n}`), 'end note');
+    }
+    lines.push('@enduml');
+    return lines.join('\n');
+  }
+
+  /** Build the format-neutral tree of states and the transitions between them. */
+  private static buildModel(definition: IWorkflowDefinition<any, any, any>): DiagramModel {
+    const hierarchy = new StateHierarchy(definition.states.compound);
+    const states = DefinitionStates.collect<StateValue>(definition);
+    const finals = new Set<StateValue>(definition.states.finals);
+    const failed: StateValue = definition.states.failed;
+    const compensated: StateValue | undefined = definition.saga?.compensated;
+    if (compensated !== undefined) finals.add(compensated);
+
+    const timeouts = new Map<StateValue, { timeout?: Duration; onTimeout?: unknown }>();
+    for (const entry of definition.states.idles) {
+      const state = DefinitionStates.idleState<StateValue>(entry);
+      timeouts.set(state, typeof entry === 'object' && entry !== null ? entry : {});
+    }
+
+    const nodes = new Map<StateValue, DiagramNode>();
+    const node = (state: StateValue, prefix = ''): DiagramNode => ({
+      id: toId(state, prefix),
+      label: String(state),
+      idle: false,
+      final: false,
+      failed: false,
+      notes: [],
+      children: [],
+      regions: [],
+    });
+    for (const state of states) {
+      const entry = node(state);
+      const idle = timeouts.get(state);
+      entry.idle = idle !== undefined;
+      entry.final = finals.has(state);
+      entry.failed = state === failed;
+      if (idle) {
+        const timeout = idle.timeout ?? definition.defaultCallbackTimeout;
+        const onTimeout = idle.onTimeout ?? definition.defaultOnTimeout;
+        if (timeout) {
+          entry.notes.push(`timeout ${WorkflowDiagram.formatDuration(timeout)}${onTimeout ? ` → ${onTimeout}` : ''}`);
+        }
+      }
+      nodes.set(state, entry);
+    }
+    for (const compound of definition.states.compound ?? []) {
+      nodes.get(compound.state)!.children = compound.children.map((child) => nodes.get(child)!);
+    }
+    for (const child of definition.children ?? []) {
+      nodes.get(child.state)!.notes.push(`child ${child.workflow} (${child.event})`);
+    }
+    for (const parallel of definition.parallel ?? []) {
+      const parent = nodes.get(parallel.state)!;
+      parent.regions = parallel.regions.map((region) => {
+        const prefix = `${parent.id}__${toId(region.name)}__`;
+        const regionStates = [
+          ...new Set<StateValue>([
+            region.initial,
+            ...region.transitions.flatMap((t) => [...toArray<StateValue>(t.from), t.to]),
+            ...region.finals,
+          ]),
+        ];
+        const regionNodes = regionStates.map((state) => ({
+          ...node(state, prefix),
+          final: region.finals.includes(state),
+        }));
+        return {
+          id: `${parent.id}__${toId(region.name)}`,
+          name: region.name,
+          nodes: regionNodes,
+          edges: [
+            { from: null, to: toId(region.initial, prefix) },
+            ...WorkflowDiagram.transitionEdges(region.transitions, (s) => toId(s, prefix)),
+            ...region.finals.map((state: StateValue) => ({ from: toId(state, prefix), to: null })),
+          ],
+        };
+      });
+    }
+
+    // Entry states are entered by no transition — directly or as the initial child of a compound target
+    const entered = new Set<StateValue>();
+    for (const t of definition.transitions) {
+      entered.add(t.to);
+      try {
+        hierarchy.lineage(hierarchy.resolveTarget(t.to)).forEach((s) => entered.add(s));
+      } catch {
+        // A compound target without `initial` is reported by the definition validator
+      }
+    }
+    const entries = states.filter((s) => !entered.has(s) && !hierarchy.isCompound(s) && !finals.has(s) && s !== failed);
+
+    const edges: DiagramEdge[] = [
+      ...entries.map((s) => ({ from: null, to: toId(s) })),
+      ...WorkflowDiagram.transitionEdges(definition.transitions, (s) => toId(s)),
+      ...[...finals].filter((s) => s !== compensated).map((s) => ({ from: toId(s), to: null })),
+    ];
+    if (compensated !== undefined) {
+      edges.push(
+        { from: toId(failed), to: toId(compensated), label: 'compensate' },
+        { from: toId(compensated), to: null },
+      );
+    }
+
+    const roots = states.filter((s) => hierarchy.lineage(s).length === 1).map((s) => nodes.get(s)!);
+    return { name: definition.name, nodes: roots, edges };
+  }
+
+  /** One edge per source state, labelled with the events and the names of the conditions. */
+  private static transitionEdges(
+    transitions: ITransitionEvent<any, any, any, any>[],
+    id: (state: StateValue) => string,
+  ): DiagramEdge[] {
+    return transitions.flatMap((t) => {
+      const guards = (t.conditions ?? []).map((c, i) => c.name || `conditions[${i}]`);
+      const label = `${toArray(t.event).join(', ')}${guards.length > 0 ? ` [${guards.join(', ')}]` : ''}`;
+      return toArray<StateValue>(t.from).map((from) => ({ from: id(from), to: id(t.to), label }));
+    });
+  }
+
+  /** `{ hours: 1, minutes: 30 }` → `1h 30m`. */
+  private static formatDuration(duration: Duration): string {
+    const parts = [
+      duration.hours ? `${duration.hours}h` : '',
+      duration.minutes ? `${duration.minutes}m` : '',
+      duration.seconds ? `${duration.seconds}s` : '',
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' ') : '0s';
+  }
+}
@@ -1,16 +1,44 @@
-import { type DynamicModule, Module, type Provider } from '@nestjs/common';
+import { type DynamicModule, Module, type Provider, type Type } from '@nestjs/common';
 import { DiscoveryModule } from '@nestjs/core';
-import { OrchestratorService, StateRouterHelperFactory } from '@/core';
+import {
+  InMemoryWorkflowHistoryStore,
+  OrchestratorService,
+  StateRouterHelperFactory,
+  WorkflowDefinitionLoader,
+  WorkflowRegistry,
+} from '@/core';
 
-import type { IWorkflowEntity } from './types';
-import { type PayloadValidator, WORKFLOW_PAYLOAD_VALIDATOR } from './types';
+import {
+  type DefinitionValidationMode,
+  type IWorkflowBinding,
+  type IWorkflowEntity,
+  type IWorkflowFeatureOptions,
+  type IWorkflowHistoryStore,
+  type IWorkflowModuleAsyncOptions,
+  type IWorkflowModuleOptions,
+  type IWorkflowOptionsFactory,
+  type PayloadValidator,
+  type WorkflowConditionLibrary,
+  type WorkflowInterceptor,
+  type WorkflowInterceptorRef,
+  WORKFLOW_DEFINITION_BINDINGS,
+  WORKFLOW_DEFINITION_VALIDATION,
+  WORKFLOW_HISTORY_STORE,
+  WORKFLOW_INTERCEPTORS,
+  WORKFLOW_MODULE_OPTIONS,
+  WORKFLOW_PAYLOAD_VALIDATOR,
+} from './types';
 
 /**
  * Dynamic NestJS module that bootstraps the workflow engine.
  *
- * Call {@link WorkflowModule.register} to supply entity services, workflow
- * classes, and any extra providers. The module sets up {@link OrchestratorService}
- * and the {@link StateRouterHelperFactory} automatically.
+ * Call {@link WorkflowModule.register} (or {@link WorkflowModule.registerAsync})
+ * once to supply entity services, workflow classes, and any extra providers.
+ * The module sets up {@link OrchestratorService}, the {@link StateRouterHelperFactory}
+ * and the {@link WorkflowRegistry} automatically, and exports them. Feature
+ * modules register their own workflows with {@link WorkflowModule.forFeature};
+ * they are routed by the same orchestrator. Register the module with
+ * `global: true` for feature modules to inject the orchestrator as well.
  *
  * @example
  * ```typescript
@@ -34,6 +62,17 @@ export class WorkflowModule {
    * @param options.entities  - Providers for {@link IWorkflowEntity} implementations (keyed by injection token)
    * @param options.workflows - Workflow classes decorated with {@link Workflow}
    * @param options.providers - Extra providers to include in the module
+   * @param options.historyStore - {@link IWorkflowHistoryStore} class or instance for the transition
+   *   audit trail. Defaults to {@link InMemoryWorkflowHistoryStore}.
+   * @param options.validation - How invalid workflow definitions are reported at startup
+   *   (`error`, `warn` or `off`). Defaults to `warn`.
+   * @param options.interceptors - {@link WorkflowInterceptor} classes or instances wrapping every
+   *   transit, outermost first. Classes are instantiated as providers of the module.
+   * @param options.definitions - Handler classes bound to a definition document or object instead
+   *   of `@Workflow`, e.g. one loaded with {@link WorkflowDefinitionLoader.fromFile}
+   * @param options.conditions - Named conditions the definition documents refer to
+   * @param options.global - Register the module globally, so every module can inject the
+   *   orchestrator. Defaults to `false`.
    */
   static register(options: {
     imports?: any[];
@@ -42,23 +81,177 @@ export class WorkflowModule {
     providers?: Provider[];
     /** Optional validation function for `@Payload(schema)` decorated parameters. */
     payloadValidator?: PayloadValidator;
+    historyStore?: Type<IWorkflowHistoryStore> | IWorkflowHistoryStore;
+    validation?: DefinitionValidationMode;
+    interceptors?: WorkflowInterceptorRef[];
+    definitions?: IWorkflowBinding[];
+    conditions?: WorkflowConditionLibrary;
+    global?: boolean;
   }): DynamicModule {
-    const { imports, entities, workflows, providers: extraProviders, payloadValidator } = options;
+    const {
+      providers: extraProviders = [],
+      payloadValidator,
+      historyStore,
+      validation,
+      interceptors = [],
+      definitions = [],
+      conditions,
+    } = options;
+    const interceptorTypes = interceptors.filter((i) => typeof i === 'function');
 
-    const providers = [
-      ...entities,
-      ...workflows,
-      ...(extraProviders ?? []),
+    return WorkflowModule.createRootModule({ ...options, providers: [...extraProviders, ...interceptorTypes] }, [
       { provide: WORKFLOW_PAYLOAD_VALIDATOR, useValue: payloadValidator ?? null },
+      typeof historyStore === 'function'
+        ? { provide: WORKFLOW_HISTORY_STORE, useClass: historyStore }
+        : { provide: WORKFLOW_HISTORY_STORE, useValue: historyStore ?? new InMemoryWorkflowHistoryStore() },
+      { provide: WORKFLOW_DEFINITION_VALIDATION, useValue: validation ?? 'warn' },
+      {
+        provide: WORKFLOW_INTERCEPTORS,
+        useFactory: (...instances: WorkflowInterceptor[]) =>
+          interceptors.map((i) => (typeof i === 'function' ? instances[interceptorTypes.indexOf(i)] : i)),
+        inject: interceptorTypes,
+      },
+      {
+        provide: WORKFLOW_DEFINITION_BINDINGS,
+        useFactory: () => WorkflowModule.resolveBindings(definitions, conditions),
+      },
+    ]);
+  }
+
+  /**
+   * Register workflows with module-wide options created at runtime — from a
+   * factory with injected dependencies, or from an {@link IWorkflowOptionsFactory}
+   * class — e.g. to configure the payload validator or history store from a
+   * `ConfigService`.
+   *
+   * @param options - The workflows and entity services to register, and `useFactory`
+   *   (with `inject`) or `useClass` creating the {@link IWorkflowModuleOptions}
+   * @throws {Error} If neither `useFactory` nor `useClass` is set.
+   *
+   * @example
+   * ```typescript
+   * WorkflowModule.registerAsync({
+   *   imports: [ConfigModule],
+   *   entities: [{ provide: 'entity.order', useClass: OrderEntityService }],
+   *   workflows: [OrderWorkflow],
+   *   useFactory: (config: ConfigService) => ({
+   *     historyStore: new DynamoDbHistoryStore(config.get('HISTORY_TABLE')),
+   *     validation: config.get('WORKFLOW_VALIDATION'),
+   *   }),
+   *   inject: [ConfigService],
+   * });
+   * ```
+   */
+  static registerAsync(options: IWorkflowModuleAsyncOptions): DynamicModule {
+    const { definitions = [] } = options;
+    const fromOptions = <T>(provide: symbol, select: (options: IWorkflowModuleOptions) => T): Provider => ({
+      provide,
+      useFactory: select,
+      inject: [WORKFLOW_MODULE_OPTIONS],
+    });
+
+    return WorkflowModule.createRootModule(options, [
+      ...WorkflowModule.createOptionsProviders(options),
+      fromOptions(WORKFLOW_PAYLOAD_VALIDATOR, (o) => o.payloadValidator ?? null),
+      fromOptions(WORKFLOW_HISTORY_STORE, (o) => o.historyStore ?? new InMemoryWorkflowHistoryStore()),
+      fromOptions(WORKFLOW_DEFINITION_VALIDATION, (o) => o.validation ?? 'warn'),
+      fromOptions(WORKFLOW_INTERCEPTORS, (o) => o.interceptors ?? []),
+      fromOptions(WORKFLOW_DEFINITION_BINDINGS, (o) => WorkflowModule.resolveBindings(definitions, o.conditions)),
+    ]);
+  }
+
+  /**
+   * Register the workflows and entity services of a feature module. They are
+   * discovered and routed by the orchestrator of the module registered with
+   * {@link WorkflowModule.register} or {@link WorkflowModule.registerAsync},
+   * which must be imported once by the application. Providers of the feature
+   * module can only inject the orchestrator when that module is `global`.
+   *
+   * @param options.conditions - Named conditions the definition documents of
+   *   `options.definitions` refer to
+   *
+   * @example
+   * ```typescript
+   * @Module({
+   *   imports: [
+   *     WorkflowModule.forFeature({
+   *       entities: [{ provide: 'entity.invoice', useClass: InvoiceEntityService }],
+   *       workflows: [InvoiceWorkflow],
+   *     }),
+   *   ],
+   * })
+   * export class BillingModule {}
+   * ```
+   */
+  static forFeature(options: IWorkflowFeatureOptions & { conditions?: WorkflowConditionLibrary }): DynamicModule {
+    const { definitions = [], conditions } = options;
+    const providers = WorkflowModule.createFeatureProviders(options);
+
+    return {
+      module: WorkflowModule,
+      imports: options.imports ?? [],
+      providers: [
+        ...providers,
+        {
+          provide: WORKFLOW_DEFINITION_BINDINGS,
+          useFactory: () => WorkflowModule.resolveBindings(definitions, conditions),
+        },
+      ],
+      exports: providers,
+    };
+  }
+
+  /** The module running the orchestrator, with the given option providers. */
+  private static createRootModule(
+    features: IWorkflowFeatureOptions & { global?: boolean },
+    optionProviders: Provider[],
+  ): DynamicModule {
+    const providers = [
+      ...WorkflowModule.createFeatureProviders(features),
+      ...optionProviders,
       StateRouterHelperFactory,
+      WorkflowRegistry,
       OrchestratorService,
     ];
 
     return {
       module: WorkflowModule,
-      imports: [DiscoveryModule, ...(imports ?? [])],
+      global: features.global ?? false,
+      imports: [DiscoveryModule, ...(features.imports ?? [])],
       providers: providers,
       exports: providers,
     };
   }
+
+  /** Entity services, workflow classes, bound handler classes and extra providers. */
+  private static createFeatureProviders(options: IWorkflowFeatureOptions): Provider[] {
+    const { entities = [], workflows = [], definitions = [], providers = [] } = options;
+    return [...entities, ...workflows, ...definitions.map((d) => d.workflow), ...providers];
+  }
+
+  /**
+   * The provider of {@link WORKFLOW_MODULE_OPTIONS} for {@link registerAsync}.
+   * @throws {Error} If neither `useFactory` nor `useClass` is set.
+   */
+  private static createOptionsProviders(options: IWorkflowModuleAsyncOptions): Provider[] {
+    if (options.useFactory) {
+      return [{ provide: WORKFLOW_MODULE_OPTIONS, useFactory: options.useFactory, inject: options.inject ?? [] }];
+    }
+    if (options.useClass) {
+      return [
+        options.useClass,
+        {
+          provide: WORKFLOW_MODULE_OPTIONS,
+          useFactory: (factory: IWorkflowOptionsFactory) => factory.createWorkflowOptions(),
+          inject: [options.useClass],
+        },
+      ];
+    }
+    throw new Error('WorkflowModule.registerAsync() requires useFactory or useClass');
+  }
+
+  /** Bindings with their definition documents resolved against `conditions`. */
+  private static resolveBindings(definitions: IWorkflowBinding[], conditions?: WorkflowConditionLibrary) {
+    return definitions.map((d) => ({ ...d, definition: WorkflowDefinitionLoader.resolve(d.definition, conditions) }));
+  }
 }
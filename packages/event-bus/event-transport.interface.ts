@@ -0,0 +1,58 @@
+import type { Type } from '@nestjs/common';
+import type { WorkflowDomainEvent } from '@/core';
+
+/** Callback receiving the {@link WorkflowDomainEvent}s a subscription matches. */
+export type WorkflowEventHandler<E extends WorkflowDomainEvent = WorkflowDomainEvent> = (
+  event: E,
+) => void | Promise<void>;
+
+/**
+ * Carries the {@link WorkflowDomainEvent}s published on the
+ * {@link WorkflowEventBus} — to handlers of the same process
+ * ({@link InProcessEventTransport}) or to an external broker.
+ *
+ * Broker transports usually only implement `publish()`: consumers subscribe
+ * through the broker. Transports able to deliver events back to this process
+ * implement `subscribe()` too.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class EventBridgeTransport implements IWorkflowEventTransport {
+ *   constructor(private readonly client: EventBridgeClient) {}
+ *
+ *   async publish(event: WorkflowDomainEvent) {
+ *     await this.client.send(
+ *       new PutEventsCommand({
+ *         Entries: [{ Source: 'workflow', DetailType: event.type, Detail: JSON.stringify(event) }],
+ *       }),
+ *     );
+ *   }
+ * }
+ * ```
+ */
+export interface IWorkflowEventTransport {
+  /**
+   * Deliver an event
+   * @param event The event to deliver
+   */
+  publish(event: WorkflowDomainEvent): Promise<void>;
+
+  /**
+   * Receive every event published through this transport
+   * @param handler Called with each event
+   * @returns Function removing the subscription
+   */
+  subscribe?(handler: WorkflowEventHandler): () => void;
+}
+
+/**
+ * A transport instance, or a class resolved from the module's providers.
+ */
+export type WorkflowEventTransportRef = Type<IWorkflowEventTransport> | IWorkflowEventTransport;
+
+/**
+ * NestJS injection token for the {@link IWorkflowEventTransport}s of the
+ * {@link WorkflowEventBus}.
+ */
+export const WORKFLOW_EVENT_TRANSPORTS = Symbol('WORKFLOW_EVENT_TRANSPORTS');
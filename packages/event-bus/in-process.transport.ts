@@ -0,0 +1,27 @@
+import type { IWorkflowEventTransport, WorkflowEventHandler } from './event-transport.interface';
+import type { WorkflowDomainEvent } from '@/core';
+
+/**
+ * {@link IWorkflowEventTransport} delivering events to the handlers
+ * subscribed in the same process. The default transport of the
+ * {@link WorkflowEventBus}.
+ *
+ * Every handler receives every event, even if another one throws; the
+ * handlers' errors are then rethrown together as an `AggregateError`.
+ */
+export class InProcessEventTransport implements IWorkflowEventTransport {
+  private readonly handlers = new Set<WorkflowEventHandler>();
+
+  async publish(event: WorkflowDomainEvent): Promise<void> {
+    const results = await Promise.allSettled([...this.handlers].map(async (handler) => handler(event)));
+    const errors = results.filter((r) => r.status === 'rejected').map((r) => r.reason as unknown);
+    if (errors.length > 0) {
+      throw new AggregateError(errors, `${errors.length} handler(s) of ${event.type} failed`);
+    }
+  }
+
+  subscribe(handler: WorkflowEventHandler): () => void {
+    this.handlers.add(handler);
+    return () => this.handlers.delete(handler);
+  }
+}
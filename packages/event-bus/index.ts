@@ -0,0 +1,28 @@
+/**
+ * @module nestjs-serverless-workflow/event-bus
+ *
+ * Domain events of the workflow engine — transitions started, completed and
+ * failed, states entered and workflows completed — published by the
+ * orchestrator through the {@link WorkflowEventBus}, in process or to an
+ * external broker.
+ *
+ * @example
+ * ```typescript
+ * import { WorkflowEventBus, WorkflowEventBusModule } from 'nestjs-serverless-workflow/event-bus';
+ * ```
+ */
+export * from './event-transport.interface';
+export * from './in-process.transport';
+export type {
+  IStateEnteredEvent,
+  ITransitionCompletedEvent,
+  ITransitionFailedEvent,
+  ITransitionStartedEvent,
+  IWorkflowCompletedEvent,
+  IWorkflowDomainEventBase,
+  WorkflowDomainEvent,
+  WorkflowDomainEventOf,
+  WorkflowDomainEventType,
+} from '@/core';
+export * from './workflow-event-bus';
+export * from './workflow-event-bus.module';
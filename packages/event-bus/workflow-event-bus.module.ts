@@ -0,0 +1,57 @@
+import { type DynamicModule, Module } from '@nestjs/common';
+import { WORKFLOW_EVENT_PUBLISHER } from '@/core';
+import {
+  type IWorkflowEventTransport,
+  type WorkflowEventTransportRef,
+  WORKFLOW_EVENT_TRANSPORTS,
+} from './event-transport.interface';
+import { InProcessEventTransport } from './in-process.transport';
+import { WorkflowEventBus } from './workflow-event-bus';
+
+/**
+ * Global NestJS module providing the {@link WorkflowEventBus}. Import it next
+ * to `WorkflowModule.register()` to have the orchestrator publish its domain
+ * events.
+ *
+ * @example
+ * ```typescript
+ * @Module({
+ *   imports: [
+ *     WorkflowModule.register({ entities, workflows: [OrderWorkflow] }),
+ *     WorkflowEventBusModule.forRoot({ transports: [new InProcessEventTransport(), EventBridgeTransport] }),
+ *   ],
+ * })
+ * export class AppModule {}
+ * ```
+ */
+@Module({})
+export class WorkflowEventBusModule {
+  /**
+   * Register the event bus.
+   *
+   * @param options.transports - {@link IWorkflowEventTransport} classes or instances the events are
+   *   published through. Classes are instantiated as providers of the module. Defaults to an
+   *   {@link InProcessEventTransport}.
+   */
+  static forRoot(options: { transports?: WorkflowEventTransportRef[] } = {}): DynamicModule {
+    const { transports = [new InProcessEventTransport()] } = options;
+    const transportTypes = transports.filter((t) => typeof t === 'function');
+
+    return {
+      module: WorkflowEventBusModule,
+      global: true,
+      providers: [
+        ...transportTypes,
+        {
+          provide: WORKFLOW_EVENT_TRANSPORTS,
+          useFactory: (...instances: IWorkflowEventTransport[]) =>
+            transports.map((t) => (typeof t === 'function' ? instances[transportTypes.indexOf(t)] : t)),
+          inject: transportTypes,
+        },
+        WorkflowEventBus,
+        { provide: WORKFLOW_EVENT_PUBLISHER, useExisting: WorkflowEventBus },
+      ],
+      exports: [WorkflowEventBus, WORKFLOW_EVENT_TRANSPORTS, WORKFLOW_EVENT_PUBLISHER],
+    };
+  }
+}
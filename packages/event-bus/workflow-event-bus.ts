@@ -0,0 +1,76 @@
+import { Inject, Injectable, Optional } from '@nestjs/common';
+import type {
+  IWorkflowEventPublisher,
+  WorkflowDomainEvent,
+  WorkflowDomainEventOf,
+  WorkflowDomainEventType,
+} from '@/core';
+import {
+  type IWorkflowEventTransport,
+  type WorkflowEventHandler,
+  WORKFLOW_EVENT_TRANSPORTS,
+} from './event-transport.interface';
+import { InProcessEventTransport } from './in-process.transport';
+
+/**
+ * Publishes the {@link WorkflowDomainEvent}s emitted by the orchestrator
+ * through its {@link IWorkflowEventTransport}s.
+ *
+ * Registered with {@link WorkflowEventBusModule.forRoot}, which provides it as
+ * the `WORKFLOW_EVENT_PUBLISHER` of the orchestrator. The orchestrator does
+ * not wait for the transports; a failing transport is logged and never fails
+ * the transit.
+ *
+ * @example
+ * ```typescript
+ * @Injectable()
+ * export class OrderNotifications implements OnModuleInit {
+ *   constructor(private readonly eventBus: WorkflowEventBus) {}
+ *
+ *   onModuleInit() {
+ *     this.eventBus.subscribe('workflow.completed', (event) => this.notify(event.urn, event.state));
+ *   }
+ * }
+ * ```
+ */
+@Injectable()
+export class WorkflowEventBus implements IWorkflowEventPublisher {
+  constructor(
+    @Optional()
+    @Inject(WORKFLOW_EVENT_TRANSPORTS)
+    private readonly transports: IWorkflowEventTransport[] = [new InProcessEventTransport()],
+  ) {}
+
+  /**
+   * Deliver an event through every transport
+   * @param event The event to publish
+   */
+  async publish(event: WorkflowDomainEvent): Promise<void> {
+    await Promise.all(this.transports.map((transport) => transport.publish(event)));
+  }
+
+  /**
+   * Receive the events of a type — or all of them with `*` — from the
+   * transports able to deliver them to this process.
+   *
+   * @param type The event type, or `*`
+   * @param handler Called with each matching event
+   * @returns Function removing the subscription
+   * @throws {Error} If no transport of the bus implements `subscribe()`.
+   */
+  subscribe<K extends WorkflowDomainEventType>(
+    type: K,
+    handler: WorkflowEventHandler<WorkflowDomainEventOf<K>>,
+  ): () => void;
+  subscribe(type: '*', handler: WorkflowEventHandler): () => void;
+  subscribe(type: WorkflowDomainEventType | '*', handler: WorkflowEventHandler<any>): () => void {
+    const subscribing = this.transports.filter((t) => t.subscribe);
+    if (subscribing.length === 0) {
+      throw new Error('None of the transports of the workflow event bus delivers events to this process');
+    }
+    const matching: WorkflowEventHandler = (event) =>
+      type === '*' || event.type === type ? handler(event) : undefined;
+    const unsubscribes = subscribing.map((t) => t.subscribe!(matching));
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }
+}
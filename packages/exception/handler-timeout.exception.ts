@@ -0,0 +1,18 @@
+/**
+ * Thrown when an `@OnEvent` handler runs longer than its `timeout`. The
+ * handler's `@Signal()` parameter is aborted with this error as its reason.
+ *
+ * The orchestrator treats it as retriable when the handler has a
+ * `@WithRetry()` config (unless `retryOnTimeout` is `false`); otherwise it is
+ * rethrown as the `cause` of an {@link UnretriableException}.
+ */
+export class HandlerTimeoutException extends Error {
+  constructor(
+    message: string,
+    readonly handler: string,
+    readonly timeout: number,
+  ) {
+    super(message);
+    this.name = 'HandlerTimeoutException';
+  }
+}
@@ -1 +1,3 @@
+export * from './handler-timeout.exception';
 export * from './unretriable.exception';
+export * from './workflow-conflict.exception';
@@ -1,6 +1,6 @@
 export class UnretriableException extends Error {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
     this.name = 'UnretriableException';
   }
 }
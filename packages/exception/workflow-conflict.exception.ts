@@ -0,0 +1,19 @@
+/**
+ * Thrown by an {@link IWorkflowEntity.update} implementation when a conditional
+ * (compare-and-set) write is rejected because the entity changed since it was
+ * loaded — e.g. a concurrent event already moved it out of the expected state.
+ *
+ * The orchestrator does not move the entity to the failed state for this
+ * error. Adapters treat it as retriable: the next attempt reloads the entity
+ * and re-validates the transition against its current state.
+ */
+export class WorkflowConflictException extends Error {
+  constructor(
+    message: string,
+    readonly urn?: string | number,
+    readonly expectedStatus?: string | number,
+  ) {
+    super(message);
+    this.name = 'WorkflowConflictException';
+  }
+}
@@ -0,0 +1,178 @@
+import { randomUUID } from 'node:crypto';
+import type { IWorkflowUpdateContext } from '@/core';
+import { OrmWorkflowEntity, type IOrmWorkflowEntityOptions } from './orm-workflow-entity';
+
+/**
+ * Minimal interface of the DynamoDB document client — `DynamoDBDocument.from(client)`
+ * from `@aws-sdk/lib-dynamodb`. The AWS SDK is not a dependency of this package.
+ */
+export interface IDynamoDbDocumentClient {
+  get(input: { TableName: string; Key: Record<string, unknown>; ConsistentRead?: boolean }): Promise<{
+    Item?: Record<string, unknown>;
+  }>;
+  put(input: {
+    TableName: string;
+    Item: Record<string, unknown>;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+  }): Promise<unknown>;
+  update(input: {
+    TableName: string;
+    Key: Record<string, unknown>;
+    UpdateExpression: string;
+    ConditionExpression?: string;
+    ExpressionAttributeNames?: Record<string, string>;
+    ExpressionAttributeValues?: Record<string, unknown>;
+    ReturnValues?: 'ALL_NEW';
+  }): Promise<{ Attributes?: Record<string, unknown> }>;
+}
+
+/** Options of a {@link DynamoDbWorkflowEntity}. */
+export interface IDynamoDbWorkflowEntityOptions<T, State = string | number> extends IOrmWorkflowEntityOptions<
+  T,
+  State
+> {
+  /** Name of the table. */
+  tableName: string;
+  /** Key of the item of a URN. Defaults to `{ [idField]: urn }`, for tables keyed by the URN alone. */
+  key?: (urn: string | number) => Record<string, unknown>;
+  /** URN of the items created by `create()`. Defaults to a random UUID. */
+  generateUrn?: () => string | number;
+  /**
+   * Number attribute incremented on every write. Writes are then also
+   * conditional on the revision the entity was loaded with.
+   */
+  revisionField?: keyof T & string;
+  /** Attribute holding the ISO time of the last write. Defaults to `updatedAt`. */
+  updatedAtField?: string;
+  /** Attribute holding the event of the last transition. Defaults to `lastEvent`. */
+  lastEventField?: string;
+}
+
+/**
+ * {@link IWorkflowEntity} over a DynamoDB table, through the document client.
+ *
+ * Status updates are `UpdateItem` calls with a `ConditionExpression` on the
+ * expected status (and revision, if `revisionField` is set), which also
+ * require the item to exist. A `ConditionalCheckFailedException` is thrown
+ * as a {@link WorkflowConflictException}. Every write stores `updatedAt`;
+ * status updates store the event that triggered them in `lastEvent`.
+ *
+ * @example
+ * ```typescript
+ * WorkflowModule.register({
+ *   entities: [
+ *     {
+ *       provide: 'entity.order',
+ *       useFactory: () =>
+ *         new DynamoDbWorkflowEntity<Order, OrderStatus>(DynamoDBDocument.from(new DynamoDBClient()), {
+ *           tableName: process.env.ORDER_TABLE!,
+ *           initialStatus: OrderStatus.Pending,
+ *           revisionField: 'revision',
+ *         }),
+ *     },
+ *   ],
+ *   workflows: [OrderWorkflow],
+ * });
+ * ```
+ */
+export class DynamoDbWorkflowEntity<T extends object, State = string | number> extends OrmWorkflowEntity<T, State> {
+  constructor(
+    private readonly client: IDynamoDbDocumentClient,
+    protected readonly options: IDynamoDbWorkflowEntityOptions<T, State>,
+  ) {
+    super(options);
+  }
+
+  protected async insert(fields: Partial<T>): Promise<T> {
+    const { tableName, generateUrn = randomUUID, revisionField } = this.options;
+    const item = {
+      [this.idField]: generateUrn(),
+      ...fields,
+      ...(revisionField && { [revisionField]: 0 }),
+      [this.updatedAtField]: new Date().toISOString(),
+    };
+    const key = Object.keys(this.key(item[this.idField]));
+    await this.client.put({
+      TableName: tableName,
+      Item: item,
+      ConditionExpression: key.map((_, i) => `attribute_not_exists(#k${i})`).join(' AND '),
+      ExpressionAttributeNames: Object.fromEntries(key.map((name, i) => [`#k${i}`, name])),
+    });
+    return item as T;
+  }
+
+  protected async find(urn: string | number): Promise<T | null> {
+    const { Item } = await this.client.get({
+      TableName: this.options.tableName,
+      Key: this.key(urn),
+      ConsistentRead: true,
+    });
+    return (Item as T | undefined) ?? null;
+  }
+
+  protected async write(
+    entity: T,
+    changes: Record<string, unknown>,
+    condition: Record<string, unknown> = {},
+  ): Promise<T | null> {
+    const { tableName, revisionField } = this.options;
+    const key = this.key(this.urn(entity));
+    const set: Record<string, unknown> = { ...changes, [this.updatedAtField]: new Date().toISOString() };
+    const expected = { ...condition };
+    if (revisionField) {
+      const revision = (entity as Record<string, number | undefined>)[revisionField] ?? 0;
+      expected[revisionField] = revision;
+      set[revisionField] = revision + 1;
+    }
+
+    const names: Record<string, string> = {};
+    const values: Record<string, unknown> = {};
+    const name = (attribute: string) => {
+      const placeholder = `#a${Object.keys(names).length}`;
+      names[placeholder] = attribute;
+      return placeholder;
+    };
+    const value = (v: unknown) => {
+      const placeholder = `:v${Object.keys(values).length}`;
+      values[placeholder] = v;
+      return placeholder;
+    };
+    const conditions = [
+      ...Object.keys(key).map((attribute) => `attribute_exists(${name(attribute)})`),
+      ...Object.entries(expected).map(([attribute, v]) => `${name(attribute)} = ${value(v)}`),
+    ];
+    const updates = Object.entries(set).map(([attribute, v]) => `${name(attribute)} = ${value(v)}`);
+
+    try {
+      const { Attributes } = await this.client.update({
+        TableName: tableName,
+        Key: key,
+        UpdateExpression: `SET ${updates.join(', ')}`,
+        ConditionExpression: conditions.join(' AND '),
+        ExpressionAttributeNames: names,
+        ExpressionAttributeValues: values,
+        ReturnValues: 'ALL_NEW',
+      });
+      return Attributes as T;
+    } catch (e) {
+      if ((e as Error).name === 'ConditionalCheckFailedException') return null;
+      throw e;
+    }
+  }
+
+  protected statusChanges(status: State, context?: IWorkflowUpdateContext<State>): Record<string, unknown> {
+    return {
+      ...super.statusChanges(status, context),
+      ...(context && { [this.options.lastEventField ?? 'lastEvent']: context.event }),
+    };
+  }
+
+  private get updatedAtField(): string {
+    return this.options.updatedAtField ?? 'updatedAt';
+  }
+
+  private key(urn: string | number): Record<string, unknown> {
+    return this.options.key?.(urn) ?? { [this.idField]: urn };
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * @module nestjs-serverless-workflow/persistence
+ *
+ * Ready-made {@link IWorkflowEntity} implementations over common ORMs, with
+ * conditional status updates for safe concurrent transitions. The ORMs
+ * themselves are not dependencies — pass your repository, delegate or model.
+ *
+ * @example
+ * ```typescript
+ * import { TypeOrmWorkflowEntity } from 'nestjs-serverless-workflow/persistence';
+ * ```
+ */
+export * from './dynamodb-workflow-entity';
+export * from './mongoose-workflow-entity';
+export * from './orm-workflow-entity';
+export * from './prisma-workflow-entity';
+export * from './typeorm-workflow-entity';
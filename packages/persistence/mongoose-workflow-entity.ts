@@ -0,0 +1,68 @@
+import { OrmWorkflowEntity, type IOrmWorkflowEntityOptions } from './orm-workflow-entity';
+
+/** Minimal interface of a Mongoose query: anything with `exec()`. */
+export interface IMongooseQuery<R> {
+  exec(): Promise<R>;
+}
+
+/**
+ * Minimal interface of a Mongoose `Model`.
+ * Mongoose is not a dependency of this package — pass the model of your connection.
+ */
+export interface IMongooseModel<T> {
+  create(doc: Partial<T>): Promise<T>;
+  findOne(filter: Record<string, unknown>): IMongooseQuery<T | null>;
+  findOneAndUpdate(
+    filter: Record<string, unknown>,
+    update: Record<string, unknown>,
+    options: { new: true },
+  ): IMongooseQuery<T | null>;
+}
+
+/**
+ * {@link IWorkflowEntity} over a Mongoose model. Updates are atomic
+ * `findOneAndUpdate()` calls filtered on the id and, for conditional updates,
+ * the expected status. The URN is the `_id` unless `idField` says otherwise,
+ * converted to a string when it is an `ObjectId`.
+ *
+ * @example
+ * ```typescript
+ * WorkflowModule.register({
+ *   imports: [MongooseModule.forFeature([{ name: Order.name, schema: OrderSchema }])],
+ *   entities: [
+ *     {
+ *       provide: 'entity.order',
+ *       useFactory: (model: Model<Order>) => new MongooseWorkflowEntity(model, { initialStatus: 'pending' }),
+ *       inject: [getModelToken(Order.name)],
+ *     },
+ *   ],
+ *   workflows: [OrderWorkflow],
+ * });
+ * ```
+ */
+export class MongooseWorkflowEntity<T extends object, State = string | number> extends OrmWorkflowEntity<T, State> {
+  constructor(
+    private readonly model: IMongooseModel<T>,
+    options: IOrmWorkflowEntityOptions<T, State> = {},
+  ) {
+    super(options, '_id');
+  }
+
+  protected insert(fields: Partial<T>): Promise<T> {
+    return this.model.create(fields);
+  }
+
+  protected find(urn: string | number): Promise<T | null> {
+    return this.model.findOne({ [this.idField]: urn }).exec();
+  }
+
+  protected write(
+    entity: T,
+    changes: Record<string, unknown>,
+    condition: Record<string, unknown> = {},
+  ): Promise<T | null> {
+    return this.model
+      .findOneAndUpdate({ ...condition, [this.idField]: this.urn(entity) }, { $set: changes }, { new: true })
+      .exec();
+  }
+}
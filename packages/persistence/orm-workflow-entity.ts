@@ -0,0 +1,131 @@
+import type { IWorkflowEntity, IWorkflowUpdateContext } from '@/core';
+import { WorkflowConflictException } from '@/exception/workflow-conflict.exception';
+
+/** Column options shared by the ORM-backed {@link IWorkflowEntity} implementations. */
+export interface IOrmWorkflowEntityOptions<T, State = string | number> {
+  /** Column holding the URN. Defaults to `id` (`_id` for Mongoose). */
+  idField?: keyof T & string;
+  /** Column holding the status. Defaults to `status`. */
+  statusField?: keyof T & string;
+  /**
+   * Column holding the pinned definition version. `version()` and
+   * `updateVersion()` are only implemented when it is set.
+   */
+  versionField?: keyof T & string;
+  /** Status of the entities created by `create()`. */
+  initialStatus?: State;
+  /** Other fields every created entity starts with. */
+  defaults?: () => Partial<T>;
+}
+
+/**
+ * Base of the {@link IWorkflowEntity} implementations over an ORM. Subclasses
+ * only provide the queries; the base maps them to the workflow contract.
+ *
+ * Status updates are conditional: when the orchestrator passes an
+ * {@link IWorkflowUpdateContext}, the row is only written while its status
+ * still equals `expectedStatus`, and a {@link WorkflowConflictException} is
+ * thrown otherwise. Only the status (and version) columns are written —
+ * handlers persist the other fields they change themselves.
+ *
+ * Parallel states are not supported: workflows declaring `parallel` states
+ * need an entity service implementing `regionStatus()` and `updateRegion()`.
+ *
+ * @typeParam T     - The entity type
+ * @typeParam State - The enum or union of valid entity states
+ */
+export abstract class OrmWorkflowEntity<T extends object, State = string | number> implements IWorkflowEntity<
+  T,
+  State
+> {
+  /** Gets the pinned definition version. Only set when `versionField` is configured. */
+  readonly version?: (entity: T) => number | undefined;
+  /** Pins the entity to a definition version. Only set when `versionField` is configured. */
+  readonly updateVersion?: (entity: T, version: number) => Promise<T>;
+
+  protected readonly idField: string;
+  protected readonly statusField: string;
+
+  protected constructor(
+    protected readonly options: IOrmWorkflowEntityOptions<T, State>,
+    defaultIdField = 'id',
+  ) {
+    this.idField = options.idField ?? defaultIdField;
+    this.statusField = options.statusField ?? 'status';
+
+    const { versionField } = options;
+    if (versionField) {
+      this.version = (entity) => (entity as Record<string, number | undefined>)[versionField];
+      this.updateVersion = async (entity, version) =>
+        (await this.write(entity, { [versionField]: version })) ?? this.notFound(entity);
+    }
+  }
+
+  /**
+   * Insert a new row.
+   * @param fields Fields of the new entity
+   */
+  protected abstract insert(fields: Partial<T>): Promise<T>;
+
+  /**
+   * Find the row with the given URN.
+   * @param urn The value of the id column
+   */
+  protected abstract find(urn: string | number): Promise<T | null>;
+
+  /**
+   * Write `changes` to the row of `entity`, only if it matches `condition`.
+   * @returns The updated entity, or `null` if no row matched
+   */
+  protected abstract write(
+    entity: T,
+    changes: Record<string, unknown>,
+    condition?: Record<string, unknown>,
+  ): Promise<T | null>;
+
+  create(): Promise<T> {
+    const { initialStatus, defaults } = this.options;
+    return this.insert({
+      ...(initialStatus !== undefined && { [this.statusField]: initialStatus }),
+      ...defaults?.(),
+    } as Partial<T>);
+  }
+
+  load(urn: string | number): Promise<T | null> {
+    return this.find(urn);
+  }
+
+  async update(entity: T, status: State, context?: IWorkflowUpdateContext<State>): Promise<T> {
+    const condition = context && { [this.statusField]: context.expectedStatus };
+    const updated = await this.write(entity, this.statusChanges(status, context), condition);
+    if (updated) return updated;
+    if (!context) return this.notFound(entity);
+    throw new WorkflowConflictException(
+      `Entity ${this.urn(entity)} is no longer in state ${context.expectedStatus}`,
+      this.urn(entity),
+      context.expectedStatus as string | number,
+    );
+  }
+
+  status(entity: T): State {
+    return (entity as Record<string, State>)[this.statusField];
+  }
+
+  urn(entity: T): string | number {
+    const urn = (entity as Record<string, unknown>)[this.idField];
+    return typeof urn === 'number' ? urn : String(urn);
+  }
+
+  /**
+   * Columns written by `update()`. Override to store transition metadata next to the status.
+   * @param status The new status
+   * @param _context The state the transition was validated against, if any
+   */
+  protected statusChanges(status: State, _context?: IWorkflowUpdateContext<State>): Record<string, unknown> {
+    return { [this.statusField]: status };
+  }
+
+  private notFound(entity: T): never {
+    throw new Error(`Entity ${this.urn(entity)} not found`);
+  }
+}
@@ -0,0 +1,59 @@
+import { OrmWorkflowEntity, type IOrmWorkflowEntityOptions } from './orm-workflow-entity';
+
+/**
+ * Minimal interface of a Prisma model delegate, e.g. `prisma.order`.
+ * Prisma is not a dependency of this package — pass the delegate of your client.
+ */
+export interface IPrismaDelegate<T> {
+  create(args: { data: any }): PromiseLike<T>;
+  findUnique(args: { where: any }): PromiseLike<T | null>;
+  updateMany(args: { where: any; data: any }): PromiseLike<{ count: number }>;
+}
+
+/**
+ * {@link IWorkflowEntity} over a Prisma model delegate. Updates run through
+ * `updateMany()` filtered on the id and, for conditional updates, the
+ * expected status, so a row changed concurrently is not written.
+ *
+ * @example
+ * ```typescript
+ * WorkflowModule.register({
+ *   entities: [
+ *     {
+ *       provide: 'entity.order',
+ *       useFactory: (prisma: PrismaClient) => new PrismaWorkflowEntity(prisma.order, { initialStatus: 'pending' }),
+ *       inject: [PrismaClient],
+ *     },
+ *   ],
+ *   workflows: [OrderWorkflow],
+ * });
+ * ```
+ */
+export class PrismaWorkflowEntity<T extends object, State = string | number> extends OrmWorkflowEntity<T, State> {
+  constructor(
+    private readonly delegate: IPrismaDelegate<T>,
+    options: IOrmWorkflowEntityOptions<T, State> = {},
+  ) {
+    super(options);
+  }
+
+  protected insert(fields: Partial<T>): Promise<T> {
+    return Promise.resolve(this.delegate.create({ data: fields }));
+  }
+
+  protected find(urn: string | number): Promise<T | null> {
+    return Promise.resolve(this.delegate.findUnique({ where: { [this.idField]: urn } }));
+  }
+
+  protected async write(
+    entity: T,
+    changes: Record<string, unknown>,
+    condition: Record<string, unknown> = {},
+  ): Promise<T | null> {
+    const { count } = await this.delegate.updateMany({
+      where: { ...condition, [this.idField]: this.urn(entity) },
+      data: changes,
+    });
+    return count ? { ...entity, ...changes } : null;
+  }
+}
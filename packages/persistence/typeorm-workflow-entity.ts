@@ -0,0 +1,60 @@
+import { OrmWorkflowEntity, type IOrmWorkflowEntityOptions } from './orm-workflow-entity';
+
+/**
+ * Minimal interface of a TypeORM `Repository`.
+ * TypeORM is not a dependency of this package — pass the repository of your data source.
+ */
+export interface ITypeOrmRepository<T> {
+  create(entityLike: Partial<T>): T;
+  save(entity: T): Promise<T>;
+  findOneBy(where: Record<string, unknown>): Promise<T | null>;
+  update(
+    criteria: Record<string, unknown>,
+    partialEntity: Record<string, unknown>,
+  ): Promise<{ affected?: number | null }>;
+}
+
+/**
+ * {@link IWorkflowEntity} over a TypeORM repository. Conditional updates run
+ * as `UPDATE ... WHERE id = :urn AND status = :expectedStatus`.
+ *
+ * @example
+ * ```typescript
+ * WorkflowModule.register({
+ *   entities: [
+ *     {
+ *       provide: 'entity.order',
+ *       useFactory: (dataSource: DataSource) =>
+ *         new TypeOrmWorkflowEntity(dataSource.getRepository(Order), { initialStatus: OrderStatus.Pending }),
+ *       inject: [DataSource],
+ *     },
+ *   ],
+ *   workflows: [OrderWorkflow],
+ * });
+ * ```
+ */
+export class TypeOrmWorkflowEntity<T extends object, State = string | number> extends OrmWorkflowEntity<T, State> {
+  constructor(
+    private readonly repository: ITypeOrmRepository<T>,
+    options: IOrmWorkflowEntityOptions<T, State> = {},
+  ) {
+    super(options);
+  }
+
+  protected insert(fields: Partial<T>): Promise<T> {
+    return this.repository.save(this.repository.create(fields));
+  }
+
+  protected find(urn: string | number): Promise<T | null> {
+    return this.repository.findOneBy({ [this.idField]: urn });
+  }
+
+  protected async write(
+    entity: T,
+    changes: Record<string, unknown>,
+    condition: Record<string, unknown> = {},
+  ): Promise<T | null> {
+    const { affected } = await this.repository.update({ ...condition, [this.idField]: this.urn(entity) }, changes);
+    return affected ? Object.assign(entity, changes) : null;
+  }
+}
@@ -0,0 +1,162 @@
+import type { IWorkflowEntity, IWorkflowUpdateContext } from '@/core';
+import { WorkflowConflictException } from '@/exception/workflow-conflict.exception';
+
+/** Options of an {@link InMemoryEntityService}. */
+export interface IInMemoryEntityOptions<T, State = string | number> {
+  /** Field holding the URN. Defaults to `id`. */
+  urnField?: keyof T & string;
+  /** Field holding the status. Defaults to `status`. */
+  statusField?: keyof T & string;
+  /** Field holding the pinned definition version. Defaults to `version`. */
+  versionField?: keyof T & string;
+  /** Field holding the sub-states of parallel regions, keyed by region. Defaults to `regions`. */
+  regionsField?: keyof T & string;
+  /** Prefix of the URNs generated by {@link InMemoryEntityService.create}. Defaults to `entity`. */
+  urnPrefix?: string;
+  /** Status of the entities created by {@link InMemoryEntityService.create}. */
+  initialStatus?: State;
+  /** Fields every created entity starts with, e.g. required attributes of the entity type. */
+  defaults?: () => Partial<T>;
+}
+
+/**
+ * {@link IWorkflowEntity} keeping entities in a `Map`, for tests and local
+ * runs. Entities are plain objects whose URN, status, version and region
+ * sub-states live in configurable fields.
+ *
+ * Like a real persistence layer, updates write copies and are conditional:
+ * an update whose `context.expectedStatus` no longer matches the stored
+ * entity throws a {@link WorkflowConflictException}.
+ *
+ * @typeParam T     - The entity type
+ * @typeParam State - The enum or union of valid entity states
+ *
+ * @example
+ * ```typescript
+ * const orders = new InMemoryEntityService<Order, OrderStatus>({ initialStatus: OrderStatus.Pending });
+ * const order = await orders.seed({ items: [{ sku: 'A-1', quantity: 2 }] });
+ * ```
+ */
+export class InMemoryEntityService<
+  T extends object = Record<string, any>,
+  State = string | number,
+> implements IWorkflowEntity<T, State> {
+  private readonly entities = new Map<string, T>();
+  private sequence = 0;
+
+  constructor(private readonly options: IInMemoryEntityOptions<T, State> = {}) {}
+
+  create(): Promise<T> {
+    return this.seed({});
+  }
+
+  /**
+   * Store a new entity built from `fields`, with a generated URN and the
+   * initial status unless `fields` set them.
+   */
+  seed(fields: Partial<T>): Promise<T> {
+    const { urnPrefix = 'entity', initialStatus, defaults } = this.options;
+    const entity = {
+      [this.urnField]: `${urnPrefix}-${++this.sequence}`,
+      ...(initialStatus !== undefined && { [this.statusField]: initialStatus }),
+      ...defaults?.(),
+      ...fields,
+    } as T;
+    return Promise.resolve(this.save(entity));
+  }
+
+  load(urn: string | number): Promise<T | null> {
+    const entity = this.get(urn);
+    return Promise.resolve(entity ? { ...entity } : null);
+  }
+
+  update(entity: T, status: State, context?: IWorkflowUpdateContext<State>): Promise<T> {
+    const stored = this.get(this.urn(entity));
+    if (context && stored && this.status(stored) !== context.expectedStatus) {
+      return Promise.reject(
+        new WorkflowConflictException(
+          `Entity ${this.urn(entity)} is no longer in state ${context.expectedStatus}`,
+          this.urn(entity),
+          context.expectedStatus as string | number,
+        ),
+      );
+    }
+    return Promise.resolve(this.save({ ...entity, [this.statusField]: status }));
+  }
+
+  status(entity: T): State {
+    return this.field(entity, this.statusField);
+  }
+
+  urn(entity: T): string | number {
+    return this.field(entity, this.urnField);
+  }
+
+  regionStatus(entity: T, region: string): State | undefined {
+    return this.field<Record<string, State> | undefined>(entity, this.regionsField)?.[region];
+  }
+
+  updateRegion(entity: T, region: string, status: State, context?: IWorkflowUpdateContext<State>): Promise<T> {
+    const stored = this.get(this.urn(entity));
+    if (context && stored && this.regionStatus(stored, region) !== context.expectedStatus) {
+      return Promise.reject(
+        new WorkflowConflictException(
+          `Region ${region} of entity ${this.urn(entity)} is no longer in state ${context.expectedStatus}`,
+          this.urn(entity),
+          context.expectedStatus as string | number,
+        ),
+      );
+    }
+    const regions = { ...this.field<Record<string, State> | undefined>(entity, this.regionsField), [region]: status };
+    return Promise.resolve(this.save({ ...entity, [this.regionsField]: regions }));
+  }
+
+  version(entity: T): number | undefined {
+    return this.field(entity, this.versionField);
+  }
+
+  updateVersion(entity: T, version: number): Promise<T> {
+    return Promise.resolve(this.save({ ...entity, [this.versionField]: version }));
+  }
+
+  /** The stored entity with the given URN, without copying it. */
+  get(urn: string | number): T | undefined {
+    return this.entities.get(String(urn));
+  }
+
+  /** Every stored entity, in insertion order. */
+  all(): T[] {
+    return [...this.entities.values()];
+  }
+
+  /** Remove every stored entity. */
+  clear(): void {
+    this.entities.clear();
+    this.sequence = 0;
+  }
+
+  private get urnField(): string {
+    return this.options.urnField ?? 'id';
+  }
+
+  private get statusField(): string {
+    return this.options.statusField ?? 'status';
+  }
+
+  private get versionField(): string {
+    return this.options.versionField ?? 'version';
+  }
+
+  private get regionsField(): string {
+    return this.options.regionsField ?? 'regions';
+  }
+
+  private field<V>(entity: T, field: string): V {
+    return (entity as Record<string, V>)[field];
+  }
+
+  private save(entity: T): T {
+    this.entities.set(String(this.urn(entity)), entity);
+    return { ...entity };
+  }
+}
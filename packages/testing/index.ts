@@ -0,0 +1,16 @@
+/**
+ * @module nestjs-serverless-workflow/testing
+ *
+ * Helpers to unit-test workflows — an in-memory entity service, a standalone
+ * testing module, scripted scenarios with state and path assertions, and a
+ * mock durable execution context for the durable Lambda adapter.
+ *
+ * @example
+ * ```typescript
+ * import { WorkflowTestingModule } from 'nestjs-serverless-workflow/testing';
+ * ```
+ */
+export * from './in-memory-entity.service';
+export * from './mock-durable-context';
+export * from './workflow-scenario';
+export * from './workflow-testing.module';
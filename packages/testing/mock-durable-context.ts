@@ -5,16 +5,18 @@ import type { IDurableContext, WithDurableExecution } from '@/adapter';
  * Simulates checkpoint/replay by recording step results.
  */
 export class MockDurableContext implements IDurableContext {
-  private steps = new Map<string, any>();
-  private callbacks = new Map<string, { resolve: (value: any) => void; promise: Promise<any> }>();
+  private steps = new Map<string, unknown>();
+  private callbacks = new Map<string, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
   private callbackWaiters = new Map<string, () => void>();
-  readonly logger = {
-    info: (_msg: string, _data?: any) => {},
+  readonly logger: IDurableContext['logger'] = {
+    info: (_msg: string, _data?: unknown): void => {
+      // Logs of the durable execution are discarded in tests
+    },
   };
 
   async step<T>(name: string, fn: () => Promise<T>): Promise<T> {
     if (this.steps.has(name)) {
-      return this.steps.get(name);
+      return this.steps.get(name) as T;
     }
     const result = await fn();
     this.steps.set(name, result);
@@ -24,14 +26,12 @@ export class MockDurableContext implements IDurableContext {
   async waitForCallback<T>(
     name: string,
     onRegister: (callbackId: string) => Promise<void>,
-    _options?: { timeout?: { hours?: number; minutes?: number; seconds?: number } },
+    _options?: Parameters<IDurableContext['waitForCallback']>[2],
   ): Promise<T> {
     const callbackId = `callback:${name}`;
-    let resolve: (value: any) => void;
-    const promise = new Promise<T>((r) => {
-      resolve = r;
+    const promise = new Promise<T>((resolve, reject) => {
+      this.callbacks.set(callbackId, { resolve: (value) => resolve(value as T), reject });
     });
-    this.callbacks.set(callbackId, { resolve: resolve!, promise });
 
     // Notify anyone waiting for this callback to be registered
     const waiter = this.callbackWaiters.get(name);
@@ -41,7 +41,10 @@ export class MockDurableContext implements IDurableContext {
     return promise;
   }
 
-  async wait(_duration: { seconds?: number; minutes?: number; hours?: number }): Promise<void> {}
+  /** Durable waits — e.g. retry backoffs — elapse immediately in tests. */
+  wait(_duration: Parameters<IDurableContext['wait']>[0]): Promise<void> {
+    return Promise.resolve();
+  }
 
   /**
    * Wait until a specific callback is registered by the adapter.
@@ -59,18 +62,38 @@ export class MockDurableContext implements IDurableContext {
    * Submit a callback result — simulates external system calling
    * SendDurableExecutionCallbackSuccess
    */
-  submitCallback(name: string, payload: any): void {
+  submitCallback(name: string, payload: unknown): void {
     const callbackId = `callback:${name}`;
     const entry = this.callbacks.get(callbackId);
     if (!entry) throw new Error(`No callback registered for: ${callbackId}`);
     entry.resolve(payload);
   }
 
+  /**
+   * Expire a callback — simulates the SDK rejecting a wait whose timeout elapsed
+   */
+  timeoutCallback(name: string): void {
+    this.failCallback(name, 'Callback timed out');
+  }
+
+  /**
+   * Fail a callback — simulates external system calling
+   * SendDurableExecutionCallbackFailure
+   */
+  failCallback(name: string, message: string): void {
+    const callbackId = `callback:${name}`;
+    const entry = this.callbacks.get(callbackId);
+    if (!entry) throw new Error(`No callback registered for: ${callbackId}`);
+    const error = new Error(message);
+    error.name = 'CallbackError';
+    entry.reject(error);
+  }
+
   getCompletedSteps(): string[] {
     return Array.from(this.steps.keys());
   }
 
-  getStepResult(name: string): any {
+  getStepResult(name: string): unknown {
     return this.steps.get(name);
   }
 }
@@ -78,6 +101,4 @@ export class MockDurableContext implements IDurableContext {
 /**
  * Mock withDurableExecution — returns the raw handler so tests can call it with a mock context.
  */
-export const mockWithDurableExecution: WithDurableExecution = (handler) => {
-  return handler as any;
-};
+export const mockWithDurableExecution: WithDurableExecution = (handler) => handler;
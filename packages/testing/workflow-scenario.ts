@@ -0,0 +1,198 @@
+import {
+  OrchestratorService,
+  durationToMilliseconds,
+  type Duration,
+  type IWorkflowEntity,
+  type IWorkflowEvent,
+  type IWorkflowHistoryRecord,
+  type TransitResult,
+} from '@/core';
+
+/**
+ * Scripted run of one entity through a workflow: events to send and what to
+ * expect after each of them. Steps are queued by the builder methods and
+ * executed in order by {@link run}, which throws on the first unmet expectation.
+ *
+ * {@link send} drives the workflow like an adapter would — it follows
+ * auto-transitions and forked branches — and stops once the entity waits for
+ * an external event or reaches a final state.
+ *
+ * @example
+ * ```typescript
+ * await testing
+ *   .scenario(order.id)
+ *   .send(OrderEvent.Submit, { approved: true })
+ *   .expectIdle({ state: OrderStatus.Review, timeout: { hours: 24 } })
+ *   .send(OrderEvent.Approve)
+ *   .expectFinal(OrderStatus.Completed)
+ *   .expectPath([OrderStatus.Pending, OrderStatus.Review, OrderStatus.Completed])
+ *   .run();
+ * ```
+ */
+export class WorkflowScenario<State = string | number> {
+  private readonly steps: Array<{ run: () => void | Promise<void>; expectsError?: boolean }> = [];
+  private result?: TransitResult;
+  private error?: unknown;
+
+  constructor(
+    private readonly orchestrator: OrchestratorService,
+    private readonly entityService: IWorkflowEntity<any, State>,
+    readonly urn: string | number,
+    private readonly workflow?: string,
+  ) {}
+
+  /** Send `event` to the entity, then run the transitions it triggers until the workflow waits. */
+  send(event: string, payload?: unknown): this {
+    return this.step(async () => {
+      this.result = undefined;
+      try {
+        this.result = await this.drive({ event, urn: this.urn, workflow: this.workflow, payload, attempt: 0 });
+      } catch (e) {
+        this.error = e;
+      }
+    });
+  }
+
+  /** Expect the entity to be in `state`. */
+  expectState(state: State): this {
+    return this.step(async () => {
+      const entity = await this.entityService.load(this.urn);
+      if (!entity) throw new Error(`Entity ${this.urn} not found`);
+      const actual = this.entityService.status(entity);
+      if (actual !== state) {
+        throw new Error(`Expected entity ${this.urn} to be in state "${state}" but was in state "${actual}"`);
+      }
+    });
+  }
+
+  /**
+   * Expect the last {@link send} to leave the entity idle, waiting for an
+   * external event — optionally in `state` and with the callback `timeout`.
+   */
+  expectIdle(expected: { state?: State; timeout?: Duration } = {}): this {
+    return this.step(() => {
+      const result = this.lastResult('idle');
+      if (expected.state !== undefined && result.state !== expected.state) {
+        throw new Error(
+          `Expected entity ${this.urn} to be idle in state "${expected.state}" but was in "${result.state}"`,
+        );
+      }
+      if (expected.timeout && !sameDuration(result.timeout, expected.timeout)) {
+        throw new Error(
+          `Expected entity ${this.urn} to wait ${JSON.stringify(expected.timeout)} but waits ${JSON.stringify(result.timeout ?? null)}`,
+        );
+      }
+    });
+  }
+
+  /** Expect the last {@link send} to move the entity to a final state — `state` if given. */
+  expectFinal(state?: State): this {
+    return this.step(() => {
+      const result = this.lastResult('final');
+      if (state !== undefined && result.state !== state) {
+        throw new Error(`Expected entity ${this.urn} to end in state "${state}" but ended in "${result.state}"`);
+      }
+    });
+  }
+
+  /** Expect the last {@link send} to be rejected, with an error whose message contains `message` if given. */
+  expectError(message?: string): this {
+    return this.step(() => {
+      const { error } = this;
+      this.error = undefined;
+      if (!error) throw new Error(`Expected the last event of entity ${this.urn} to fail but it succeeded`);
+      const actual = error instanceof Error ? error.message : String(error);
+      if (message !== undefined && !actual.includes(message)) {
+        throw new Error(`Expected the last event of entity ${this.urn} to fail with "${message}" but got "${actual}"`);
+      }
+    }, true);
+  }
+
+  /**
+   * Expect the states the entity went through, from the status it started in,
+   * as recorded in the workflow history. Sub-states of parallel regions are
+   * left out.
+   */
+  expectPath(path: State[]): this {
+    return this.step(async () =>
+      WorkflowScenario.assertPath(this.urn, await this.orchestrator.getHistory(this.urn), path),
+    );
+  }
+
+  /** Execute the queued steps. Rethrows the error of a {@link send} no {@link expectError} consumed. */
+  async run(): Promise<void> {
+    for (const { run, expectsError } of this.steps.splice(0)) {
+      if (!expectsError) this.rethrow();
+      await run();
+    }
+    this.rethrow();
+  }
+
+  /**
+   * Assert the states an entity went through according to its history
+   * records — see {@link expectPath}.
+   *
+   * @throws {Error} If the entity went through other states.
+   */
+  static assertPath<State>(urn: string | number, history: IWorkflowHistoryRecord[], path: State[]): void {
+    const actual: State[] = [];
+    for (const record of history) {
+      if (record.region) continue;
+      if (actual.length === 0) actual.push(record.from as State);
+      const to = record.to as State | undefined;
+      if (to !== undefined && to !== actual.at(-1)) actual.push(to);
+    }
+    if (JSON.stringify(actual) !== JSON.stringify(path)) {
+      throw new Error(
+        `Expected entity ${urn} to go through ${path.join(' → ')} but went through ${actual.join(' → ')}`,
+      );
+    }
+  }
+
+  private step(run: () => void | Promise<void>, expectsError?: boolean): this {
+    this.steps.push({ run, expectsError });
+    return this;
+  }
+
+  private rethrow(): void {
+    const { error } = this;
+    if (error === undefined) return;
+    this.error = undefined;
+    throw error;
+  }
+
+  private lastResult<S extends 'idle' | 'final'>(status: S): Extract<TransitResult, { status: S }> {
+    const { result } = this;
+    if (!result) throw new Error(`No event was sent to entity ${this.urn}`);
+    if (result.status !== status) {
+      throw new Error(`Expected entity ${this.urn} to be ${status} but the last transit was ${result.status}`);
+    }
+    return result as Extract<TransitResult, { status: S }>;
+  }
+
+  /** Transit `event` and the events it leads to, until the entity waits or is final. */
+  private async drive(event: IWorkflowEvent): Promise<TransitResult> {
+    const pending: IWorkflowEvent[] = [];
+    let next: IWorkflowEvent | undefined = event;
+    let result: TransitResult;
+
+    do {
+      result = await this.orchestrator.transit(next);
+      if (result.status === 'continued') {
+        next = result.nextEvent;
+      } else if (result.status === 'forked') {
+        pending.push(...result.branches);
+        next = pending.shift();
+      } else {
+        next = result.status === 'final' ? undefined : pending.shift();
+      }
+    } while (next);
+
+    return result;
+  }
+}
+
+/** Compare two durations by their length. */
+function sameDuration(actual: Duration | undefined, expected: Duration): boolean {
+  return actual !== undefined && durationToMilliseconds(actual) === durationToMilliseconds(expected);
+}
@@ -0,0 +1,142 @@
+import type { INestApplicationContext, LoggerService, LogLevel, Provider, Type } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import {
+  OrchestratorService,
+  WORKFLOW_DEFINITION_KEY,
+  WorkflowModule,
+  WorkflowRegistry,
+  type IWorkflowDefinition,
+  type IWorkflowEntity,
+} from '@/core';
+import { InMemoryEntityService } from './in-memory-entity.service';
+import { WorkflowScenario } from './workflow-scenario';
+
+/**
+ * Options of {@link WorkflowTestingModule.create}: the options of
+ * {@link WorkflowModule.register}, with entity services made optional.
+ */
+export type IWorkflowTestingOptions = Omit<Parameters<typeof WorkflowModule.register>[0], 'entities'> & {
+  /**
+   * Entity service providers. Every entity service a workflow refers to and
+   * no provider is given for is an {@link InMemoryEntityService}.
+   */
+  entities?: Provider<IWorkflowEntity>[];
+  /** Log levels of the application, or `false` to silence it. Defaults to `['error']`. */
+  logger?: LoggerService | LogLevel[] | false;
+};
+
+/**
+ * Standalone workflow application for tests — boots a {@link WorkflowModule}
+ * with in-memory entity services and history, and runs
+ * {@link WorkflowScenario}s against it.
+ *
+ * @example
+ * ```typescript
+ * const testing = await WorkflowTestingModule.create({ workflows: [OrderWorkflow] });
+ * const order = await testing.getEntityService<Order>().seed({ status: OrderStatus.Pending });
+ *
+ * await testing.scenario(order.id).send(OrderEvent.Submit).expectState(OrderStatus.Review).run();
+ * await testing.close();
+ * ```
+ */
+export class WorkflowTestingModule {
+  readonly orchestrator: OrchestratorService;
+  readonly registry: WorkflowRegistry;
+
+  private constructor(readonly app: INestApplicationContext) {
+    this.orchestrator = app.get(OrchestratorService);
+    this.registry = app.get(WorkflowRegistry);
+  }
+
+  /**
+   * Boot the workflows of `options`. Entity services that are not provided
+   * are {@link InMemoryEntityService}s whose entities start in the source state
+   * of the first transition.
+   *
+   * @throws {Error} If the workflow module fails to initialise, e.g. on an invalid definition.
+   */
+  static async create(options: IWorkflowTestingOptions): Promise<WorkflowTestingModule> {
+    const { entities = [], logger = ['error'], ...register } = options;
+    const provided = new Set(
+      entities.map((provider) => (typeof provider === 'function' ? provider : provider.provide)),
+    );
+    const definitions = [
+      ...register.workflows.flatMap((provider) => {
+        const workflow: Type | undefined =
+          typeof provider === 'function' ? provider : 'useClass' in provider ? provider.useClass : undefined;
+        const definition: IWorkflowDefinition<object, string, string> | undefined =
+          workflow && Reflect.getMetadata(WORKFLOW_DEFINITION_KEY, workflow);
+        return definition ? [definition] : [];
+      }),
+      ...(register.definitions ?? []).map((binding) => binding.definition),
+    ];
+    const inMemory = new Map<string, Provider<IWorkflowEntity>>();
+
+    for (const { entityService, transitions } of definitions) {
+      if (provided.has(entityService) || inMemory.has(entityService)) continue;
+      const initialStatus = transitions[0]?.from[0];
+      inMemory.set(entityService, { provide: entityService, useValue: new InMemoryEntityService({ initialStatus }) });
+    }
+
+    const app = await NestFactory.createApplicationContext(
+      WorkflowModule.register({ ...register, entities: [...entities, ...inMemory.values()] }),
+      { logger, abortOnError: false },
+    );
+    return new WorkflowTestingModule(app);
+  }
+
+  /**
+   * The entity service of a workflow.
+   *
+   * @param workflow - Name of the workflow. May be omitted when a single workflow is registered.
+   * @throws {Error} If the workflow is not registered or its entity service is not an {@link InMemoryEntityService}.
+   */
+  getEntityService<T extends object = Record<string, any>, State = string | number>(
+    workflow?: string,
+  ): InMemoryEntityService<T, State> {
+    const entityService = this.resolveEntityService(workflow);
+    if (!(entityService instanceof InMemoryEntityService)) {
+      throw new Error(
+        `The entity service of workflow ${this.resolveWorkflow(workflow)} is not an InMemoryEntityService`,
+      );
+    }
+    return entityService as InMemoryEntityService<T, State>;
+  }
+
+  /**
+   * Start a scripted {@link WorkflowScenario} for an entity.
+   *
+   * @param urn - URN of the entity
+   * @param workflow - Name of the workflow. May be omitted when a single workflow is registered.
+   */
+  scenario<State = string | number>(urn: string | number, workflow?: string): WorkflowScenario<State> {
+    return new WorkflowScenario<State>(this.orchestrator, this.resolveEntityService(workflow), urn, workflow);
+  }
+
+  /** Assert the states an entity went through — see {@link WorkflowScenario.expectPath}. */
+  async expectPath<State = string | number>(urn: string | number, path: State[]): Promise<void> {
+    WorkflowScenario.assertPath(urn, await this.orchestrator.getHistory(urn), path);
+  }
+
+  /** Shut the application down. */
+  close(): Promise<void> {
+    return this.app.close();
+  }
+
+  private resolveEntityService(workflow?: string): IWorkflowEntity<any, any> {
+    const name = this.resolveWorkflow(workflow);
+    return this.app.get(this.registry.getWorkflow(name)!.entityService, { strict: false });
+  }
+
+  private resolveWorkflow(workflow?: string): string {
+    if (workflow) {
+      if (!this.registry.getWorkflow(workflow)) throw new Error(`Workflow ${workflow} is not registered`);
+      return workflow;
+    }
+    const workflows = this.registry.getWorkflows();
+    if (workflows.length !== 1) {
+      throw new Error(`${workflows.length} workflows are registered — pass the name of the workflow`);
+    }
+    return workflows[0].name;
+  }
+}
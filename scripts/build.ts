@@ -33,5 +33,9 @@ console.log('  - nestjs-serverless-workflow/core');
 console.log('  - nestjs-serverless-workflow/event-bus');
 console.log('  - nestjs-serverless-workflow/exception');
 console.log('  - nestjs-serverless-workflow/adapter');
+console.log('  - nestjs-serverless-workflow/persistence');
+console.log('  - nestjs-serverless-workflow/testing');
+console.log('');
+console.log('🛠  CLI: nestjs-workflow-diagram');
 console.log('');
 console.log('💡 The library is now ready for publishing!');
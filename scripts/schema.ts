@@ -0,0 +1,9 @@
+import { WORKFLOW_DEFINITION_SCHEMA } from '../packages/core/utils/definition-schema';
+
+const path = 'schema/workflow-definition.schema.json';
+
+console.log(`📝 Writing the workflow definition schema to ${path}...`);
+
+await Bun.write(path, `${JSON.stringify(WORKFLOW_DEFINITION_SCHEMA, null, 2)}\n`);
+
+console.log('✅ Schema written!');
@@ -0,0 +1,47 @@
+import { Module } from '@nestjs/common';
+import { OnEvent, Workflow } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+
+const entityService = {
+  load: async () => null,
+  update: async (entity: any, status: any) => ({ ...entity, status }),
+  status: (entity: any) => entity.status,
+  urn: (entity: any) => entity.id,
+  create: async () => ({}),
+};
+
+@Workflow({
+  name: 'TicketWorkflow',
+  states: { finals: ['closed'], idles: ['open'], failed: 'failed' },
+  transitions: [{ event: 'ticket.close', from: ['open'], to: 'closed' }],
+  entityService: 'entity.ticket',
+})
+class TicketWorkflow {
+  @OnEvent('ticket.close')
+  async close() {}
+}
+
+@Workflow({
+  name: 'InvoiceWorkflow',
+  states: { finals: ['paid'], idles: ['sent'], failed: 'failed' },
+  transitions: [{ event: 'invoice.pay', from: ['sent'], to: 'paid' }],
+  entityService: 'entity.invoice',
+})
+class InvoiceWorkflow {
+  @OnEvent('invoice.pay')
+  async pay() {}
+}
+
+/** Module loaded by the diagram CLI tests. */
+@Module({
+  imports: [
+    WorkflowModule.register({
+      entities: [
+        { provide: 'entity.ticket', useValue: entityService },
+        { provide: 'entity.invoice', useValue: entityService },
+      ],
+      workflows: [TicketWorkflow, InvoiceWorkflow],
+    }),
+  ],
+})
+export class DiagramAppModule {}
@@ -0,0 +1,243 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Payload, Workflow, type IChildWorkflowResult, type IWorkflowEntity } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { DurableLambdaEventHandler, InProcessWorkflowAdapter } from '@/adapter';
+import { UnretriableException } from '@/exception';
+import { MockDurableContext, mockWithDurableExecution } from '@/testing';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface StoredRecord {
+  id: string;
+  status: string;
+}
+
+@Injectable()
+class RecordEntityService implements IWorkflowEntity<StoredRecord, string> {
+  readonly records = new Map<string, StoredRecord>();
+
+  constructor(
+    private readonly prefix: string,
+    private readonly initialStatus: string,
+  ) {}
+
+  async create(): Promise<StoredRecord> {
+    const record = { id: `${this.prefix}-${this.records.size + 1}`, status: this.initialStatus };
+    this.records.set(record.id, record);
+    return record;
+  }
+
+  async load(urn: string | number): Promise<StoredRecord | null> {
+    return this.records.get(String(urn)) ?? null;
+  }
+
+  async update(record: StoredRecord, status: string): Promise<StoredRecord> {
+    const updated = { ...record, status };
+    this.records.set(record.id, updated);
+    return updated;
+  }
+
+  status(record: StoredRecord): string {
+    return record.status;
+  }
+
+  urn(record: StoredRecord): string | number {
+    return record.id;
+  }
+}
+
+@Workflow<StoredRecord, string, string>({
+  name: 'PaymentWorkflow',
+  states: { finals: ['captured', 'declined'], idles: ['authorizing'], failed: 'declined' },
+  transitions: [
+    { event: 'payment.start', from: ['created'], to: 'authorizing' },
+    { event: 'payment.confirm', from: ['authorizing'], to: 'captured' },
+  ],
+  entityService: 'entity.payment',
+})
+class PaymentWorkflow {
+  @OnEvent('payment.start')
+  async start(@Payload() payload: { amount: number; decline?: boolean }) {
+    if (payload.decline) throw new UnretriableException('Card declined');
+  }
+
+  @OnEvent('payment.confirm')
+  async confirm() {
+    return { capturedAt: 'now' };
+  }
+}
+
+@Workflow<StoredRecord, string, string>({
+  name: 'CheckoutWorkflow',
+  states: { finals: ['paid', 'cancelled'], idles: ['pending'], failed: 'failed' },
+  transitions: [
+    { event: 'checkout.submit', from: ['pending'], to: 'awaiting_payment' },
+    { event: 'checkout.paid', from: ['awaiting_payment'], to: 'paid' },
+    { event: 'checkout.payment_failed', from: ['awaiting_payment'], to: 'cancelled' },
+  ],
+  children: [
+    {
+      state: 'awaiting_payment',
+      workflow: 'PaymentWorkflow',
+      event: 'payment.start',
+      onDone: 'checkout.paid',
+      onFailed: 'checkout.payment_failed',
+    },
+  ],
+  entityService: 'entity.checkout',
+})
+class CheckoutWorkflow {
+  results: IChildWorkflowResult[] = [];
+
+  @OnEvent('checkout.submit')
+  async submit(@Payload() payload: { amount: number; decline?: boolean }) {
+    return payload;
+  }
+
+  @OnEvent('checkout.paid')
+  async paid(@Payload() result: IChildWorkflowResult) {
+    this.results.push(result);
+  }
+
+  @OnEvent('checkout.payment_failed')
+  async paymentFailed(@Payload() result: IChildWorkflowResult) {
+    this.results.push(result);
+  }
+}
+
+describe('Child Workflow E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let checkouts: RecordEntityService;
+  let payments: RecordEntityService;
+
+  beforeEach(async () => {
+    checkouts = new RecordEntityService('checkout', 'pending');
+    payments = new RecordEntityService('payment', 'created');
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [
+            { provide: 'entity.checkout', useValue: checkouts },
+            { provide: 'entity.payment', useValue: payments },
+          ],
+          workflows: [CheckoutWorkflow, PaymentWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('goes idle with the child invocation when entering a child state', async () => {
+    const checkout = await checkouts.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('checkout.submit', checkout.id, { amount: 10 }));
+
+    expect(result).toEqual({
+      status: 'idle',
+      state: 'awaiting_payment',
+      timeout: undefined,
+      child: {
+        parent: { workflow: 'CheckoutWorkflow', urn: checkout.id, state: 'awaiting_payment' },
+        start: {
+          event: 'payment.start',
+          workflow: 'PaymentWorkflow',
+          urn: 'payment-1',
+          payload: { amount: 10 },
+          attempt: 0,
+        },
+      },
+    });
+    expect(payments.records.get('payment-1')?.status).toBe('created');
+  });
+
+  test('only completes the parent once the child settled', async () => {
+    const checkout = await checkouts.create();
+    const result = await orchestrator.transit(createWorkflowEvent('checkout.submit', checkout.id, { amount: 10 }));
+    if (result.status !== 'idle' || !result.child) throw new Error('expected a child invocation');
+
+    await orchestrator.transit(result.child.start);
+    expect(await orchestrator.completeChildWorkflow(result.child)).toBeNull();
+
+    await orchestrator.transit(createWorkflowEvent('payment.confirm', 'payment-1'));
+    expect(await orchestrator.completeChildWorkflow(result.child)).toEqual({
+      event: 'checkout.paid',
+      workflow: 'CheckoutWorkflow',
+      urn: checkout.id,
+      payload: {
+        workflow: 'PaymentWorkflow',
+        urn: 'payment-1',
+        state: 'captured',
+        failed: false,
+        entity: { id: 'payment-1', status: 'captured' },
+      },
+      attempt: 0,
+    });
+  });
+
+  test('runs the child in-process and resumes the parent', async () => {
+    const checkout = await checkouts.create();
+    const adapter = new InProcessWorkflowAdapter(orchestrator);
+    // Buffered until the child waits in its idle state
+    adapter.send({ event: 'payment.confirm', urn: 'payment-1' });
+
+    const result = await adapter.run(createWorkflowEvent('checkout.submit', checkout.id, { amount: 10 }));
+
+    expect(result).toEqual({ urn: checkout.id, status: 'completed', state: 'paid' });
+    expect(module.get(CheckoutWorkflow).results.map((r) => [r.urn, r.state, r.failed])).toEqual([
+      ['payment-1', 'captured', false],
+    ]);
+  });
+
+  test('sends onFailed when the child ends in its failed state', async () => {
+    const checkout = await checkouts.create();
+    const adapter = new InProcessWorkflowAdapter(orchestrator);
+
+    const result = await adapter.run(
+      createWorkflowEvent('checkout.submit', checkout.id, { amount: 10, decline: true }),
+    );
+
+    expect(result.state).toBe('cancelled');
+    expect(module.get(CheckoutWorkflow).results.map((r) => [r.state, r.failed])).toEqual([['declined', true]]);
+  });
+
+  test('runs the child as part of the parent durable execution', async () => {
+    const checkout = await checkouts.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const run = handler({ urn: checkout.id, initialEvent: 'checkout.submit', payload: { amount: 10 } }, ctx);
+    await ctx.waitUntilCallbackRegistered('idle:authorizing:1');
+    ctx.submitCallback('idle:authorizing:1', JSON.stringify({ event: 'payment.confirm' }));
+
+    expect(await run).toEqual({ urn: checkout.id, status: 'completed', state: 'paid' });
+    expect(ctx.getCompletedSteps()).toContain('child:PaymentWorkflow:3');
+    expect(payments.records.get('payment-1')?.status).toBe('captured');
+  });
+});
+
+describe('Child Workflow — registration', () => {
+  test('fails at startup when the child workflow is not registered', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.checkout', useValue: new RecordEntityService('checkout', 'pending') }],
+          workflows: [CheckoutWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await expect(module.init()).rejects.toThrow(
+      'Workflow CheckoutWorkflow starts child workflow PaymentWorkflow with event payment.start, but no handler is registered for it',
+    );
+  });
+});
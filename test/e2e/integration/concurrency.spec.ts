@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import type { IWorkflowUpdateContext } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { WorkflowConflictException } from '@/exception';
+import { DurableLambdaEventHandler } from '@/adapter';
+import { MockDurableContext, mockWithDurableExecution } from '@/testing';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+import { OrderWorkflow, OrderEvent, ORDER_ENTITY_TOKEN } from '../workflows/order-processing/order.workflow';
+import { type Order, OrderEntityService, OrderState } from '../workflows/order-processing/order.entity';
+
+/**
+ * Order entity service that only writes when the stored status still matches
+ * the status the transition was validated against.
+ */
+class CompareAndSetOrderEntityService extends OrderEntityService {
+  readonly updateContexts: Array<IWorkflowUpdateContext<OrderState> | undefined> = [];
+
+  async update(order: Order, status: OrderState, context?: IWorkflowUpdateContext<OrderState>): Promise<Order> {
+    this.updateContexts.push(context);
+    // Read and write in the same tick, like a conditional write in a database
+    const stored = this.getAll().find((o) => o.id === order.id);
+    if (context && stored && stored.status !== context.expectedStatus) {
+      throw new WorkflowConflictException(`Order ${order.id} is no longer ${context.expectedStatus}`, order.id);
+    }
+    return super.update(order, status);
+  }
+}
+
+describe('Optimistic Concurrency E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let entityService: CompareAndSetOrderEntityService;
+
+  beforeEach(async () => {
+    entityService = new CompareAndSetOrderEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: ORDER_ENTITY_TOKEN, useValue: entityService }],
+          workflows: [OrderWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    entityService.clear();
+    await module.close();
+  });
+
+  test('passes the validated state and event to update()', async () => {
+    const order = await entityService.create();
+    order.items = [{ name: 'Product 1', quantity: 1, price: 50 }];
+
+    await orchestrator.transit(createWorkflowEvent(OrderEvent.CREATED, order.id, { approved: true }));
+
+    expect(entityService.updateContexts).toEqual([{ expectedStatus: OrderState.PENDING, event: OrderEvent.CREATED }]);
+  });
+
+  test('rejects the losing side of two concurrent events without failing the entity', async () => {
+    const order = await entityService.create();
+    order.items = [{ name: 'Product 1', quantity: 1, price: 50 }];
+
+    // Hold both loads until each event has read the entity, so both validate against PENDING
+    const load = entityService.load.bind(entityService);
+    let release!: () => void;
+    const bothLoaded = new Promise<void>((resolve) => (release = resolve));
+    let pendingLoads = 0;
+    entityService.load = async (urn) => {
+      const loaded = await load(urn);
+      if (++pendingLoads === 2) release();
+      await bothLoaded;
+      return loaded ? { ...loaded } : null;
+    };
+
+    const results = await Promise.allSettled([
+      orchestrator.transit(createWorkflowEvent(OrderEvent.CREATED, order.id, { approved: true })),
+      orchestrator.transit(createWorkflowEvent(OrderEvent.CANCELLED, order.id)),
+    ]);
+
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1].status).toBe('rejected');
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(WorkflowConflictException);
+
+    const stored = await load(order.id);
+    expect(stored?.status).toBe(OrderState.PROCESSING);
+  });
+});
+
+describe('Durable Lambda Adapter — conflict retries', () => {
+  function createHandler(transit: () => Promise<any>) {
+    const orchestrator = {
+      getRetryConfig: () => undefined,
+      flushEvents: () => Promise.resolve(),
+      transit,
+    } as unknown as OrchestratorService;
+    const app = { get: () => orchestrator } as any;
+    return DurableLambdaEventHandler(app, mockWithDurableExecution);
+  }
+
+  test('re-runs the transit after a WorkflowConflictException', async () => {
+    let calls = 0;
+    const handler = createHandler(async () => {
+      calls++;
+      if (calls === 1) throw new WorkflowConflictException('conflict');
+      return { status: 'final', state: 'done' };
+    });
+    const ctx = new MockDurableContext();
+
+    const result = await handler({ urn: 'order-1', initialEvent: 'order.created' }, ctx);
+
+    expect(result).toEqual({ urn: 'order-1', status: 'completed', state: 'done' });
+    expect(calls).toBe(2);
+    expect(ctx.getCompletedSteps()).toContain('transit:order.created:0:1');
+  });
+
+  test('gives up after repeated conflicts', async () => {
+    const handler = createHandler(async () => {
+      throw new WorkflowConflictException('conflict');
+    });
+
+    await expect(handler({ urn: 'order-1', initialEvent: 'order.created' }, new MockDurableContext())).rejects.toThrow(
+      WorkflowConflictException,
+    );
+  });
+});
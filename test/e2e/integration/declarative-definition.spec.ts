@@ -0,0 +1,192 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  Entity,
+  OnEvent,
+  Payload,
+  Workflow,
+  WorkflowDefinitionLoader,
+  WorkflowRegistry,
+  type IWorkflowDefinitionDocument,
+  type IWorkflowEntity,
+  type WorkflowConditionLibrary,
+} from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Claim {
+  id: string;
+  status: string;
+  amount: number;
+}
+
+@Injectable()
+class ClaimEntityService implements IWorkflowEntity<Claim, string> {
+  readonly claims = new Map<string, Claim>();
+
+  async create(): Promise<Claim> {
+    const claim = { id: `claim-${this.claims.size + 1}`, status: 'submitted', amount: 0 };
+    this.claims.set(claim.id, claim);
+    return claim;
+  }
+
+  async load(urn: string | number): Promise<Claim | null> {
+    return this.claims.get(String(urn)) ?? null;
+  }
+
+  async update(claim: Claim, status: string): Promise<Claim> {
+    const updated = { ...claim, status };
+    this.claims.set(claim.id, updated);
+    return updated;
+  }
+
+  status(claim: Claim): string {
+    return claim.status;
+  }
+
+  urn(claim: Claim): string | number {
+    return claim.id;
+  }
+}
+
+const claimDefinition = JSON.stringify({
+  $schema: './workflow.schema.json',
+  name: 'ClaimWorkflow',
+  entityService: 'entity.claim',
+  states: { finals: ['paid', 'rejected'], idles: ['submitted', 'assessed'], failed: 'failed' },
+  transitions: [
+    { event: 'claim.assess', from: ['submitted'], to: 'assessed', conditions: ['hasAmount'] },
+    { event: 'claim.pay', from: ['assessed'], to: 'paid', conditions: ['withinLimit'] },
+    { event: 'claim.reject', from: ['submitted', 'assessed'], to: 'rejected' },
+  ],
+});
+
+const claimYaml = `
+name: ClaimWorkflow
+entityService: entity.claim
+states:
+  finals: [paid, rejected]
+  idles: [submitted, assessed]
+  failed: failed
+transitions:
+  - { event: claim.assess, from: [submitted], to: assessed, conditions: [hasAmount] }
+  - { event: claim.pay, from: [assessed], to: paid, conditions: [withinLimit] }
+  - { event: claim.reject, from: [submitted, assessed], to: rejected }
+`;
+
+const conditions: WorkflowConditionLibrary = {
+  hasAmount: (_claim: Claim, payload?: { amount?: number }) => (payload?.amount ?? 0) > 0,
+  withinLimit: (claim: Claim) => claim.amount <= 1000,
+};
+
+/** Handler class without `@Workflow` — its definition is bound through the module. */
+class ClaimHandlers {
+  @OnEvent('claim.assess')
+  async assess(@Entity() claim: Claim, @Payload() payload: { amount: number }) {
+    claim.amount = payload.amount;
+  }
+
+  @OnEvent('claim.pay')
+  async pay() {}
+
+  @OnEvent('claim.reject')
+  async reject() {}
+}
+
+describe('Declarative Workflow Definitions E2E', () => {
+  let module: TestingModule;
+  let claims: ClaimEntityService;
+
+  const boot = async (definition: IWorkflowDefinitionDocument, library = conditions) => {
+    claims = new ClaimEntityService();
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.claim', useValue: claims }],
+          workflows: [],
+          definitions: [{ workflow: ClaimHandlers, definition }],
+          conditions: library,
+          validation: 'error',
+        }),
+      ],
+    }).compile();
+    await module.init();
+    return module.get(OrchestratorService);
+  };
+
+  afterEach(async () => {
+    await module?.close();
+  });
+
+  test('routes events of a JSON definition bound to a handler class', async () => {
+    const orchestrator = await boot(WorkflowDefinitionLoader.parse(claimDefinition));
+    const claim = await claims.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('claim.assess', claim.id, { amount: 250 }));
+
+    expect(result).toEqual({ status: 'idle', state: 'assessed' });
+    expect(module.get(WorkflowRegistry).getWorkflow('ClaimWorkflow')?.workflowClass).toBe(ClaimHandlers);
+  });
+
+  test('evaluates conditions resolved from the library by name', async () => {
+    const orchestrator = await boot(WorkflowDefinitionLoader.parse(claimDefinition));
+    const claim = await claims.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('claim.assess', claim.id, { amount: 0 }));
+
+    expect(result).toEqual({ status: 'idle', state: 'submitted' });
+    expect(await orchestrator.canTransit(claim.id, 'claim.assess', { amount: 0 })).toEqual({
+      allowed: false,
+      from: 'submitted',
+      failedConditions: ['hasAmount'],
+    });
+  });
+
+  test('loads a YAML definition with an injected parser', async () => {
+    const orchestrator = await boot(
+      WorkflowDefinitionLoader.parse(claimYaml, { format: 'yaml', parseYaml: Bun.YAML.parse }),
+    );
+    const claim = await claims.create();
+    claims.claims.set(claim.id, { ...claim, status: 'assessed', amount: 5000 });
+
+    expect(await orchestrator.availableEvents(claim.id)).toEqual(['claim.reject']);
+  });
+
+  test('fails to boot when a condition is missing from the library', async () => {
+    await expect(
+      boot(WorkflowDefinitionLoader.parse(claimDefinition), { hasAmount: conditions.hasAmount }),
+    ).rejects.toThrow('Workflow ClaimWorkflow refers to unknown condition "withinLimit"');
+  });
+
+  test('fails to boot when the bound class is also decorated with @Workflow', async () => {
+    @Workflow({
+      name: 'DecoratedClaimWorkflow',
+      states: { finals: ['paid'], idles: ['submitted'], failed: 'failed' },
+      transitions: [{ event: 'claim.pay', from: ['submitted'], to: 'paid' }],
+      entityService: 'entity.claim',
+    })
+    class DecoratedClaimHandlers {
+      @OnEvent('claim.pay')
+      async pay() {}
+    }
+
+    const decorated = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.claim', useValue: new ClaimEntityService() }],
+          workflows: [],
+          definitions: [
+            { workflow: DecoratedClaimHandlers, definition: WorkflowDefinitionLoader.parse(claimDefinition) },
+          ],
+          conditions,
+        }),
+      ],
+    }).compile();
+
+    await expect(decorated.init()).rejects.toThrow(
+      'Workflow class DecoratedClaimHandlers is decorated with @Workflow and bound to a definition',
+    );
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, expect, test } from 'bun:test';
+import { parseDiagramArgs, runDiagramCommand } from '@/cli/diagram.command';
+
+const MODULE_PATH = 'test/e2e/fixtures/diagram-app.module.ts';
+
+describe('Diagram CLI', () => {
+  test('parses the command line', () => {
+    expect(parseDiagramArgs([MODULE_PATH, '-f', 'dot', '-w', 'TicketWorkflow', '--out', 'ticket.dot'])).toEqual({
+      modulePath: MODULE_PATH,
+      moduleName: undefined,
+      format: 'dot',
+      workflows: ['TicketWorkflow'],
+      out: 'ticket.dot',
+    });
+    expect(parseDiagramArgs(['--help'])).toBeNull();
+  });
+
+  test('rejects a missing module file and unknown formats', () => {
+    expect(() => parseDiagramArgs([])).toThrow('Missing module file.');
+    expect(() => parseDiagramArgs([MODULE_PATH, '--format', 'svg'])).toThrow(
+      'Unknown diagram format: svg. Use mermaid, dot, plantuml',
+    );
+  });
+
+  test('renders every workflow registered in the module', async () => {
+    const output = await runDiagramCommand({ modulePath: MODULE_PATH, format: 'mermaid', workflows: [] });
+
+    const diagrams = output.split('\n\n');
+    expect(diagrams).toHaveLength(2);
+    expect(diagrams[0]).toContain('title: TicketWorkflow');
+    expect(diagrams[0]).toContain('open --> closed : ticket.close');
+    expect(diagrams[1]).toContain('title: InvoiceWorkflow');
+  });
+
+  test('renders the requested workflows in the requested format', async () => {
+    const output = await runDiagramCommand({
+      modulePath: MODULE_PATH,
+      moduleName: 'DiagramAppModule',
+      format: 'plantuml',
+      workflows: ['InvoiceWorkflow'],
+    });
+
+    expect(output.startsWith('@startuml InvoiceWorkflow')).toBe(true);
+    expect(output).not.toContain('TicketWorkflow');
+  });
+
+  test('reports unknown workflows and modules', async () => {
+    await expect(
+      runDiagramCommand({ modulePath: MODULE_PATH, format: 'dot', workflows: ['OrderWorkflow'] }),
+    ).rejects.toThrow('Workflow not registered: OrderWorkflow. Registered: TicketWorkflow, InvoiceWorkflow');
+    await expect(
+      runDiagramCommand({ modulePath: MODULE_PATH, moduleName: 'AppModule', format: 'dot', workflows: [] }),
+    ).rejects.toThrow(`AppModule is not exported by ${MODULE_PATH}`);
+  });
+});
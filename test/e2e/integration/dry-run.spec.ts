@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Entity, OnEvent, Workflow, type IWorkflowEntity } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+
+interface Invoice {
+  id: string;
+  status: string;
+  amount: number;
+  archived?: boolean;
+}
+
+@Injectable()
+class InvoiceEntityService implements IWorkflowEntity<Invoice, string> {
+  readonly invoices = new Map<string, Invoice>();
+  updates = 0;
+
+  async create(amount = 100, archived = false): Promise<Invoice> {
+    const invoice = { id: `invoice-${this.invoices.size + 1}`, status: 'draft', amount, archived };
+    this.invoices.set(invoice.id, invoice);
+    return invoice;
+  }
+
+  async load(urn: string | number): Promise<Invoice | null> {
+    return this.invoices.get(String(urn)) ?? null;
+  }
+
+  async update(invoice: Invoice, status: string): Promise<Invoice> {
+    this.updates++;
+    const updated = { ...invoice, status };
+    this.invoices.set(invoice.id, updated);
+    return updated;
+  }
+
+  status(invoice: Invoice): string {
+    return invoice.status;
+  }
+
+  urn(invoice: Invoice): string | number {
+    return invoice.id;
+  }
+}
+
+const hasAmount = (invoice: Invoice) => invoice.amount > 0;
+const notArchived = (invoice: Invoice) => !invoice.archived;
+
+@Workflow<Invoice, string, string>({
+  name: 'InvoiceWorkflow',
+  states: { finals: ['paid', 'void'], idles: ['draft', 'sent'], failed: 'failed' },
+  transitions: [
+    { event: 'invoice.send', from: ['draft'], to: 'sent', conditions: [hasAmount] },
+    {
+      event: 'invoice.pay',
+      from: ['sent'],
+      to: 'paid',
+      conditions: [(_invoice, payload?: { amount?: number }) => payload?.amount !== undefined],
+    },
+    { event: 'invoice.void', from: ['draft', 'sent'], to: 'void' },
+  ],
+  conditions: [notArchived],
+  entityService: 'entity.invoice',
+})
+class InvoiceWorkflow {
+  calls: string[] = [];
+
+  @OnEvent('invoice.send')
+  async send(@Entity() invoice: Invoice) {
+    this.calls.push(`send:${invoice.id}`);
+  }
+
+  @OnEvent('invoice.pay')
+  async pay() {
+    this.calls.push('pay');
+  }
+
+  @OnEvent('invoice.void')
+  async void() {
+    this.calls.push('void');
+  }
+}
+
+@Workflow<Invoice, string, string>({
+  name: 'CreditNoteWorkflow',
+  states: { finals: ['issued'], idles: ['draft'], failed: 'failed' },
+  transitions: [{ event: 'credit.issue', from: ['draft'], to: 'issued' }],
+  entityService: 'entity.invoice',
+})
+class CreditNoteWorkflow {
+  @OnEvent('credit.issue')
+  async issue() {}
+}
+
+describe('Dry-run API E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let invoices: InvoiceEntityService;
+
+  beforeEach(async () => {
+    invoices = new InvoiceEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.invoice', useValue: invoices }],
+          workflows: [InvoiceWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('reports an allowed transition without running the handler or updating the entity', async () => {
+    const invoice = await invoices.create();
+
+    const check = await orchestrator.canTransit(invoice.id, 'invoice.send');
+
+    expect(check).toEqual({ allowed: true, from: 'draft', to: 'sent', failedConditions: [] });
+    expect(module.get(InvoiceWorkflow).calls).toEqual([]);
+    expect(invoices.updates).toBe(0);
+    expect(invoices.invoices.get(invoice.id)?.status).toBe('draft');
+  });
+
+  test('reports the transition conditions that failed', async () => {
+    const invoice = await invoices.create(0);
+
+    const check = await orchestrator.canTransit(invoice.id, 'invoice.send');
+
+    expect(check).toEqual({ allowed: false, from: 'draft', failedConditions: ['hasAmount'] });
+  });
+
+  test('evaluates conditions against the given payload', async () => {
+    const invoice = await invoices.create();
+    await invoices.update(invoice, 'sent');
+
+    expect((await orchestrator.canTransit(invoice.id, 'invoice.pay')).failedConditions).toEqual(['conditions[0]']);
+    expect((await orchestrator.canTransit(invoice.id, 'invoice.pay', { amount: 100 })).allowed).toBe(true);
+  });
+
+  test('reports a failing workflow-level condition', async () => {
+    const invoice = await invoices.create(100, true);
+
+    const check = await orchestrator.canTransit(invoice.id, 'invoice.void');
+
+    expect(check).toEqual({ allowed: false, from: 'draft', failedConditions: ['notArchived'] });
+  });
+
+  test('rejects events no transition matches from the current state', async () => {
+    const invoice = await invoices.create();
+
+    const check = await orchestrator.canTransit(invoice.id, 'invoice.pay', { amount: 100 });
+
+    expect(check).toEqual({ allowed: false, from: 'draft', failedConditions: [] });
+  });
+
+  test('lists the events available from the current state', async () => {
+    const draft = await invoices.create();
+    const empty = await invoices.create(0);
+    const archived = await invoices.create(100, true);
+
+    expect(await orchestrator.availableEvents(draft.id)).toEqual(['invoice.send', 'invoice.void']);
+    expect(await orchestrator.availableEvents(empty.id)).toEqual(['invoice.void']);
+    expect(await orchestrator.availableEvents(archived.id, 'InvoiceWorkflow')).toEqual([]);
+  });
+
+  test('rejects unknown entities', async () => {
+    await expect(orchestrator.canTransit('missing', 'invoice.send')).rejects.toThrow('Entity not found');
+  });
+
+  test('requires the workflow name when several workflows are registered', async () => {
+    const multi = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.invoice', useValue: invoices }],
+          workflows: [InvoiceWorkflow, CreditNoteWorkflow],
+        }),
+      ],
+    }).compile();
+    await multi.init();
+    const invoice = await invoices.create();
+    const service = multi.get(OrchestratorService);
+
+    await expect(service.availableEvents(invoice.id)).rejects.toThrow(
+      `Several workflows are registered (InvoiceWorkflow, CreditNoteWorkflow). Pass the workflow of entity ${invoice.id}.`,
+    );
+    expect(await service.availableEvents(invoice.id, 'CreditNoteWorkflow')).toEqual(['credit.issue']);
+    await multi.close();
+  });
+});
@@ -0,0 +1,147 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Entity, OnEvent, Workflow, type IWorkflowEntity } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Request {
+  id: string;
+  status: string;
+}
+
+@Injectable()
+class RequestEntityService implements IWorkflowEntity<Request, string> {
+  readonly requests = new Map<string, Request>();
+
+  async create(): Promise<Request> {
+    const request = { id: `request-${this.requests.size + 1}`, status: 'submitted' };
+    this.requests.set(request.id, request);
+    return request;
+  }
+
+  async load(urn: string | number): Promise<Request | null> {
+    return this.requests.get(String(urn)) ?? null;
+  }
+
+  async update(request: Request, status: string): Promise<Request> {
+    const updated = { ...request, status };
+    this.requests.set(request.id, updated);
+    return updated;
+  }
+
+  status(request: Request): string {
+    return request.status;
+  }
+
+  urn(request: Request): string | number {
+    return request.id;
+  }
+}
+
+const definition = (name: string, entityService: string) => ({
+  name,
+  states: { finals: ['approved'], idles: ['submitted'], failed: 'failed' },
+  transitions: [{ event: 'approved', from: ['submitted'], to: 'approved' }],
+  entityService,
+});
+
+@Workflow<Request, string, string>(definition('LeaveWorkflow', 'entity.leave'))
+class LeaveWorkflow {
+  handled: string[] = [];
+
+  @OnEvent('approved')
+  async onApproved(@Entity() request: Request) {
+    this.handled.push(request.id);
+  }
+}
+
+@Workflow<Request, string, string>(definition('ExpenseWorkflow', 'entity.expense'))
+class ExpenseWorkflow {
+  handled: string[] = [];
+
+  @OnEvent('approved')
+  async onApproved(@Entity() request: Request) {
+    this.handled.push(request.id);
+  }
+
+  @OnEvent('reimbursed')
+  async onReimbursed() {}
+}
+
+describe('Event Routing E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let leaves: RequestEntityService;
+  let expenses: RequestEntityService;
+
+  beforeEach(async () => {
+    leaves = new RequestEntityService();
+    expenses = new RequestEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [
+            { provide: 'entity.leave', useValue: leaves },
+            { provide: 'entity.expense', useValue: expenses },
+          ],
+          workflows: [LeaveWorkflow, ExpenseWorkflow],
+          validation: 'off',
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('boots with two workflows sharing an event name', () => {
+    expect(orchestrator).toBeDefined();
+  });
+
+  test('routes a shared event by workflow name', async () => {
+    const leave = await leaves.create();
+
+    const result = await orchestrator.transit({
+      ...createWorkflowEvent('approved', leave.id),
+      workflow: 'LeaveWorkflow',
+    });
+
+    expect(result).toEqual({ status: 'final', state: 'approved' });
+    expect(module.get(LeaveWorkflow).handled).toEqual([leave.id]);
+    expect(module.get(ExpenseWorkflow).handled).toEqual([]);
+  });
+
+  test('rejects a shared event without a workflow name', async () => {
+    const leave = await leaves.create();
+
+    await expect(orchestrator.transit(createWorkflowEvent('approved', leave.id))).rejects.toThrow(
+      'Event approved is handled by multiple workflows (LeaveWorkflow, ExpenseWorkflow)',
+    );
+  });
+
+  test('falls back to the global event name when it is unique', async () => {
+    const expense = await expenses.create();
+
+    await expect(orchestrator.transit(createWorkflowEvent('reimbursed', expense.id))).rejects.toThrow(
+      'No matched transition for event: reimbursed',
+    );
+  });
+
+  test('rejects events unknown to the requested workflow', async () => {
+    await expect(
+      orchestrator.transit({ ...createWorkflowEvent('reimbursed', 'request-1'), workflow: 'LeaveWorkflow' }),
+    ).rejects.toThrow('No workflow found for event: reimbursed in workflow: LeaveWorkflow');
+  });
+
+  test('scopes retry config lookups by workflow', () => {
+    expect(orchestrator.getRetryConfig('approved', 'LeaveWorkflow')).toBeUndefined();
+    expect(orchestrator.getRetryConfig('approved')).toBeUndefined();
+  });
+});
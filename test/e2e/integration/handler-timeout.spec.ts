@@ -0,0 +1,197 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Signal, Workflow, WithRetry, type IWorkflowEntity } from '@/core';
+import { HandlerTimeoutException, UnretriableException } from '@/exception';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { DurableLambdaEventHandler } from '@/adapter';
+import { MockDurableContext, mockWithDurableExecution } from '@/testing';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Shipment {
+  id: string;
+  status: string;
+}
+
+@Injectable()
+class ShipmentEntityService implements IWorkflowEntity<Shipment, string> {
+  readonly shipments = new Map<string, Shipment>();
+
+  async create(): Promise<Shipment> {
+    const shipment = { id: `shipment-${this.shipments.size + 1}`, status: 'pending' };
+    this.shipments.set(shipment.id, shipment);
+    return shipment;
+  }
+
+  async load(urn: string | number): Promise<Shipment | null> {
+    return this.shipments.get(String(urn)) ?? null;
+  }
+
+  async update(shipment: Shipment, status: string): Promise<Shipment> {
+    const updated = { ...shipment, status };
+    this.shipments.set(shipment.id, updated);
+    return updated;
+  }
+
+  status(shipment: Shipment): string {
+    return shipment.status;
+  }
+
+  urn(shipment: Shipment): string | number {
+    return shipment.id;
+  }
+}
+
+/** Resolves once `signal` aborts, or after `ms` milliseconds. */
+const work = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      resolve();
+    });
+  });
+
+@Workflow<Shipment, string, string>({
+  name: 'ShipmentWorkflow',
+  states: { finals: ['delivered', 'failed'], idles: ['pending', 'labelled', 'booked'], failed: 'failed' },
+  transitions: [
+    { event: 'shipment.label', from: ['pending'], to: 'labelled' },
+    { event: 'shipment.book', from: ['pending'], to: 'booked' },
+    { event: 'shipment.quote', from: ['booked'], to: 'delivered' },
+    { event: 'shipment.deliver', from: ['labelled'], to: 'delivered' },
+    { event: 'shipment.pickup', from: ['booked'], to: 'delivered' },
+  ],
+  entityService: 'entity.shipment',
+})
+class ShipmentWorkflow {
+  signals: AbortSignal[] = [];
+  /** How long each call of `book` takes — the first one times out. */
+  bookingDurations = [1_000, 0];
+
+  @OnEvent('shipment.label', { timeout: 20 })
+  async label(@Signal() signal: AbortSignal) {
+    this.signals.push(signal);
+    await work(1_000, signal);
+  }
+
+  @OnEvent('shipment.book')
+  @WithRetry({ handler: 'retry.shipment', maxAttempts: 3, timeout: 20 })
+  async book(@Signal() signal: AbortSignal) {
+    this.signals.push(signal);
+    await work(this.bookingDurations.shift() ?? 1_000, signal);
+  }
+
+  @OnEvent('shipment.quote', { timeout: 20 })
+  @WithRetry({ handler: 'retry.shipment', maxAttempts: 3, timeout: 1_000, retryOnTimeout: false })
+  async quote() {
+    await work(1_000);
+  }
+
+  @OnEvent('shipment.deliver', { timeout: 1_000 })
+  async deliver(@Signal() signal: AbortSignal) {
+    this.signals.push(signal);
+  }
+
+  @OnEvent('shipment.pickup')
+  async pickup() {}
+}
+
+describe('Handler Timeouts E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let shipments: ShipmentEntityService;
+  let workflow: ShipmentWorkflow;
+
+  beforeEach(async () => {
+    shipments = new ShipmentEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.shipment', useValue: shipments }],
+          workflows: [ShipmentWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+    workflow = module.get(ShipmentWorkflow);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('fails the transit permanently when a handler without retry config times out', async () => {
+    const shipment = await shipments.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('shipment.label', shipment.id));
+
+    expect(result).toEqual({ status: 'final', state: 'failed' });
+    const [signal] = workflow.signals;
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBeInstanceOf(HandlerTimeoutException);
+    const [record] = await orchestrator.getHistory(shipment.id);
+    expect(record.error).toEqual({ name: UnretriableException.name, message: 'Handler label timed out after 20ms' });
+  });
+
+  test('rethrows a retriable timeout when the handler has a retry config', async () => {
+    const shipment = await shipments.create();
+
+    const error = await orchestrator.transit(createWorkflowEvent('shipment.book', shipment.id)).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HandlerTimeoutException);
+    expect(error).toMatchObject({ handler: 'book', timeout: 20 });
+    expect(workflow.signals[0].aborted).toBe(true);
+    expect(shipments.shipments.get(shipment.id)?.status).toBe('pending');
+  });
+
+  test('fails the entity once a timing out handler used its last attempt', async () => {
+    workflow.bookingDurations = [];
+    const shipment = await shipments.create();
+
+    await expect(
+      orchestrator.transit({ ...createWorkflowEvent('shipment.book', shipment.id), attempt: 2 }),
+    ).rejects.toThrow(HandlerTimeoutException);
+
+    expect(shipments.shipments.get(shipment.id)?.status).toBe('failed');
+  });
+
+  test('succeeds when the durable adapter retries a timed out handler', async () => {
+    const shipment = await shipments.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const run = handler({ urn: shipment.id, initialEvent: 'shipment.book' }, ctx);
+    await ctx.waitUntilCallbackRegistered('idle:booked:0');
+    expect(shipments.shipments.get(shipment.id)?.status).toBe('booked');
+    ctx.submitCallback('idle:booked:0', JSON.stringify({ event: 'shipment.pickup' }));
+
+    expect(await run).toEqual({ urn: shipment.id, status: 'completed', state: 'delivered' });
+    expect(workflow.signals.map((s) => s.aborted)).toEqual([true, false]);
+  });
+
+  test('prefers the @OnEvent timeout and honours retryOnTimeout: false', async () => {
+    const shipment = await shipments.create();
+    await shipments.update(shipment, 'booked');
+
+    const startedAt = Date.now();
+    const result = await orchestrator.transit(createWorkflowEvent('shipment.quote', shipment.id));
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(result).toEqual({ status: 'final', state: 'failed' });
+  });
+
+  test('passes a signal that is not aborted when the handler finishes in time', async () => {
+    const shipment = await shipments.create();
+    await shipments.update(shipment, 'labelled');
+
+    const result = await orchestrator.transit(createWorkflowEvent('shipment.deliver', shipment.id));
+
+    expect(result).toEqual({ status: 'final', state: 'delivered' });
+    expect(workflow.signals[0].aborted).toBe(false);
+  });
+});
@@ -0,0 +1,204 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Workflow, type IWorkflowEntity } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { DurableLambdaEventHandler, InProcessWorkflowAdapter } from '@/adapter';
+import { MockDurableContext, mockWithDurableExecution } from '@/testing';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Subscription {
+  id: string;
+  status: string;
+}
+
+@Injectable()
+class SubscriptionEntityService implements IWorkflowEntity<Subscription, string> {
+  readonly subscriptions = new Map<string, Subscription>();
+
+  async create(): Promise<Subscription> {
+    const subscription = { id: `subscription-${this.subscriptions.size + 1}`, status: 'pending' };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async load(urn: string | number): Promise<Subscription | null> {
+    return this.subscriptions.get(String(urn)) ?? null;
+  }
+
+  async update(subscription: Subscription, status: string): Promise<Subscription> {
+    const updated = { ...subscription, status };
+    this.subscriptions.set(subscription.id, updated);
+    return updated;
+  }
+
+  status(subscription: Subscription): string {
+    return subscription.status;
+  }
+
+  urn(subscription: Subscription): string | number {
+    return subscription.id;
+  }
+}
+
+@Workflow<Subscription, string, string>({
+  name: 'SubscriptionWorkflow',
+  states: {
+    finals: ['active', 'expired', 'cancelled'],
+    idles: ['pending', { state: 'trial', timeout: { seconds: 0.02 }, onTimeout: 'subscription.expire' }],
+    failed: 'failed',
+  },
+  defaultCallbackTimeout: { seconds: 0.02 },
+  defaultOnTimeout: 'subscription.cancel',
+  transitions: [
+    { event: 'subscription.start', from: ['pending'], to: 'trial' },
+    { event: 'subscription.pay', from: ['trial'], to: 'active' },
+    { event: 'subscription.expire', from: ['trial'], to: 'expired' },
+    { event: 'subscription.flag', from: ['pending'], to: 'review' },
+    { event: 'subscription.approve', from: ['review'], to: 'active', conditions: [() => false] },
+    {
+      event: 'subscription.cancel',
+      from: ['review'],
+      to: 'cancelled',
+      conditions: [(_subscription, payload?: { flagged?: boolean }) => !payload?.flagged],
+    },
+  ],
+  entityService: 'entity.subscription',
+})
+class SubscriptionWorkflow {
+  @OnEvent('subscription.start')
+  async start() {}
+
+  @OnEvent('subscription.pay')
+  async pay() {}
+
+  @OnEvent('subscription.expire')
+  async expire() {}
+
+  @OnEvent('subscription.flag')
+  async flag() {
+    return { flagged: true };
+  }
+
+  @OnEvent('subscription.approve')
+  async approve() {}
+
+  @OnEvent('subscription.cancel')
+  async cancel() {}
+}
+
+describe('Idle State Timeouts E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let subscriptions: SubscriptionEntityService;
+
+  beforeEach(async () => {
+    subscriptions = new SubscriptionEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.subscription', useValue: subscriptions }],
+          workflows: [SubscriptionWorkflow],
+          validation: 'error',
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('returns the timeout event of the idle state', async () => {
+    const subscription = await subscriptions.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('subscription.start', subscription.id));
+
+    expect(result).toEqual({
+      status: 'idle',
+      state: 'trial',
+      timeout: { seconds: 0.02 },
+      onTimeout: {
+        event: 'subscription.expire',
+        workflow: 'SubscriptionWorkflow',
+        urn: subscription.id,
+        payload: undefined,
+        attempt: 0,
+      },
+    });
+  });
+
+  test('falls back to the default timeout event for no_transition waits', async () => {
+    const subscription = await subscriptions.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('subscription.flag', subscription.id));
+
+    expect(result.status).toBe('no_transition');
+    if (result.status !== 'no_transition') return;
+    expect(result.onTimeout?.event).toBe('subscription.cancel');
+  });
+
+  test('fires the timeout event in-process when no event arrives', async () => {
+    const subscription = await subscriptions.create();
+
+    const result = await new InProcessWorkflowAdapter(orchestrator).run(
+      createWorkflowEvent('subscription.start', subscription.id),
+    );
+
+    expect(result).toEqual({ urn: subscription.id, status: 'completed', state: 'expired' });
+  });
+
+  test('does not fire the timeout event once an event arrived', async () => {
+    const subscription = await subscriptions.create();
+    const adapter = new InProcessWorkflowAdapter(orchestrator);
+    adapter.send({ event: 'subscription.pay', urn: subscription.id });
+
+    const result = await adapter.run(createWorkflowEvent('subscription.start', subscription.id));
+
+    expect(result.state).toBe('active');
+    const history = await orchestrator.getHistory(subscription.id);
+    expect(history.map((r) => r.event)).toEqual(['subscription.start', 'subscription.pay']);
+  });
+
+  test('fires the timeout event when the durable callback expires', async () => {
+    const subscription = await subscriptions.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const run = handler({ urn: subscription.id, initialEvent: 'subscription.start' }, ctx);
+    await ctx.waitUntilCallbackRegistered('idle:trial:0');
+    ctx.timeoutCallback('idle:trial:0');
+
+    expect(await run).toEqual({ urn: subscription.id, status: 'completed', state: 'expired' });
+  });
+
+  test('fails the run instead of timing out when the callback was failed', async () => {
+    const subscription = await subscriptions.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const run = handler({ urn: subscription.id, initialEvent: 'subscription.start' }, ctx);
+    await ctx.waitUntilCallbackRegistered('idle:trial:0');
+    ctx.failCallback('idle:trial:0', 'Payment provider rejected the card');
+
+    await expect(run).rejects.toThrow('Payment provider rejected the card');
+    expect(subscriptions.subscriptions.get(subscription.id)?.status).toBe('trial');
+  });
+
+  test('fires the default timeout event when a durable no_transition wait expires', async () => {
+    const subscription = await subscriptions.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const run = handler({ urn: subscription.id, initialEvent: 'subscription.flag' }, ctx);
+    await ctx.waitUntilCallbackRegistered('awaiting:review:0');
+    ctx.timeoutCallback('awaiting:review:0');
+
+    expect(await run).toEqual({ urn: subscription.id, status: 'completed', state: 'cancelled' });
+  });
+});
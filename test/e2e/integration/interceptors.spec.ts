@@ -0,0 +1,209 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  OnEvent,
+  Payload,
+  UseWorkflowInterceptors,
+  Workflow,
+  type IWorkflowCallHandler,
+  type IWorkflowEntity,
+  type IWorkflowExecutionContext,
+  type TransitResult,
+  type WorkflowInterceptor,
+} from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Ticket {
+  id: string;
+  status: string;
+  tenant: string;
+}
+
+@Injectable()
+class TicketEntityService implements IWorkflowEntity<Ticket, string> {
+  readonly tickets = new Map<string, Ticket>();
+
+  async create(tenant = 'acme'): Promise<Ticket> {
+    const ticket = { id: `ticket-${this.tickets.size + 1}`, status: 'open', tenant };
+    this.tickets.set(ticket.id, ticket);
+    return ticket;
+  }
+
+  async load(urn: string | number): Promise<Ticket | null> {
+    return this.tickets.get(String(urn)) ?? null;
+  }
+
+  async update(ticket: Ticket, status: string): Promise<Ticket> {
+    const updated = { ...ticket, status };
+    this.tickets.set(ticket.id, updated);
+    return updated;
+  }
+
+  status(ticket: Ticket): string {
+    return ticket.status;
+  }
+
+  urn(ticket: Ticket): string | number {
+    return ticket.id;
+  }
+}
+
+/** Records the order in which interceptors are entered and left. */
+const calls: string[] = [];
+
+class RecordingInterceptor implements WorkflowInterceptor {
+  constructor(private readonly label: string) {}
+
+  async intercept(context: IWorkflowExecutionContext, next: IWorkflowCallHandler): Promise<TransitResult> {
+    calls.push(`${this.label}:before:${context.handler}`);
+    const result = await next.handle();
+    calls.push(`${this.label}:after:${result.status}`);
+    return result;
+  }
+}
+
+@Injectable()
+class TenantInterceptor implements WorkflowInterceptor<Ticket> {
+  readonly blocked = new Set<string>();
+
+  async intercept(context: IWorkflowExecutionContext<Ticket>, next: IWorkflowCallHandler): Promise<TransitResult> {
+    if (this.blocked.has(context.entity.tenant)) {
+      return { status: 'no_transition', state: context.entity.status };
+    }
+    context.payload = { ...(context.payload as object), tenant: context.entity.tenant };
+    return next.handle();
+  }
+}
+
+@Workflow<Ticket, string, string>({
+  name: 'TicketWorkflow',
+  states: { finals: ['closed'], idles: ['open', 'assigned'], failed: 'failed' },
+  transitions: [
+    { event: 'ticket.assign', from: ['open'], to: 'assigned' },
+    { event: 'ticket.close', from: ['assigned'], to: 'closed' },
+  ],
+  entityService: 'entity.ticket',
+})
+@UseWorkflowInterceptors(TenantInterceptor, new RecordingInterceptor('class'))
+class TicketWorkflow {
+  payloads: unknown[] = [];
+
+  @OnEvent('ticket.assign')
+  async assign(@Payload() payload: unknown) {
+    this.payloads.push(payload);
+  }
+
+  @OnEvent('ticket.close')
+  @UseWorkflowInterceptors(new RecordingInterceptor('handler'))
+  async close() {}
+}
+
+describe('Workflow Interceptors E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let tickets: TicketEntityService;
+
+  beforeEach(async () => {
+    calls.length = 0;
+    tickets = new TicketEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.ticket', useValue: tickets }],
+          workflows: [TicketWorkflow],
+          providers: [TenantInterceptor],
+          interceptors: [new RecordingInterceptor('global')],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('runs global, class and handler interceptors around the transit', async () => {
+    const ticket = await tickets.create();
+    await orchestrator.transit(createWorkflowEvent('ticket.assign', ticket.id, {}));
+    calls.length = 0;
+
+    await orchestrator.transit(createWorkflowEvent('ticket.close', ticket.id));
+
+    expect(calls).toEqual([
+      'global:before:close',
+      'class:before:close',
+      'handler:before:close',
+      'handler:after:final',
+      'class:after:final',
+      'global:after:final',
+    ]);
+  });
+
+  test('passes the transformed payload to the handler', async () => {
+    const ticket = await tickets.create('globex');
+
+    await orchestrator.transit(createWorkflowEvent('ticket.assign', ticket.id, { agent: 'jane' }));
+
+    expect(module.get(TicketWorkflow).payloads).toEqual([{ agent: 'jane', tenant: 'globex' }]);
+    const [record] = await orchestrator.getHistory(ticket.id);
+    expect(record.payload).toEqual({ agent: 'jane', tenant: 'globex' });
+  });
+
+  test('short-circuits the transit when an interceptor returns without calling next', async () => {
+    module.get(TenantInterceptor).blocked.add('acme');
+    const ticket = await tickets.create('acme');
+
+    const result = await orchestrator.transit(createWorkflowEvent('ticket.assign', ticket.id, {}));
+
+    expect(result).toEqual({ status: 'no_transition', state: 'open' });
+    expect(tickets.tickets.get(ticket.id)?.status).toBe('open');
+    expect(module.get(TicketWorkflow).payloads).toEqual([]);
+    expect(calls).toEqual(['global:before:assign', 'global:after:no_transition']);
+  });
+
+  test('registers interceptor classes passed to WorkflowModule.register', async () => {
+    const globalModule = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.ticket', useValue: tickets }],
+          workflows: [TicketWorkflow],
+          interceptors: [TenantInterceptor],
+        }),
+      ],
+    }).compile();
+    await globalModule.init();
+    globalModule.get(TenantInterceptor).blocked.add('initech');
+
+    const ticket = await tickets.create('initech');
+    const result = await globalModule
+      .get(OrchestratorService)
+      .transit(createWorkflowEvent('ticket.assign', ticket.id, {}));
+
+    expect(result.status).toBe('no_transition');
+    await globalModule.close();
+  });
+});
+
+describe('Workflow Interceptors — registration', () => {
+  test('fails at startup when an interceptor class is not a provider', async () => {
+    const module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.ticket', useValue: new TicketEntityService() }],
+          workflows: [TicketWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await expect(module.init()).rejects.toThrow(
+      'Interceptor TenantInterceptor used by workflow TicketWorkflow is not a provider. Add it to WorkflowModule.register({ providers })',
+    );
+  });
+});
@@ -0,0 +1,206 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  Entity,
+  OnEvent,
+  OnStateEnter,
+  OnStateExit,
+  OnStatusChanged,
+  Payload,
+  Workflow,
+  type IStatusChange,
+  type IWorkflowEntity,
+} from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { InProcessWorkflowAdapter } from '@/adapter';
+import { UnretriableException } from '@/exception';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Parcel {
+  id: string;
+  status: string;
+}
+
+@Injectable()
+class ParcelEntityService implements IWorkflowEntity<Parcel, string> {
+  readonly parcels = new Map<string, Parcel>();
+
+  async create(): Promise<Parcel> {
+    const parcel = { id: `parcel-${this.parcels.size + 1}`, status: 'pending' };
+    this.parcels.set(parcel.id, parcel);
+    return parcel;
+  }
+
+  async load(urn: string | number): Promise<Parcel | null> {
+    return this.parcels.get(String(urn)) ?? null;
+  }
+
+  async update(parcel: Parcel, status: string): Promise<Parcel> {
+    const updated = { ...parcel, status };
+    this.parcels.set(parcel.id, updated);
+    return updated;
+  }
+
+  status(parcel: Parcel): string {
+    return parcel.status;
+  }
+
+  urn(parcel: Parcel): string | number {
+    return parcel.id;
+  }
+}
+
+@Workflow<Parcel, string, string>({
+  name: 'ParcelWorkflow',
+  states: {
+    finals: ['delivered'],
+    idles: ['pending'],
+    failed: 'failed',
+    compound: [{ state: 'in_transit', children: ['sorting', 'out_for_delivery'], initial: 'sorting' }],
+  },
+  transitions: [
+    { event: 'parcel.dispatch', from: ['pending'], to: 'in_transit' },
+    { event: 'parcel.sort', from: ['sorting'], to: 'out_for_delivery' },
+    { event: 'parcel.deliver', from: ['out_for_delivery'], to: 'delivered' },
+  ],
+  entityService: 'entity.parcel',
+})
+class ParcelWorkflow {
+  calls: string[] = [];
+  statusInHooks: string[] = [];
+  rejectDispatch = false;
+
+  @OnEvent('parcel.dispatch')
+  async dispatch() {
+    if (this.rejectDispatch) throw new UnretriableException('No carrier available');
+    return { carrier: 'ups' };
+  }
+
+  @OnEvent('parcel.sort')
+  async sort() {}
+
+  @OnEvent('parcel.deliver')
+  async deliver() {}
+
+  @OnStateExit('pending')
+  async leavePending(@Entity() parcel: Parcel) {
+    this.calls.push('exit:pending');
+    this.statusInHooks.push(parcel.status);
+  }
+
+  @OnStateEnter('in_transit')
+  async enterTransit(@Payload() change: IStatusChange) {
+    this.calls.push(`enter:in_transit(${(change.output as { carrier: string }).carrier})`);
+  }
+
+  @OnStateExit('in_transit')
+  async leaveTransit() {
+    this.calls.push('exit:in_transit');
+  }
+
+  @OnStateEnter('sorting')
+  async enterSorting() {
+    this.calls.push('enter:sorting');
+  }
+
+  @OnStateExit('sorting')
+  async leaveSorting() {
+    this.calls.push('exit:sorting');
+  }
+
+  @OnStateEnter('out_for_delivery')
+  async enterOutForDelivery() {
+    this.calls.push('enter:out_for_delivery');
+  }
+
+  @OnStateEnter('delivered')
+  async enterDelivered() {
+    throw new Error('Notification service unavailable');
+  }
+
+  @OnStatusChanged()
+  async track(@Payload() { event, from, to }: IStatusChange) {
+    this.calls.push(`changed:${from}->${to} (${event})`);
+  }
+}
+
+describe('State Lifecycle Hooks E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let parcels: ParcelEntityService;
+  let workflow: ParcelWorkflow;
+
+  beforeEach(async () => {
+    parcels = new ParcelEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.parcel', useValue: parcels }],
+          workflows: [ParcelWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+    workflow = module.get(ParcelWorkflow);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('runs exit, enter and status-changed hooks after the update', async () => {
+    const parcel = await parcels.create();
+
+    await orchestrator.transit(createWorkflowEvent('parcel.dispatch', parcel.id));
+
+    expect(workflow.calls).toEqual([
+      'exit:pending',
+      'enter:in_transit(ups)',
+      'enter:sorting',
+      'changed:pending->sorting (parcel.dispatch)',
+    ]);
+    expect(workflow.statusInHooks).toEqual(['sorting']);
+  });
+
+  test('does not leave or re-enter a parent shared by both states', async () => {
+    const parcel = await parcels.create();
+    await orchestrator.transit(createWorkflowEvent('parcel.dispatch', parcel.id));
+    workflow.calls = [];
+
+    await orchestrator.transit(createWorkflowEvent('parcel.sort', parcel.id));
+
+    expect(workflow.calls).toEqual([
+      'exit:sorting',
+      'enter:out_for_delivery',
+      'changed:sorting->out_for_delivery (parcel.sort)',
+    ]);
+  });
+
+  test('does not fail the transit when a hook throws', async () => {
+    const parcel = await parcels.create();
+
+    const result = await new InProcessWorkflowAdapter(orchestrator).run(
+      createWorkflowEvent('parcel.dispatch', parcel.id),
+    );
+
+    expect(result).toEqual({ urn: parcel.id, status: 'completed', state: 'delivered' });
+    expect(workflow.calls.slice(-2)).toEqual([
+      'exit:in_transit',
+      'changed:out_for_delivery->delivered (parcel.deliver)',
+    ]);
+  });
+
+  test('runs the hooks when the entity moves to the failed state', async () => {
+    workflow.rejectDispatch = true;
+    const parcel = await parcels.create();
+
+    await orchestrator.transit(createWorkflowEvent('parcel.dispatch', parcel.id));
+
+    expect(workflow.calls).toEqual(['exit:pending', 'changed:pending->failed (parcel.dispatch)']);
+  });
+});
@@ -0,0 +1,279 @@
+import { Inject, Injectable, Module } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  Entity,
+  InMemoryWorkflowHistoryStore,
+  OnEvent,
+  Payload,
+  Workflow,
+  WorkflowRegistry,
+  type IWorkflowEntity,
+  type IWorkflowModuleOptions,
+  type IWorkflowOptionsFactory,
+} from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Doc {
+  id: string;
+  status: string;
+  title?: string;
+}
+
+class DocEntityService implements IWorkflowEntity<Doc, string> {
+  readonly docs = new Map<string, Doc>();
+
+  async create(): Promise<Doc> {
+    const doc = { id: `doc-${this.docs.size + 1}`, status: 'draft' };
+    this.docs.set(doc.id, doc);
+    return doc;
+  }
+
+  async load(urn: string | number): Promise<Doc | null> {
+    return this.docs.get(String(urn)) ?? null;
+  }
+
+  async update(doc: Doc, status: string): Promise<Doc> {
+    const updated = { ...doc, status };
+    this.docs.set(doc.id, updated);
+    return updated;
+  }
+
+  status(doc: Doc): string {
+    return doc.status;
+  }
+
+  urn(doc: Doc): string | number {
+    return doc.id;
+  }
+}
+
+const CONFIG = Symbol('CONFIG');
+
+interface Config {
+  maxTitleLength: number;
+}
+
+@Module({
+  providers: [{ provide: CONFIG, useValue: { maxTitleLength: 5 } satisfies Config }],
+  exports: [CONFIG],
+})
+class ConfigModule {}
+
+const titleSchema = { maxLength: 'config' };
+
+@Workflow({
+  name: 'ArticleWorkflow',
+  states: { finals: ['published'], idles: ['draft'], failed: 'failed' },
+  transitions: [{ event: 'article.publish', from: ['draft'], to: 'published' }],
+  entityService: 'entity.article',
+})
+class ArticleWorkflow {
+  @OnEvent('article.publish')
+  async publish(@Entity() article: Doc, @Payload(titleSchema) payload: { title: string }) {
+    article.title = payload.title;
+  }
+}
+
+@Workflow({
+  name: 'InvoiceWorkflow',
+  states: { finals: ['paid'], idles: ['draft'], failed: 'failed' },
+  transitions: [{ event: 'invoice.pay', from: ['draft'], to: 'paid' }],
+  entityService: 'entity.invoice',
+})
+class InvoiceWorkflow {
+  @OnEvent('invoice.pay')
+  async pay() {}
+}
+
+/** Handler class of a definition bound in a feature module. */
+class ReportHandlers {
+  @OnEvent('report.file')
+  async file() {}
+}
+
+/** Feature provider depending on the orchestrator of the root module. */
+@Injectable()
+class InvoiceService {
+  constructor(@Inject(OrchestratorService) private readonly orchestrator: OrchestratorService) {}
+
+  pay(urn: string) {
+    return this.orchestrator.transit(createWorkflowEvent('invoice.pay', urn));
+  }
+}
+
+const articles = new DocEntityService();
+const invoices = new DocEntityService();
+const reports = new DocEntityService();
+
+@Module({
+  imports: [
+    WorkflowModule.forFeature({
+      entities: [{ provide: 'entity.invoice', useValue: invoices }],
+      workflows: [InvoiceWorkflow],
+      providers: [InvoiceService],
+    }),
+  ],
+})
+class BillingModule {}
+
+@Module({
+  imports: [
+    WorkflowModule.forFeature({
+      entities: [{ provide: 'entity.report', useValue: reports }],
+      definitions: [
+        {
+          workflow: ReportHandlers,
+          definition: {
+            name: 'ReportWorkflow',
+            states: { finals: ['filed'], idles: ['draft'], failed: 'failed' },
+            transitions: [{ event: 'report.file', from: ['draft'], to: 'filed', conditions: ['isSigned'] }],
+            entityService: 'entity.report',
+          },
+        },
+      ],
+      conditions: { isSigned: (_report: Doc, payload?: { signed?: boolean }) => payload?.signed === true },
+    }),
+  ],
+})
+class ReportingModule {}
+
+const validatorFor =
+  (config: Config) =>
+  (schema: unknown, payload: unknown): unknown => {
+    const { title } = payload as { title: string };
+    if (schema === titleSchema && title.length > config.maxTitleLength) throw new Error('title is too long');
+    return payload;
+  };
+
+@Injectable()
+class WorkflowConfig implements IWorkflowOptionsFactory {
+  static readonly historyStore = new InMemoryWorkflowHistoryStore();
+
+  constructor(@Inject(CONFIG) private readonly config: Config) {}
+
+  createWorkflowOptions(): IWorkflowModuleOptions {
+    return { payloadValidator: validatorFor(this.config), historyStore: WorkflowConfig.historyStore };
+  }
+}
+
+describe('Module Registration E2E', () => {
+  let module: TestingModule | undefined;
+
+  const compile = async (imports: any[]) => {
+    const compiled = await Test.createTestingModule({ imports }).compile();
+    await compiled.init();
+    module = compiled;
+    return compiled;
+  };
+
+  afterEach(async () => {
+    await module?.close();
+    module = undefined;
+  });
+
+  describe('registerAsync', () => {
+    test('creates the module options with a factory and its injected providers', async () => {
+      const historyStore = new InMemoryWorkflowHistoryStore();
+      const app = await compile([
+        WorkflowModule.registerAsync({
+          imports: [ConfigModule],
+          entities: [{ provide: 'entity.article', useValue: articles }],
+          workflows: [ArticleWorkflow],
+          useFactory: async (config: Config) => ({ payloadValidator: validatorFor(config), historyStore }),
+          inject: [CONFIG],
+        }),
+      ]);
+      const orchestrator = app.get(OrchestratorService);
+      const [long, short] = [await articles.create(), await articles.create()];
+
+      await expect(
+        orchestrator.transit(createWorkflowEvent('article.publish', long.id, { title: 'Too long' })),
+      ).rejects.toThrow('Payload validation failed: title is too long');
+      await orchestrator.transit(createWorkflowEvent('article.publish', short.id, { title: 'Short' }));
+
+      expect(articles.docs.get(short.id)?.status).toBe('published');
+      expect(await historyStore.getHistory(short.id)).toHaveLength(1);
+    });
+
+    test('creates the module options with an options class', async () => {
+      const app = await compile([
+        WorkflowModule.registerAsync({
+          imports: [ConfigModule],
+          entities: [{ provide: 'entity.article', useValue: articles }],
+          workflows: [ArticleWorkflow],
+          useClass: WorkflowConfig,
+        }),
+      ]);
+      const article = await articles.create();
+
+      await app.get(OrchestratorService).transit(createWorkflowEvent('article.publish', article.id, { title: 'Hi' }));
+
+      expect((await WorkflowConfig.historyStore.getHistory(article.id)).map((r) => r.to)).toEqual(['published']);
+    });
+
+    test('requires useFactory or useClass', () => {
+      expect(() => WorkflowModule.registerAsync({ workflows: [ArticleWorkflow] })).toThrow(
+        'WorkflowModule.registerAsync() requires useFactory or useClass',
+      );
+    });
+  });
+
+  describe('forFeature', () => {
+    test('routes the workflows of every feature module through one orchestrator', async () => {
+      const app = await compile([
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.article', useValue: articles }],
+          workflows: [ArticleWorkflow],
+          global: true,
+        }),
+        BillingModule,
+        ReportingModule,
+      ]);
+      const orchestrator = app.get(OrchestratorService);
+      const [invoice, report] = [await invoices.create(), await reports.create()];
+
+      expect(await app.get(InvoiceService).pay(invoice.id)).toEqual({ status: 'final', state: 'paid' });
+      expect(await orchestrator.transit(createWorkflowEvent('report.file', report.id, { signed: true }))).toEqual({
+        status: 'final',
+        state: 'filed',
+      });
+      expect(
+        app
+          .get(WorkflowRegistry)
+          .getWorkflows()
+          .map((w) => w.name)
+          .sort(),
+      ).toEqual(['ArticleWorkflow', 'InvoiceWorkflow', 'ReportWorkflow']);
+    });
+
+    test('only lets feature providers inject the orchestrator of a global module', async () => {
+      await expect(
+        compile([
+          WorkflowModule.register({
+            entities: [{ provide: 'entity.article', useValue: articles }],
+            workflows: [ArticleWorkflow],
+          }),
+          BillingModule,
+        ]),
+      ).rejects.toThrow("Nest can't resolve dependencies of the InvoiceService");
+    });
+
+    test('resolves the definitions of a feature module with its own conditions', async () => {
+      const app = await compile([
+        WorkflowModule.registerAsync({ useFactory: () => ({ validation: 'error' }) }),
+        ReportingModule,
+      ]);
+      const report = await reports.create();
+
+      expect(await app.get(OrchestratorService).canTransit(report.id, 'report.file', { signed: false })).toEqual({
+        allowed: false,
+        from: 'draft',
+        failedConditions: ['isSigned'],
+      });
+      expect(app.get(WorkflowRegistry).getWorkflow('ReportWorkflow')?.workflowClass).toBe(ReportHandlers);
+    });
+  });
+});
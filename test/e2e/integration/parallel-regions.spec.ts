@@ -0,0 +1,270 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { Entity, OnEvent, Payload, Workflow, type IWorkflowEntity, type IWorkflowUpdateContext } from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { DurableLambdaEventHandler } from '@/adapter';
+import { MockDurableContext, mockWithDurableExecution } from '@/testing';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Shipment {
+  id: string;
+  status: string;
+  regions: Record<string, string>;
+}
+
+@Injectable()
+class ShipmentEntityService implements IWorkflowEntity<Shipment, string> {
+  readonly shipments = new Map<string, Shipment>();
+  readonly regionUpdates: Array<{ region: string; status: string; context?: IWorkflowUpdateContext<string> }> = [];
+
+  async create(): Promise<Shipment> {
+    const shipment = { id: `shipment-${this.shipments.size + 1}`, status: 'pending', regions: {} };
+    this.shipments.set(shipment.id, shipment);
+    return shipment;
+  }
+
+  async load(urn: string | number): Promise<Shipment | null> {
+    const shipment = this.shipments.get(String(urn));
+    return shipment ? { ...shipment, regions: { ...shipment.regions } } : null;
+  }
+
+  async update(shipment: Shipment, status: string): Promise<Shipment> {
+    const updated = { ...shipment, status };
+    this.shipments.set(shipment.id, updated);
+    return updated;
+  }
+
+  regionStatus(shipment: Shipment, region: string): string | undefined {
+    return shipment.regions[region];
+  }
+
+  async updateRegion(
+    shipment: Shipment,
+    region: string,
+    status: string,
+    context?: IWorkflowUpdateContext<string>,
+  ): Promise<Shipment> {
+    this.regionUpdates.push({ region, status, context });
+    const updated = { ...shipment, regions: { ...shipment.regions, [region]: status } };
+    this.shipments.set(shipment.id, updated);
+    return updated;
+  }
+
+  status(shipment: Shipment): string {
+    return shipment.status;
+  }
+
+  urn(shipment: Shipment): string | number {
+    return shipment.id;
+  }
+}
+
+@Workflow<Shipment, string, string>({
+  name: 'FulfilmentWorkflow',
+  states: { finals: ['shipped'], idles: ['pending'], failed: 'failed' },
+  transitions: [
+    { event: 'order.fulfil', from: ['pending'], to: 'fulfilling' },
+    { event: 'order.ship', from: ['fulfilling'], to: 'shipped' },
+  ],
+  parallel: [
+    {
+      state: 'fulfilling',
+      regions: [
+        {
+          name: 'payment',
+          initial: 'authorized',
+          finals: ['captured'],
+          transitions: [{ event: 'payment.capture', from: ['authorized'], to: 'captured' }],
+        },
+        {
+          name: 'inventory',
+          initial: 'requested',
+          finals: ['reserved'],
+          transitions: [
+            {
+              event: 'inventory.reserve',
+              from: ['requested'],
+              to: 'reserved',
+              conditions: [(_shipment, payload?: { inStock?: boolean }) => payload?.inStock !== false],
+            },
+          ],
+        },
+      ],
+    },
+  ],
+  entityService: 'entity.shipment',
+})
+class FulfilmentWorkflow {
+  handled: string[] = [];
+
+  @OnEvent('order.fulfil')
+  async fulfil(@Payload() payload: { inStock?: boolean }) {
+    this.handled.push('order.fulfil');
+    return payload ?? {};
+  }
+
+  @OnEvent('payment.capture')
+  async capture() {
+    this.handled.push('payment.capture');
+  }
+
+  @OnEvent('inventory.reserve')
+  async reserve() {
+    this.handled.push('inventory.reserve');
+  }
+
+  @OnEvent('order.ship')
+  async ship(@Entity() shipment: Shipment) {
+    this.handled.push('order.ship');
+    return { shippedRegions: shipment.regions };
+  }
+}
+
+describe('Parallel Regions E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let shipments: ShipmentEntityService;
+
+  beforeEach(async () => {
+    shipments = new ShipmentEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.shipment', useValue: shipments }],
+          workflows: [FulfilmentWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('forks every region with an auto-transition', async () => {
+    const shipment = await shipments.create();
+
+    const result = await orchestrator.transit(createWorkflowEvent('order.fulfil', shipment.id, {}));
+
+    expect(result.status).toBe('forked');
+    if (result.status !== 'forked') return;
+    expect(result.state).toBe('fulfilling');
+    expect(result.branches.map((b) => b.event)).toEqual(['payment.capture', 'inventory.reserve']);
+    expect(result.branches[0].workflow).toBe('FulfilmentWorkflow');
+    expect(shipments.shipments.get(shipment.id)).toMatchObject({
+      status: 'fulfilling',
+      regions: { payment: 'authorized', inventory: 'requested' },
+    });
+  });
+
+  test('moves a region with a conditional write on its sub-state', async () => {
+    const shipment = await shipments.create();
+    await orchestrator.transit(createWorkflowEvent('order.fulfil', shipment.id, { inStock: false }));
+
+    const result = await orchestrator.transit(createWorkflowEvent('payment.capture', shipment.id));
+
+    expect(result).toEqual({ status: 'no_transition', state: 'fulfilling', timeout: undefined });
+    expect(shipments.regionUpdates.at(-1)).toEqual({
+      region: 'payment',
+      status: 'captured',
+      context: { expectedStatus: 'authorized', event: 'payment.capture' },
+    });
+    expect(shipments.shipments.get(shipment.id)?.status).toBe('fulfilling');
+  });
+
+  test('rejects leaving the parallel state before every region is done', async () => {
+    const shipment = await shipments.create();
+    await orchestrator.transit(createWorkflowEvent('order.fulfil', shipment.id, { inStock: false }));
+    await orchestrator.transit(createWorkflowEvent('payment.capture', shipment.id));
+
+    await expect(orchestrator.transit(createWorkflowEvent('order.ship', shipment.id))).rejects.toThrow(
+      'Event order.ship cannot leave parallel state fulfilling before its regions join. Pending regions: inventory',
+    );
+    expect(shipments.shipments.get(shipment.id)?.status).toBe('fulfilling');
+  });
+
+  test('joins once the last region is done', async () => {
+    const shipment = await shipments.create();
+    await orchestrator.transit(createWorkflowEvent('order.fulfil', shipment.id, { inStock: false }));
+    await orchestrator.transit(createWorkflowEvent('payment.capture', shipment.id));
+
+    const joined = await orchestrator.transit(createWorkflowEvent('inventory.reserve', shipment.id, {}));
+    expect(joined.status).toBe('continued');
+    if (joined.status !== 'continued') return;
+    expect(joined.nextEvent.event).toBe('order.ship');
+
+    const result = await orchestrator.transit(joined.nextEvent);
+    expect(result).toEqual({ status: 'final', state: 'shipped' });
+  });
+
+  test('records region moves in the history', async () => {
+    const shipment = await shipments.create();
+    await orchestrator.transit(createWorkflowEvent('order.fulfil', shipment.id, { inStock: false }));
+    await orchestrator.transit(createWorkflowEvent('payment.capture', shipment.id));
+
+    const history = await orchestrator.getHistory(shipment.id);
+    expect(history.map(({ event, region, from, to, outcome }) => ({ event, region, from, to, outcome }))).toEqual([
+      { event: 'order.fulfil', region: undefined, from: 'pending', to: 'fulfilling', outcome: 'forked' },
+      { event: 'payment.capture', region: 'payment', from: 'authorized', to: 'captured', outcome: 'no_transition' },
+    ]);
+  });
+
+  test('runs forked branches through the durable adapter until the join', async () => {
+    const shipment = await shipments.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const result = await handler({ urn: shipment.id, initialEvent: 'order.fulfil', payload: {} }, ctx);
+
+    expect(result).toEqual({ urn: shipment.id, status: 'completed', state: 'shipped' });
+    expect(module.get(FulfilmentWorkflow).handled).toEqual([
+      'order.fulfil',
+      'payment.capture',
+      'inventory.reserve',
+      'order.ship',
+    ]);
+    expect(ctx.getCompletedSteps()).toContain('fork:fulfilling:0');
+  });
+
+  test('waits for external region events once no branch is pending', async () => {
+    const shipment = await shipments.create();
+    const handler = DurableLambdaEventHandler({ get: () => orchestrator } as any, mockWithDurableExecution);
+    const ctx = new MockDurableContext();
+
+    const run = handler({ urn: shipment.id, initialEvent: 'order.fulfil', payload: { inStock: false } }, ctx);
+    await ctx.waitUntilCallbackRegistered('awaiting:fulfilling:1');
+    ctx.submitCallback('awaiting:fulfilling:1', JSON.stringify({ event: 'inventory.reserve', payload: {} }));
+
+    expect(await run).toEqual({ urn: shipment.id, status: 'completed', state: 'shipped' });
+  });
+});
+
+describe('Parallel Regions — entity service contract', () => {
+  test('fails at startup when the entity service cannot persist region sub-states', async () => {
+    const service: IWorkflowEntity<Shipment, string> = {
+      create: async () => ({ id: 'shipment-1', status: 'pending', regions: {} }),
+      load: async () => null,
+      update: async (shipment) => shipment,
+      status: (shipment) => shipment.status,
+      urn: (shipment) => shipment.id,
+    };
+    const module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.shipment', useValue: service }],
+          workflows: [FulfilmentWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await expect(module.init()).rejects.toThrow(
+      'Workflow FulfilmentWorkflow declares parallel states but its entity service does not implement regionStatus() and updateRegion()',
+    );
+  });
+});
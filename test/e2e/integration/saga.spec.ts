@@ -0,0 +1,313 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  Entity,
+  OnCompensate,
+  OnEvent,
+  Payload,
+  RetryStrategy,
+  Workflow,
+  type ICompensationContext,
+  type IWorkflowEntity,
+} from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { InProcessWorkflowAdapter } from '@/adapter';
+import { UnretriableException } from '@/exception';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Booking {
+  id: string;
+  status: string;
+}
+
+@Injectable()
+class BookingEntityService implements IWorkflowEntity<Booking, string> {
+  readonly bookings = new Map<string, Booking>();
+
+  async create(): Promise<Booking> {
+    const booking = { id: `booking-${this.bookings.size + 1}`, status: 'pending' };
+    this.bookings.set(booking.id, booking);
+    return booking;
+  }
+
+  async load(urn: string | number): Promise<Booking | null> {
+    return this.bookings.get(String(urn)) ?? null;
+  }
+
+  async update(booking: Booking, status: string): Promise<Booking> {
+    const updated = { ...booking, status };
+    this.bookings.set(booking.id, updated);
+    return updated;
+  }
+
+  status(booking: Booking): string {
+    return booking.status;
+  }
+
+  urn(booking: Booking): string | number {
+    return booking.id;
+  }
+}
+
+@Workflow<Booking, string, string>({
+  name: 'BookingWorkflow',
+  states: { finals: ['done', 'compensated'], idles: ['pending'], failed: 'failed' },
+  transitions: [
+    { event: 'booking.start', from: ['pending'], to: 'charging' },
+    { event: 'payment.charge', from: ['charging'], to: 'reserving' },
+    { event: 'stock.reserve', from: ['reserving'], to: 'shipping' },
+    { event: 'shipment.create', from: ['shipping'], to: 'done' },
+  ],
+  saga: {
+    compensated: 'compensated',
+    retry: { maxAttempts: 2, strategy: RetryStrategy.FIXED, initialDelay: 1 },
+  },
+  entityService: 'entity.booking',
+})
+class BookingWorkflow {
+  compensations: string[] = [];
+  compensationErrors: Array<string | undefined> = [];
+  shipmentError: Error | null = new UnretriableException('Carrier rejected the parcel');
+  releaseFailures = 0;
+
+  @OnEvent('booking.start')
+  async start() {}
+
+  @OnEvent('payment.charge')
+  async charge() {
+    return { chargeId: 'ch_1' };
+  }
+
+  @OnEvent('stock.reserve')
+  async reserve() {
+    return { reservationId: 'res_1' };
+  }
+
+  @OnEvent('shipment.create')
+  async ship() {
+    if (this.shipmentError) throw this.shipmentError;
+  }
+
+  @OnCompensate('payment.charge')
+  async refund(@Entity() booking: Booking, @Payload() context: ICompensationContext) {
+    this.compensations.push(`refund ${(context.output as { chargeId: string }).chargeId} for ${booking.id}`);
+    this.compensationErrors.push(context.error?.message);
+  }
+
+  @OnCompensate('stock.reserve')
+  async release(@Payload() context: ICompensationContext) {
+    if (this.releaseFailures > 0) {
+      this.releaseFailures--;
+      throw new Error('Inventory service unavailable');
+    }
+    this.compensations.push(`release ${(context.output as { reservationId: string }).reservationId}`);
+    return { released: true };
+  }
+}
+
+describe('Saga Compensation E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let bookings: BookingEntityService;
+  let workflow: BookingWorkflow;
+
+  beforeEach(async () => {
+    bookings = new BookingEntityService();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.booking', useValue: bookings }],
+          workflows: [BookingWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+    workflow = module.get(BookingWorkflow);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('compensates completed steps in reverse order on a permanent failure', async () => {
+    const booking = await bookings.create();
+
+    const result = await new InProcessWorkflowAdapter(orchestrator).run(
+      createWorkflowEvent('booking.start', booking.id),
+    );
+
+    expect(result).toEqual({ urn: booking.id, status: 'completed', state: 'compensated' });
+    expect(workflow.compensations).toEqual(['release res_1', `refund ch_1 for ${booking.id}`]);
+    expect(bookings.bookings.get(booking.id)?.status).toBe('compensated');
+  });
+
+  test('records compensations in the history', async () => {
+    const booking = await bookings.create();
+    await new InProcessWorkflowAdapter(orchestrator).run(createWorkflowEvent('booking.start', booking.id));
+
+    const history = await orchestrator.getHistory(booking.id);
+    expect(history.slice(-3).map(({ event, handler, outcome, to }) => ({ event, handler, outcome, to }))).toEqual([
+      { event: 'stock.reserve', handler: 'release', outcome: 'compensated', to: undefined },
+      { event: 'payment.charge', handler: 'refund', outcome: 'compensated', to: undefined },
+      { event: 'shipment.create', handler: undefined, outcome: 'final', to: 'compensated' },
+    ]);
+  });
+
+  test('compensates once the adapter gives up on a retriable failure', async () => {
+    workflow.shipmentError = new Error('Carrier timeout');
+    const booking = await bookings.create();
+
+    const result = await new InProcessWorkflowAdapter(orchestrator).run(
+      createWorkflowEvent('booking.start', booking.id),
+    );
+
+    expect(result.state).toBe('compensated');
+    expect(workflow.compensations).toHaveLength(2);
+  });
+
+  test('passes the handler failure to compensators, not a later routing failure', async () => {
+    workflow.shipmentError = new Error('Carrier down');
+    const booking = await bookings.create();
+    for (const event of ['booking.start', 'payment.charge', 'stock.reserve']) {
+      await orchestrator.transit(createWorkflowEvent(event, booking.id));
+    }
+    await expect(orchestrator.transit(createWorkflowEvent('shipment.create', booking.id))).rejects.toThrow(
+      'Carrier down',
+    );
+    await expect(orchestrator.transit(createWorkflowEvent('shipment.create', booking.id))).rejects.toThrow(
+      'No matched transition for event: shipment.create, status: failed',
+    );
+
+    await orchestrator.compensate(createWorkflowEvent('shipment.create', booking.id));
+
+    expect(workflow.compensationErrors).toEqual(['Carrier down']);
+  });
+
+  test('retries a failing compensator with the saga retry policy', async () => {
+    workflow.releaseFailures = 1;
+    const booking = await bookings.create();
+
+    const result = await new InProcessWorkflowAdapter(orchestrator).run(
+      createWorkflowEvent('booking.start', booking.id),
+    );
+
+    expect(result.state).toBe('compensated');
+    expect(workflow.compensations).toEqual(['release res_1', `refund ch_1 for ${booking.id}`]);
+  });
+
+  test('stops when a compensator exhausts its retries and resumes on the next run', async () => {
+    workflow.shipmentError = new Error('Carrier timeout');
+    workflow.releaseFailures = 2;
+    const booking = await bookings.create();
+    const adapter = new InProcessWorkflowAdapter(orchestrator);
+
+    await expect(adapter.run(createWorkflowEvent('booking.start', booking.id))).rejects.toThrow(
+      'Inventory service unavailable',
+    );
+    expect(bookings.bookings.get(booking.id)?.status).toBe('failed');
+    expect(workflow.compensations).toEqual([]);
+
+    const result = await orchestrator.compensate(createWorkflowEvent('shipment.create', booking.id));
+
+    expect(result).toEqual({ status: 'final', state: 'compensated' });
+    expect(workflow.compensations).toEqual(['release res_1', `refund ch_1 for ${booking.id}`]);
+  });
+
+  test('does not compensate an event no transition matches', async () => {
+    const booking = await bookings.create();
+
+    await expect(
+      new InProcessWorkflowAdapter(orchestrator).run(createWorkflowEvent('shipment.create', booking.id)),
+    ).rejects.toThrow('No matched transition for event: shipment.create, status: pending');
+
+    expect(bookings.bookings.get(booking.id)?.status).toBe('pending');
+    expect(workflow.compensations).toEqual([]);
+  });
+
+  test('does not compensate a completed workflow on a duplicate event', async () => {
+    workflow.shipmentError = null;
+    const booking = await bookings.create();
+    const adapter = new InProcessWorkflowAdapter(orchestrator);
+    await adapter.run(createWorkflowEvent('booking.start', booking.id));
+
+    await expect(adapter.run(createWorkflowEvent('booking.start', booking.id))).rejects.toThrow(
+      'No matched transition for event: booking.start, status: done',
+    );
+
+    expect(bookings.bookings.get(booking.id)?.status).toBe('done');
+    expect(workflow.compensations).toEqual([]);
+  });
+
+  test('rejects compensating an entity that is not failed', async () => {
+    const booking = await bookings.create();
+
+    await expect(orchestrator.compensate(createWorkflowEvent('booking.start', booking.id))).rejects.toThrow(
+      `Entity ${booking.id} is in pending, not in the failed state failed`,
+    );
+  });
+
+  test('returns null for workflows without a saga config', async () => {
+    @Workflow<Booking, string, string>({
+      name: 'PlainWorkflow',
+      states: { finals: ['done'], idles: ['pending'], failed: 'failed' },
+      transitions: [{ event: 'plain.finish', from: ['pending'], to: 'done' }],
+      entityService: 'entity.booking',
+    })
+    class PlainWorkflow {
+      @OnEvent('plain.finish')
+      async finish() {}
+    }
+
+    const plainModule = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.booking', useValue: bookings }],
+          workflows: [PlainWorkflow],
+        }),
+      ],
+    }).compile();
+    await plainModule.init();
+
+    const booking = await bookings.create();
+    expect(
+      await plainModule.get(OrchestratorService).compensate(createWorkflowEvent('plain.finish', booking.id)),
+    ).toBeNull();
+    await plainModule.close();
+  });
+});
+
+describe('Saga Compensation — registration', () => {
+  test('fails at startup when @OnCompensate is used without a saga config', async () => {
+    @Workflow<Booking, string, string>({
+      name: 'UnconfiguredWorkflow',
+      states: { finals: ['done'], idles: ['pending'], failed: 'failed' },
+      transitions: [{ event: 'unconfigured.finish', from: ['pending'], to: 'done' }],
+      entityService: 'entity.booking',
+    })
+    class UnconfiguredWorkflow {
+      @OnEvent('unconfigured.finish')
+      async finish() {}
+
+      @OnCompensate('unconfigured.finish')
+      async undo() {}
+    }
+
+    const module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.booking', useValue: new BookingEntityService() }],
+          workflows: [UnconfiguredWorkflow],
+        }),
+      ],
+    }).compile();
+
+    await expect(module.init()).rejects.toThrow(
+      'Workflow UnconfiguredWorkflow declares @OnCompensate handlers but no saga config in its definition',
+    );
+  });
+});
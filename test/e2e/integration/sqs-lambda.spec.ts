@@ -0,0 +1,409 @@
+import { createHash } from 'node:crypto';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import {
+  OnEvent,
+  RetryStrategy,
+  Workflow,
+  WithRetry,
+  WORKFLOW_EVENT_PUBLISHER,
+  type IWorkflowEventPublisher,
+  type WorkflowDomainEvent,
+} from '@/core';
+import { SqsLambdaEventHandler, type ISqsClient, type ISqsRecord, type SqsWorkflowHandlerOptions } from '@/adapter';
+import { type InMemoryEntityService, WorkflowTestingModule } from '@/testing';
+
+interface Parcel {
+  id: string;
+  status: string;
+}
+
+@Workflow<Parcel, string, string>({
+  name: 'ParcelWorkflow',
+  states: {
+    finals: ['delivered'],
+    idles: ['received', 'awaiting-pickup', { state: 'held', timeout: { minutes: 30 }, onTimeout: 'parcel.release' }],
+    failed: 'failed',
+  },
+  transitions: [
+    { event: 'parcel.receive', from: ['received'], to: 'labelling' },
+    { event: 'parcel.label', from: ['labelling'], to: 'awaiting-pickup' },
+    { event: 'parcel.pickup', from: ['awaiting-pickup'], to: 'delivered' },
+    { event: 'parcel.hold', from: ['awaiting-pickup'], to: 'held' },
+    { event: 'parcel.release', from: ['held'], to: 'awaiting-pickup' },
+  ],
+  entityService: 'entity.parcel',
+})
+class ParcelWorkflow {
+  @OnEvent('parcel.receive')
+  async receive() {}
+
+  @OnEvent('parcel.label')
+  async label() {}
+
+  @OnEvent('parcel.pickup')
+  @WithRetry({ handler: 'parcel.pickup', maxAttempts: 3, strategy: RetryStrategy.FIXED, initialDelay: 30_000 })
+  async pickup() {
+    throw new Error('Courier unavailable');
+  }
+
+  @OnEvent('parcel.hold')
+  async hold() {}
+
+  @OnEvent('parcel.release')
+  async release() {}
+}
+
+@Workflow<Parcel, string, string>({
+  name: 'LetterWorkflow',
+  states: { finals: ['delivered'], idles: ['posted'], failed: 'failed' },
+  transitions: [
+    { event: 'letter.post', from: ['posted'], to: 'sorting' },
+    { event: 'letter.sort', from: ['sorting'], to: 'delivered' },
+  ],
+  entityService: 'entity.letter',
+})
+class LetterWorkflow {
+  @OnEvent('letter.post')
+  async post() {}
+
+  @OnEvent('letter.sort')
+  async sort() {}
+}
+
+@Workflow<Parcel, string, string>({
+  name: 'CustomsWorkflow',
+  states: { finals: ['cleared'], idles: ['lodged', 'held'], failed: 'rejected' },
+  transitions: [
+    { event: 'customs.lodge', from: ['lodged'], to: 'checking' },
+    { event: 'customs.check', from: ['checking'], to: 'cleared' },
+    { event: 'customs.inspect', from: ['lodged'], to: 'held' },
+    { event: 'customs.release', from: ['held'], to: 'cleared' },
+  ],
+  entityService: 'entity.customs',
+})
+class CustomsWorkflow {
+  @OnEvent('customs.lodge')
+  async lodge() {}
+
+  @OnEvent('customs.check')
+  async check() {}
+
+  @OnEvent('customs.inspect')
+  async inspect() {}
+
+  @OnEvent('customs.release')
+  async release() {}
+}
+
+@Workflow<Parcel, string, string>({
+  name: 'CrateWorkflow',
+  states: { finals: ['shipped'], idles: ['packed'], failed: 'failed' },
+  transitions: [
+    { event: 'crate.clear', from: ['packed'], to: 'clearing' },
+    { event: 'crate.inspect', from: ['packed'], to: 'inspecting' },
+    { event: 'crate.cleared', from: ['clearing', 'inspecting'], to: 'shipped' },
+  ],
+  children: [
+    { state: 'clearing', workflow: 'CustomsWorkflow', event: 'customs.lodge', onDone: 'crate.cleared' },
+    { state: 'inspecting', workflow: 'CustomsWorkflow', event: 'customs.inspect', onDone: 'crate.cleared' },
+  ],
+  entityService: 'entity.crate',
+})
+class CrateWorkflow {
+  @OnEvent('crate.clear')
+  async clear() {}
+
+  @OnEvent('crate.inspect')
+  async inspect() {}
+
+  @OnEvent('crate.cleared')
+  async cleared() {}
+}
+
+/** SQS client stand-in, recording its requests. */
+class SqsClientStub implements ISqsClient {
+  readonly sent: Array<Parameters<ISqsClient['sendMessage']>[0]> = [];
+  readonly visibilityChanges: Array<Parameters<ISqsClient['changeMessageVisibility']>[0]> = [];
+
+  async sendMessage(input: Parameters<ISqsClient['sendMessage']>[0]) {
+    this.sent.push(input);
+    return {};
+  }
+
+  async changeMessageVisibility(input: Parameters<ISqsClient['changeMessageVisibility']>[0]) {
+    this.visibilityChanges.push(input);
+    return {};
+  }
+}
+
+const QUEUE_ARN = 'arn:aws:sqs:eu-west-1:123456789012:parcels';
+const QUEUE_URL = 'https://sqs.eu-west-1.amazonaws.com/123456789012/parcels';
+
+let sequence = 0;
+const createRecord = (
+  body: object | string,
+  { receiveCount = 1, arn = QUEUE_ARN, group }: { receiveCount?: number; arn?: string; group?: string } = {},
+): ISqsRecord => ({
+  messageId: `message-${++sequence}`,
+  receiptHandle: `receipt-${sequence}`,
+  body: typeof body === 'string' ? body : JSON.stringify(body),
+  attributes: { ApproximateReceiveCount: String(receiveCount), MessageGroupId: group },
+  eventSourceARN: arn,
+});
+
+describe('SqsLambdaEventHandler', () => {
+  let testing: WorkflowTestingModule;
+  let parcels: InMemoryEntityService<Parcel>;
+  let client: SqsClientStub;
+
+  const createHandler = (options: Partial<SqsWorkflowHandlerOptions> = {}) =>
+    SqsLambdaEventHandler(testing.app, { client, ...options });
+
+  beforeEach(async () => {
+    testing = await WorkflowTestingModule.create({ workflows: [ParcelWorkflow], logger: false });
+    parcels = testing.getEntityService<Parcel>();
+    client = new SqsClientStub();
+  });
+
+  afterEach(async () => {
+    await testing.close();
+  });
+
+  test('enqueues continued events to the queue of the record', async () => {
+    const { id } = await parcels.create();
+
+    const response = await createHandler()({ Records: [createRecord({ event: 'parcel.receive', urn: id })] });
+
+    expect(response).toEqual({ batchItemFailures: [] });
+    expect(parcels.get(id)?.status).toBe('labelling');
+    expect(client.sent).toEqual([
+      {
+        QueueUrl: QUEUE_URL,
+        MessageBody: JSON.stringify({ event: 'parcel.label', workflow: 'ParcelWorkflow', urn: id, payload: undefined }),
+      },
+    ]);
+  });
+
+  test('runs continued events inline until the entity waits', async () => {
+    const { id } = await parcels.create();
+
+    const response = await createHandler({ continued: 'inline' })({
+      Records: [createRecord({ event: 'parcel.receive', urn: id })],
+    });
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(parcels.get(id)?.status).toBe('awaiting-pickup');
+    expect(client.sent).toEqual([]);
+  });
+
+  test('reports retriable failures with the @WithRetry backoff as visibility timeout', async () => {
+    const { id } = await parcels.seed({ status: 'labelling' });
+    const record = createRecord({ event: 'parcel.pickup', urn: id }, { receiveCount: 2 });
+
+    const response = await createHandler()({ Records: [record] });
+
+    expect(response.batchItemFailures).toEqual([{ itemIdentifier: record.messageId }]);
+    expect(client.visibilityChanges).toEqual([
+      { QueueUrl: QUEUE_URL, ReceiptHandle: record.receiptHandle, VisibilityTimeout: 30 },
+    ]);
+  });
+
+  test('gives up once the @WithRetry attempts are exhausted', async () => {
+    const { id } = await parcels.seed({ status: 'labelling' });
+
+    const response = await createHandler()({
+      Records: [createRecord({ event: 'parcel.pickup', urn: id }, { receiveCount: 3 })],
+    });
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(client.visibilityChanges).toEqual([]);
+    expect(parcels.get(id)?.status).toBe('labelling');
+  });
+
+  test('reports a failed handler with attempts left, leaving its entity in its state', async () => {
+    const { id } = await parcels.seed({ status: 'awaiting-pickup' });
+    const record = createRecord({ event: 'parcel.pickup', urn: id });
+
+    const response = await createHandler()({ Records: [record] });
+
+    expect(response.batchItemFailures).toEqual([{ itemIdentifier: record.messageId }]);
+    expect(client.visibilityChanges).toEqual([
+      { QueueUrl: QUEUE_URL, ReceiptHandle: record.receiptHandle, VisibilityTimeout: 30 },
+    ]);
+    expect(parcels.get(id)?.status).toBe('awaiting-pickup');
+  });
+
+  test('does not report a failed handler, whose entity is in its failed state', async () => {
+    const { id } = await parcels.seed({ status: 'awaiting-pickup' });
+
+    const response = await createHandler()({
+      Records: [createRecord({ event: 'parcel.pickup', urn: id }, { receiveCount: 3 })],
+    });
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(client.visibilityChanges).toEqual([]);
+    expect(parcels.get(id)?.status).toBe('failed');
+  });
+
+  test('leaves the visibility timeout of events without @WithRetry to the queue', async () => {
+    const { id } = await parcels.create();
+    const record = createRecord({ event: 'parcel.label', urn: id });
+
+    const response = await createHandler()({ Records: [record] });
+
+    expect(response.batchItemFailures).toEqual([{ itemIdentifier: record.messageId }]);
+    expect(client.visibilityChanges).toEqual([]);
+  });
+
+  test('sends the timeout event of a wait as a delayed message', async () => {
+    const { id } = await parcels.seed({ status: 'awaiting-pickup' });
+
+    await createHandler()({ Records: [createRecord({ event: 'parcel.hold', urn: id })] });
+
+    expect(parcels.get(id)?.status).toBe('held');
+    expect(client.sent).toEqual([expect.objectContaining({ QueueUrl: QUEUE_URL, DelaySeconds: 900 })]);
+    expect(JSON.parse(client.sent[0].MessageBody)).toMatchObject({
+      event: 'parcel.release',
+      urn: id,
+      timeout: { state: 'held', expiresAt: expect.any(Number) },
+    });
+  });
+
+  test('delays a timeout event again until its wait timed out', async () => {
+    const { id } = await parcels.seed({ status: 'held' });
+    const timeout = { state: 'held', expiresAt: Date.now() + 600_000 };
+
+    await createHandler()({ Records: [createRecord({ event: 'parcel.release', urn: id, timeout })] });
+
+    expect(parcels.get(id)?.status).toBe('held');
+    expect(client.sent).toHaveLength(1);
+    expect(client.sent[0].DelaySeconds).toBeGreaterThan(590);
+    expect(JSON.parse(client.sent[0].MessageBody)).toMatchObject({ event: 'parcel.release', timeout });
+  });
+
+  test('runs a timeout event once its wait timed out', async () => {
+    const { id } = await parcels.seed({ status: 'held' });
+    const timeout = { state: 'held', expiresAt: Date.now() - 1 };
+
+    await createHandler()({ Records: [createRecord({ event: 'parcel.release', urn: id, timeout })] });
+
+    expect(parcels.get(id)?.status).toBe('awaiting-pickup');
+  });
+
+  test('drops the timeout event of a wait the entity left', async () => {
+    const { id } = await parcels.seed({ status: 'awaiting-pickup' });
+    const timeout = { state: 'held', expiresAt: Date.now() - 1 };
+
+    const response = await createHandler()({
+      Records: [createRecord({ event: 'parcel.release', urn: id, timeout })],
+    });
+
+    expect(response.batchItemFailures).toEqual([]);
+    expect(client.sent).toEqual([]);
+  });
+
+  test('fails to create a handler for a FIFO queue when a workflow waits with a timeout', () => {
+    expect(() => createHandler({ queueUrl: `${QUEUE_URL}.fifo` })).toThrow(
+      `Workflows ParcelWorkflow wait with a timeout, whose onTimeout event FIFO queue ${QUEUE_URL}.fifo cannot delay`,
+    );
+  });
+
+  test('rejects FIFO records before running an event when a workflow waits with a timeout', async () => {
+    const { id } = await parcels.seed({ status: 'awaiting-pickup' });
+
+    const invocation = createHandler()({
+      Records: [createRecord({ event: 'parcel.hold', urn: id }, { arn: `${QUEUE_ARN}.fifo`, group: 'parcels' })],
+    });
+
+    await expect(invocation).rejects.toThrow(`FIFO queue ${QUEUE_URL}.fifo cannot delay`);
+    expect(parcels.get(id)?.status).toBe('awaiting-pickup');
+    expect(client.sent).toEqual([]);
+  });
+
+  describe('child workflows', () => {
+    let crates: InMemoryEntityService<Parcel>;
+    let customs: InMemoryEntityService<Parcel>;
+
+    beforeEach(async () => {
+      await testing.close();
+      testing = await WorkflowTestingModule.create({ workflows: [CrateWorkflow, CustomsWorkflow], logger: false });
+      crates = testing.getEntityService<Parcel>('CrateWorkflow');
+      customs = testing.getEntityService<Parcel>('CustomsWorkflow');
+    });
+
+    test('runs the continued events of a child inline and resumes its parent', async () => {
+      const { id } = await crates.create();
+
+      const response = await createHandler()({ Records: [createRecord({ event: 'crate.clear', urn: id })] });
+
+      expect(response.batchItemFailures).toEqual([]);
+      expect(crates.get(id)?.status).toBe('shipped');
+      expect(client.sent).toEqual([]);
+    });
+
+    test('does not support children waiting for an external event', async () => {
+      const { id } = await crates.create();
+
+      const response = await createHandler()({ Records: [createRecord({ event: 'crate.inspect', urn: id })] });
+
+      // The message is not redelivered: its event could not move the parent waiting for the child again
+      expect(response.batchItemFailures).toEqual([]);
+      expect(crates.get(id)?.status).toBe('inspecting');
+      expect(customs.all().map((c) => c.status)).toEqual(['held']);
+    });
+  });
+
+  test('delivers the domain events of the batch before returning', async () => {
+    const published: WorkflowDomainEvent[] = [];
+    const publisher: IWorkflowEventPublisher = {
+      publish: async (event) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        published.push(event);
+      },
+    };
+    await testing.close();
+    testing = await WorkflowTestingModule.create({
+      workflows: [ParcelWorkflow],
+      logger: false,
+      providers: [{ provide: WORKFLOW_EVENT_PUBLISHER, useValue: publisher }],
+    });
+    const { id } = await testing.getEntityService<Parcel>().create();
+
+    await createHandler()({ Records: [createRecord({ event: 'parcel.receive', urn: id })] });
+
+    expect(published.map((e) => e.type)).toEqual(['transition.started', 'state.entered', 'transition.completed']);
+  });
+
+  test('does not report messages that are not workflow events', async () => {
+    const response = await createHandler()({ Records: [createRecord('not json')] });
+
+    expect(response.batchItemFailures).toEqual([]);
+  });
+
+  test('keeps the order of FIFO queues', async () => {
+    await testing.close();
+    testing = await WorkflowTestingModule.create({ workflows: [LetterWorkflow], logger: false });
+    const letters = testing.getEntityService<Parcel>();
+    const arn = `${QUEUE_ARN}.fifo`;
+    const failing = await letters.create();
+    const next = await letters.create();
+    const records = [
+      createRecord({ event: 'letter.sort', urn: failing.id }, { arn, group: 'letters' }),
+      createRecord({ event: 'letter.post', urn: next.id }, { arn, group: 'letters' }),
+    ];
+
+    const response = await createHandler()({ Records: records });
+
+    expect(response.batchItemFailures).toEqual(records.map((r) => ({ itemIdentifier: r.messageId })));
+    expect(letters.get(next.id)?.status).toBe('posted');
+
+    await createHandler()({ Records: [records[1]] });
+    expect(client.sent).toEqual([
+      expect.objectContaining({
+        QueueUrl: `${QUEUE_URL}.fifo`,
+        MessageGroupId: 'letters',
+        MessageDeduplicationId: createHash('sha256').update(`${records[1].messageId}:0:letter.sort`).digest('hex'),
+      }),
+    ]);
+  });
+});
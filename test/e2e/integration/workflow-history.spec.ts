@@ -0,0 +1,134 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { InMemoryWorkflowHistoryStore } from '@/core/providers/history.store';
+import type { IWorkflowHistoryRecord, IWorkflowHistoryStore } from '@/core';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+import { OrderWorkflow, OrderEvent, ORDER_ENTITY_TOKEN } from '../workflows/order-processing/order.workflow';
+import { OrderEntityService, OrderState } from '../workflows/order-processing/order.entity';
+
+describe('Workflow History E2E', () => {
+  let module: TestingModule;
+  let orchestrator: OrchestratorService;
+  let entityService: OrderEntityService;
+  let historyStore: InMemoryWorkflowHistoryStore;
+
+  beforeEach(async () => {
+    entityService = new OrderEntityService();
+    historyStore = new InMemoryWorkflowHistoryStore();
+
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: ORDER_ENTITY_TOKEN, useValue: entityService }],
+          workflows: [OrderWorkflow],
+          historyStore,
+        }),
+      ],
+    }).compile();
+
+    await module.init();
+    orchestrator = module.get(OrchestratorService);
+  });
+
+  afterEach(async () => {
+    entityService.clear();
+    historyStore.clear();
+    await module.close();
+  });
+
+  test('records successful transitions in order', async () => {
+    const order = await entityService.create();
+    order.items = [{ name: 'Product 1', quantity: 1, price: 50 }];
+    await entityService.update(order, OrderState.PENDING);
+
+    await orchestrator.transit(createWorkflowEvent(OrderEvent.CREATED, order.id, { approved: true }));
+    await orchestrator.transit(createWorkflowEvent(OrderEvent.PROCESSING, order.id));
+
+    const history = await orchestrator.getHistory(order.id);
+    expect(history).toHaveLength(2);
+    expect(history[0]).toMatchObject({
+      urn: order.id,
+      workflow: 'OrderWorkflow',
+      event: OrderEvent.CREATED,
+      from: OrderState.PENDING,
+      to: OrderState.PROCESSING,
+      outcome: 'no_transition',
+      payload: { approved: true },
+    });
+    expect(history[0].output).toHaveProperty('processedAt');
+    expect(history[0].durationMs).toBeGreaterThanOrEqual(0);
+    expect(history[1]).toMatchObject({
+      event: OrderEvent.PROCESSING,
+      from: OrderState.PROCESSING,
+      to: OrderState.SHIPPED,
+      outcome: 'final',
+    });
+  });
+
+  test('records idle transits when conditions are not met', async () => {
+    const order = await entityService.create();
+    order.items = [{ name: 'Product 1', quantity: 1, price: 50 }];
+
+    await orchestrator.transit(createWorkflowEvent(OrderEvent.CREATED, order.id, { approved: false }));
+
+    const [record] = await orchestrator.getHistory(order.id);
+    expect(record).toMatchObject({ outcome: 'idle', from: OrderState.PENDING, to: OrderState.PENDING });
+    expect(record.output).toBeUndefined();
+  });
+
+  test('records failed transits with the error', async () => {
+    const order = await entityService.create();
+
+    await orchestrator.transit(createWorkflowEvent(OrderEvent.CREATED, order.id, { approved: true }));
+
+    const [record] = await orchestrator.getHistory(order.id);
+    expect(record).toMatchObject({
+      outcome: 'failed',
+      from: OrderState.PENDING,
+      to: OrderState.FAILED,
+      error: { name: 'UnretriableException', message: 'Order must have at least one item' },
+    });
+  });
+
+  test('records rejected events as failed without a target state', async () => {
+    const order = await entityService.create();
+    await entityService.update(order, OrderState.SHIPPED);
+
+    await expect(orchestrator.transit(createWorkflowEvent(OrderEvent.CANCELLED, order.id))).rejects.toThrow();
+
+    const [record] = await orchestrator.getHistory(order.id);
+    expect(record.outcome).toBe('failed');
+    expect(record.to).toBeUndefined();
+    expect(record.error?.message).toContain('No matched transition');
+  });
+
+  test('does not fail the transit when the history store throws', async () => {
+    const failingStore: IWorkflowHistoryStore = {
+      append: async () => {
+        throw new Error('store unavailable');
+      },
+      getHistory: async (): Promise<IWorkflowHistoryRecord[]> => [],
+    };
+    const failingModule = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: ORDER_ENTITY_TOKEN, useValue: entityService }],
+          workflows: [OrderWorkflow],
+          historyStore: failingStore,
+        }),
+      ],
+    }).compile();
+    await failingModule.init();
+
+    const order = await entityService.create();
+    order.items = [{ name: 'Product 1', quantity: 1, price: 50 }];
+    const result = await failingModule
+      .get(OrchestratorService)
+      .transit(createWorkflowEvent(OrderEvent.CREATED, order.id, { approved: true }));
+
+    expect(result.status).toBe('no_transition');
+    await failingModule.close();
+  });
+});
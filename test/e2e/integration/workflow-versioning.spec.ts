@@ -0,0 +1,311 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  Entity,
+  OnEvent,
+  OnMigrate,
+  Payload,
+  Workflow,
+  WorkflowRegistry,
+  type IWorkflowEntity,
+  type IWorkflowMigration,
+} from '@/core';
+import { WorkflowModule } from '@/core/workflow.module';
+import { OrchestratorService } from '@/core/providers/orchestrator.service';
+import { createWorkflowEvent } from '../fixtures/test-helpers';
+
+interface Expense {
+  id: string;
+  status: string;
+  version?: number;
+}
+
+@Injectable()
+class ExpenseEntityService implements IWorkflowEntity<Expense, string> {
+  readonly expenses = new Map<string, Expense>();
+
+  async create(): Promise<Expense> {
+    const expense = { id: `expense-${this.expenses.size + 1}`, status: 'submitted' };
+    this.expenses.set(expense.id, expense);
+    return expense;
+  }
+
+  async load(urn: string | number): Promise<Expense | null> {
+    return this.expenses.get(String(urn)) ?? null;
+  }
+
+  async update(expense: Expense, status: string): Promise<Expense> {
+    const updated = { ...expense, status };
+    this.expenses.set(expense.id, updated);
+    return updated;
+  }
+
+  status(expense: Expense): string {
+    return expense.status;
+  }
+
+  version(expense: Expense): number | undefined {
+    return expense.version;
+  }
+
+  async updateVersion(expense: Expense, version: number): Promise<Expense> {
+    const updated = { ...expense, version };
+    this.expenses.set(expense.id, updated);
+    return updated;
+  }
+
+  urn(expense: Expense): string | number {
+    return expense.id;
+  }
+}
+
+/** Every expense goes through a review. */
+@Workflow({
+  name: 'ExpenseWorkflow',
+  version: 1,
+  states: { finals: ['approved', 'rejected'], idles: ['submitted', 'review'], failed: 'failed' },
+  transitions: [
+    { event: 'expense.review', from: ['submitted'], to: 'review' },
+    { event: 'expense.approve', from: ['review'], to: 'approved' },
+    { event: 'expense.reject', from: ['submitted', 'review'], to: 'rejected' },
+  ],
+  entityService: 'entity.expense',
+})
+class ExpenseWorkflowV1 {
+  @OnEvent('expense.review')
+  async review() {}
+
+  @OnEvent('expense.approve')
+  async approve() {}
+
+  @OnEvent('expense.reject')
+  async reject() {}
+}
+
+/** Expenses are approved straight away, unless escalated to a manual review. */
+@Workflow({
+  name: 'ExpenseWorkflow',
+  version: 2,
+  states: { finals: ['approved', 'rejected'], idles: ['submitted', 'manual-review'], failed: 'failed' },
+  transitions: [
+    { event: 'expense.approve', from: ['submitted', 'manual-review'], to: 'approved' },
+    { event: 'expense.escalate', from: ['submitted'], to: 'manual-review' },
+    { event: 'expense.reject', from: ['submitted', 'manual-review'], to: 'rejected' },
+  ],
+  entityService: 'entity.expense',
+})
+class ExpenseWorkflowV2 {
+  readonly migrations: IWorkflowMigration[] = [];
+
+  @OnEvent('expense.approve')
+  async approve() {}
+
+  @OnEvent('expense.escalate')
+  async escalate() {}
+
+  @OnEvent('expense.reject')
+  async reject() {}
+
+  @OnMigrate(1)
+  async fromV1(@Entity() _expense: Expense, @Payload() migration: IWorkflowMigration) {
+    this.migrations.push(migration);
+    return migration.state === 'review' ? 'manual-review' : undefined;
+  }
+}
+
+describe('Workflow Versioning E2E', () => {
+  let module: TestingModule | undefined;
+  let expenses: ExpenseEntityService;
+
+  const boot = async (workflows: Array<new () => object>, entityService: object = new ExpenseEntityService()) => {
+    const compiled = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.expense', useValue: entityService }],
+          workflows,
+        }),
+      ],
+    }).compile();
+    await compiled.init();
+    module = compiled;
+    return compiled.get(OrchestratorService);
+  };
+
+  const start = async (version?: number) => {
+    const expense = await expenses.create();
+    expenses.expenses.set(expense.id, { ...expense, version });
+    return expense.id;
+  };
+
+  afterEach(async () => {
+    await module?.close();
+    module = undefined;
+  });
+
+  describe('pinning', () => {
+    let orchestrator: OrchestratorService;
+
+    const bootBothVersions = async () => {
+      expenses = new ExpenseEntityService();
+      orchestrator = await boot([ExpenseWorkflowV1, ExpenseWorkflowV2], expenses);
+    };
+
+    test('pins a new entity to the latest version on its first event', async () => {
+      await bootBothVersions();
+      const urn = await start();
+
+      const result = await orchestrator.transit(createWorkflowEvent('expense.approve', urn));
+
+      expect(result).toEqual({ status: 'final', state: 'approved' });
+      expect(expenses.expenses.get(urn)?.version).toBe(2);
+      expect((await orchestrator.getHistory(urn)).map((r) => r.version)).toEqual([2]);
+    });
+
+    test('routes an entity through the version it is pinned to', async () => {
+      await bootBothVersions();
+      const urn = await start(1);
+
+      await expect(orchestrator.transit(createWorkflowEvent('expense.approve', urn))).rejects.toThrow(
+        'No matched transition for event: expense.approve, status: submitted',
+      );
+      expect(await orchestrator.availableEvents(urn, 'ExpenseWorkflow')).toEqual(['expense.review', 'expense.reject']);
+
+      await orchestrator.transit(createWorkflowEvent('expense.review', urn));
+      expect(expenses.expenses.get(urn)?.status).toBe('review');
+    });
+
+    test('rejects events the pinned version does not handle', async () => {
+      await bootBothVersions();
+      const urn = await start(2);
+
+      await expect(orchestrator.transit(createWorkflowEvent('expense.review', urn))).rejects.toThrow(
+        'No workflow found for event: expense.review in workflow: ExpenseWorkflow (version 2)',
+      );
+      await expect(orchestrator.transit(createWorkflowEvent('expense.escalate', await start(1)))).rejects.toThrow(
+        'No workflow found for event: expense.escalate in workflow: ExpenseWorkflow (version 1)',
+      );
+    });
+
+    test('does not pin entities on dry runs', async () => {
+      await bootBothVersions();
+      const urn = await start();
+
+      expect((await orchestrator.canTransit(urn, 'expense.escalate')).allowed).toBe(true);
+      expect(expenses.expenses.get(urn)?.version).toBeUndefined();
+    });
+
+    test('exposes every version through the registry', async () => {
+      await bootBothVersions();
+      const registry = module!.get(WorkflowRegistry);
+
+      expect(registry.getVersions('ExpenseWorkflow').map((w) => w.workflowClass)).toEqual([
+        ExpenseWorkflowV1,
+        ExpenseWorkflowV2,
+      ]);
+      expect(registry.getWorkflow('ExpenseWorkflow')?.version).toBe(2);
+      expect(registry.getWorkflow('ExpenseWorkflow', 1)?.workflowClass).toBe(ExpenseWorkflowV1);
+      expect(registry.getWorkflow('ExpenseWorkflow')?.migrations).toEqual([{ from: 1, name: 'fromV1' }]);
+    });
+  });
+
+  describe('migrate', () => {
+    let orchestrator: OrchestratorService;
+
+    const bootBothVersions = async () => {
+      expenses = new ExpenseEntityService();
+      orchestrator = await boot([ExpenseWorkflowV1, ExpenseWorkflowV2], expenses);
+    };
+
+    test('moves an entity to the latest version through its @OnMigrate hook', async () => {
+      await bootBothVersions();
+      const urn = await start(1);
+      await orchestrator.transit(createWorkflowEvent('expense.review', urn));
+
+      const migration = await orchestrator.migrate(urn, 'ExpenseWorkflow');
+
+      expect(migration).toEqual({ workflow: 'ExpenseWorkflow', from: 1, to: 2, state: 'manual-review' });
+      expect(module!.get(ExpenseWorkflowV2).migrations).toEqual([
+        { workflow: 'ExpenseWorkflow', from: 1, to: 2, state: 'review' },
+      ]);
+      expect(expenses.expenses.get(urn)).toMatchObject({ status: 'manual-review', version: 2 });
+      expect((await orchestrator.getHistory(urn)).at(-1)).toMatchObject({
+        event: 'workflow.migrate',
+        version: 2,
+        from: 'review',
+        to: 'manual-review',
+        outcome: 'migrated',
+      });
+
+      expect(await orchestrator.transit(createWorkflowEvent('expense.approve', urn))).toEqual({
+        status: 'final',
+        state: 'approved',
+      });
+    });
+
+    test('keeps the state when the hook returns nothing', async () => {
+      await bootBothVersions();
+      const urn = await start(1);
+
+      expect((await orchestrator.migrate(urn, 'ExpenseWorkflow', 2)).state).toBe('submitted');
+      expect(expenses.expenses.get(urn)).toMatchObject({ status: 'submitted', version: 2 });
+    });
+
+    test('rejects states that do not exist in the new version', async () => {
+      await bootBothVersions();
+      const urn = await start(1);
+      expenses.expenses.set(urn, { id: urn, status: 'failed-review', version: 1 });
+
+      await expect(orchestrator.migrate(urn, 'ExpenseWorkflow')).rejects.toThrow(
+        'State failed-review of entity expense-1 does not exist in version 2 of workflow ExpenseWorkflow',
+      );
+      expect(expenses.expenses.get(urn)?.version).toBe(1);
+    });
+
+    test('rejects unknown versions and downgrades', async () => {
+      await bootBothVersions();
+      const urn = await start(2);
+
+      await expect(orchestrator.migrate(urn, 'ExpenseWorkflow', 3)).rejects.toThrow(
+        'Version 3 of workflow ExpenseWorkflow is not registered',
+      );
+      await expect(orchestrator.migrate(urn, 'ExpenseWorkflow', 1)).rejects.toThrow(
+        'Entity expense-1 is pinned to version 2 of workflow ExpenseWorkflow, which is newer than version 1',
+      );
+    });
+  });
+
+  describe('module initialisation', () => {
+    test('fails when the entity service cannot pin entities', async () => {
+      const unversioned: IWorkflowEntity<Expense, string> = {
+        create: async () => ({ id: 'expense-1', status: 'submitted' }),
+        load: async () => null,
+        update: async (expense) => expense,
+        status: (expense) => expense.status,
+        urn: (expense) => expense.id,
+      };
+
+      await expect(boot([ExpenseWorkflowV1, ExpenseWorkflowV2], unversioned)).rejects.toThrow(
+        'Workflow ExpenseWorkflow is registered in several versions (1, 2) but its entity service does not implement version() and updateVersion()',
+      );
+    });
+
+    test('fails on two classes declaring the same version', async () => {
+      @Workflow({
+        name: 'ExpenseWorkflow',
+        version: 2,
+        states: { finals: ['approved'], idles: ['submitted'], failed: 'failed' },
+        transitions: [{ event: 'expense.approve', from: ['submitted'], to: 'approved' }],
+        entityService: 'entity.expense',
+      })
+      class ExpenseWorkflowV2Copy {
+        @OnEvent('expense.approve')
+        async approve() {}
+      }
+
+      await expect(boot([ExpenseWorkflowV2, ExpenseWorkflowV2Copy])).rejects.toThrow(
+        'Duplicate workflow name detected: ExpenseWorkflow (version 2)',
+      );
+    });
+  });
+});
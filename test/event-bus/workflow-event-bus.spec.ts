@@ -0,0 +1,275 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Workflow, WORKFLOW_EVENT_PUBLISHER, type IWorkflowEventPublisher } from '@/core';
+import {
+  InProcessEventTransport,
+  WorkflowEventBus,
+  WorkflowEventBusModule,
+  type IWorkflowEventTransport,
+  type WorkflowDomainEvent,
+  type WorkflowEventTransportRef,
+} from '@/event-bus';
+import { UnretriableException } from '@/exception';
+import { WorkflowTestingModule } from '@/testing';
+
+interface Invoice {
+  id: string;
+  status: string;
+}
+
+@Workflow<Invoice, string, string>({
+  name: 'InvoiceWorkflow',
+  states: { finals: ['paid'], idles: ['draft', 'sent'], failed: 'failed' },
+  transitions: [
+    { event: 'invoice.send', from: ['draft'], to: 'sent' },
+    { event: 'invoice.pay', from: ['sent'], to: 'paid' },
+    { event: 'invoice.void', from: ['sent'], to: 'paid' },
+    { event: 'invoice.remind', from: ['sent'], to: 'sent' },
+  ],
+  entityService: 'entity.invoice',
+})
+class InvoiceWorkflow {
+  @OnEvent('invoice.send')
+  async send() {
+    return { sentTo: 'billing@example.com' };
+  }
+
+  @OnEvent('invoice.pay')
+  async pay() {}
+
+  @OnEvent('invoice.void')
+  async void() {
+    throw new UnretriableException('Invoice cannot be voided');
+  }
+
+  @OnEvent('invoice.remind')
+  async remind() {
+    throw new Error('Mail server unavailable');
+  }
+}
+
+/** Broker transport stand-in, recording what it publishes. */
+class RecordingTransport implements IWorkflowEventTransport {
+  static readonly published: WorkflowDomainEvent[] = [];
+
+  async publish(event: WorkflowDomainEvent) {
+    RecordingTransport.published.push(event);
+  }
+}
+
+describe('WorkflowEventBus', () => {
+  let testing: WorkflowTestingModule | undefined;
+  let events: WorkflowDomainEvent[];
+
+  const boot = async (transports?: WorkflowEventTransportRef[]) => {
+    testing = await WorkflowTestingModule.create({
+      imports: [WorkflowEventBusModule.forRoot({ transports })],
+      workflows: [InvoiceWorkflow],
+    });
+    events = [];
+    return testing;
+  };
+  const subscribeAll = (app: WorkflowTestingModule) => {
+    app.app.get(WorkflowEventBus).subscribe('*', (event) => {
+      events.push(event);
+    });
+  };
+  const createInvoice = async (app: WorkflowTestingModule) => (await app.getEntityService<Invoice>().create()).id;
+
+  afterEach(async () => {
+    await testing?.close();
+    testing = undefined;
+  });
+
+  test('publishes the domain events of every transition', async () => {
+    const app = await boot();
+    subscribeAll(app);
+    const urn = await createInvoice(app);
+
+    await app.scenario(urn).send('invoice.send').expectIdle({ state: 'sent' }).send('invoice.pay').run();
+
+    expect(events.map((e) => e.type)).toEqual([
+      'transition.started',
+      'state.entered',
+      'transition.completed',
+      'transition.started',
+      'state.entered',
+      'transition.completed',
+      'workflow.completed',
+    ]);
+    expect(events[0]).toMatchObject({
+      type: 'transition.started',
+      urn,
+      workflow: 'InvoiceWorkflow',
+      event: 'invoice.send',
+      from: 'draft',
+      to: 'sent',
+      handler: 'send',
+      attempt: 0,
+    });
+    expect(events[2]).toMatchObject({
+      type: 'transition.completed',
+      from: 'draft',
+      to: 'sent',
+      outcome: 'idle',
+      output: { sentTo: 'billing@example.com' },
+    });
+    expect(events[4]).toMatchObject({ type: 'state.entered', state: 'paid', from: 'sent', event: 'invoice.pay' });
+    expect(events[6]).toMatchObject({ type: 'workflow.completed', urn, state: 'paid' });
+    expect(events[6].occurredAt).toBeInstanceOf(Date);
+  });
+
+  test('publishes failed transitions and the failed state', async () => {
+    const app = await boot();
+    subscribeAll(app);
+    const urn = await createInvoice(app);
+    await app.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 });
+    events.length = 0;
+
+    await expect(app.orchestrator.transit({ event: 'invoice.remind', urn, attempt: 0 })).rejects.toThrow(
+      'Mail server unavailable',
+    );
+
+    expect(events.map((e) => e.type)).toEqual(['transition.started', 'state.entered', 'transition.failed']);
+    expect(events[2]).toMatchObject({
+      from: 'sent',
+      to: 'failed',
+      handler: 'remind',
+      error: { name: 'Error', message: 'Mail server unavailable' },
+      retriable: true,
+    });
+  });
+
+  test('completes the workflow in the failed state on an unretriable error', async () => {
+    const app = await boot();
+    subscribeAll(app);
+    const urn = await createInvoice(app);
+    await app.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 });
+    events.length = 0;
+
+    await app.orchestrator.transit({ event: 'invoice.void', urn, attempt: 0 });
+
+    expect(events.slice(2)).toMatchObject([
+      { type: 'transition.failed', to: 'failed', retriable: false },
+      { type: 'workflow.completed', state: 'failed' },
+    ]);
+  });
+
+  test('delivers events of the subscribed type until unsubscribed', async () => {
+    const app = await boot();
+    const entered: string[] = [];
+    const unsubscribe = app.app.get(WorkflowEventBus).subscribe('state.entered', (event) => {
+      entered.push(String(event.state));
+    });
+    const urn = await createInvoice(app);
+
+    await app.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 });
+    unsubscribe();
+    await app.orchestrator.transit({ event: 'invoice.pay', urn, attempt: 0 });
+
+    expect(entered).toEqual(['sent']);
+  });
+
+  test('publishes through transport classes and instances', async () => {
+    RecordingTransport.published.length = 0;
+    const app = await boot([new InProcessEventTransport(), RecordingTransport]);
+    subscribeAll(app);
+    const urn = await createInvoice(app);
+
+    await app.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 });
+
+    expect(RecordingTransport.published).toHaveLength(3);
+    expect(events).toEqual(RecordingTransport.published);
+  });
+
+  test('never fails a transit because a handler of the bus failed', async () => {
+    const app = await boot();
+    app.app.get(WorkflowEventBus).subscribe('transition.completed', () => {
+      throw new Error('Handler failed');
+    });
+    const urn = await createInvoice(app);
+
+    await app.scenario(urn).send('invoice.send').expectState('sent').run();
+  });
+
+  test('does not wait for the handlers of the bus', async () => {
+    const app = await boot();
+    app.app.get(WorkflowEventBus).subscribe('transition.completed', () => new Promise<void>(() => {}));
+    const urn = await createInvoice(app);
+
+    expect(await app.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 })).toMatchObject({
+      status: 'idle',
+    });
+  });
+
+  test('publishes through any provider of the publisher token', async () => {
+    const published: WorkflowDomainEvent[] = [];
+    const publisher: IWorkflowEventPublisher = {
+      publish: async (event) => {
+        published.push(event);
+      },
+    };
+    testing = await WorkflowTestingModule.create({
+      workflows: [InvoiceWorkflow],
+      providers: [{ provide: WORKFLOW_EVENT_PUBLISHER, useValue: publisher }],
+    });
+    const urn = await createInvoice(testing);
+
+    await testing.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 });
+
+    expect(published.map((e) => e.type)).toEqual(['transition.started', 'state.entered', 'transition.completed']);
+  });
+
+  test('flushes the events still in flight', async () => {
+    const published: WorkflowDomainEvent[] = [];
+    const publisher: IWorkflowEventPublisher = {
+      publish: async (event) => {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        published.push(event);
+      },
+    };
+    testing = await WorkflowTestingModule.create({
+      workflows: [InvoiceWorkflow],
+      providers: [{ provide: WORKFLOW_EVENT_PUBLISHER, useValue: publisher }],
+    });
+    const urn = await createInvoice(testing);
+
+    await testing.orchestrator.transit({ event: 'invoice.send', urn, attempt: 0 });
+    expect(published).toEqual([]);
+    await testing.orchestrator.flushEvents();
+
+    expect(published.map((e) => e.type)).toEqual(['transition.started', 'state.entered', 'transition.completed']);
+  });
+
+  test('rejects subscriptions when no transport delivers events to the process', async () => {
+    const app = await boot([RecordingTransport]);
+
+    expect(() => app.app.get(WorkflowEventBus).subscribe('*', () => {})).toThrow(
+      'None of the transports of the workflow event bus delivers events to this process',
+    );
+  });
+});
+
+describe('InProcessEventTransport', () => {
+  test('runs every handler and rethrows their errors together', async () => {
+    const transport = new InProcessEventTransport();
+    const received: string[] = [];
+    transport.subscribe(() => {
+      throw new Error('first');
+    });
+    transport.subscribe((event) => {
+      received.push(event.type);
+    });
+
+    const event: WorkflowDomainEvent = {
+      type: 'workflow.completed',
+      urn: 'invoice-1',
+      workflow: 'InvoiceWorkflow',
+      event: 'invoice.pay',
+      state: 'paid',
+      occurredAt: new Date(),
+    };
+
+    await expect(transport.publish(event)).rejects.toThrow('1 handler(s) of workflow.completed failed');
+    expect(received).toEqual(['workflow.completed']);
+  });
+});
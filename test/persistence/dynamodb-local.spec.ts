@@ -0,0 +1,139 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { CreateTableCommand, DeleteTableCommand, DynamoDBClient, ListTablesCommand } from '@aws-sdk/client-dynamodb';
+import { DynamoDBDocument } from '@aws-sdk/lib-dynamodb';
+import { OnEvent, Workflow } from '@/core';
+import { WorkflowConflictException } from '@/exception';
+import { DynamoDbWorkflowEntity } from '@/persistence';
+import { WorkflowTestingModule } from '@/testing';
+
+interface Shipment {
+  pk: string;
+  status: string;
+  revision?: number;
+  updatedAt?: string;
+  lastEvent?: string;
+}
+
+@Workflow<Shipment, string, string>({
+  name: 'ShipmentWorkflow',
+  states: { finals: ['delivered'], idles: ['packed', 'shipped'], failed: 'failed' },
+  transitions: [
+    { event: 'shipment.ship', from: ['packed'], to: 'shipped' },
+    { event: 'shipment.deliver', from: ['shipped'], to: 'delivered' },
+  ],
+  entityService: 'entity.shipment',
+})
+class ShipmentWorkflow {
+  @OnEvent('shipment.ship')
+  async ship() {}
+
+  @OnEvent('shipment.deliver')
+  async deliver() {}
+}
+
+/** DynamoDB Local, e.g. `docker run -p 8000:8000 amazon/dynamodb-local`. */
+const dynamodb = new DynamoDBClient({
+  endpoint: process.env.DYNAMODB_ENDPOINT ?? 'http://localhost:8000',
+  region: 'local',
+  credentials: { accessKeyId: 'local', secretAccessKey: 'local' },
+  maxAttempts: 1,
+  requestHandler: { connectionTimeout: 1_000, requestTimeout: 5_000 },
+});
+const available = await dynamodb.send(new ListTablesCommand({ Limit: 1 })).then(
+  () => true,
+  () => false,
+);
+
+describe.skipIf(!available)('DynamoDbWorkflowEntity on DynamoDB Local', () => {
+  const tableName = `shipments-${Date.now()}`;
+  const documents = DynamoDBDocument.from(dynamodb);
+  let testing: WorkflowTestingModule | undefined;
+
+  const createService = (options: { revisionField?: 'revision' } = {}) =>
+    new DynamoDbWorkflowEntity<Shipment, string>(documents, {
+      tableName,
+      idField: 'pk',
+      initialStatus: 'packed',
+      ...options,
+    });
+
+  beforeAll(async () => {
+    await dynamodb.send(
+      new CreateTableCommand({
+        TableName: tableName,
+        KeySchema: [{ AttributeName: 'pk', KeyType: 'HASH' }],
+        AttributeDefinitions: [{ AttributeName: 'pk', AttributeType: 'S' }],
+        BillingMode: 'PAY_PER_REQUEST',
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await testing?.close();
+    await dynamodb.send(new DeleteTableCommand({ TableName: tableName }));
+    dynamodb.destroy();
+  });
+
+  test('moves items through a workflow with conditional updates and transition metadata', async () => {
+    const shipments = createService();
+    testing = await WorkflowTestingModule.create({
+      entities: [{ provide: 'entity.shipment', useValue: shipments }],
+      workflows: [ShipmentWorkflow],
+    });
+    const { pk } = await shipments.create();
+
+    await testing.scenario(pk).send('shipment.ship').send('shipment.deliver').expectFinal('delivered').run();
+
+    const { Item } = await documents.get({ TableName: tableName, Key: { pk } });
+    expect(Item).toMatchObject({ pk, status: 'delivered', lastEvent: 'shipment.deliver' });
+    expect(Date.parse(String(Item!.updatedAt))).not.toBeNaN();
+  });
+
+  test('creates items only if their key is free', async () => {
+    const shipments = createService();
+    const { pk } = await shipments.create();
+    const duplicate = new DynamoDbWorkflowEntity<Shipment, string>(documents, {
+      tableName,
+      idField: 'pk',
+      initialStatus: 'packed',
+      generateUrn: () => pk,
+    });
+
+    await expect(duplicate.create()).rejects.toMatchObject({ name: 'ConditionalCheckFailedException' });
+  });
+
+  test('maps failed status conditions to a workflow conflict', async () => {
+    const shipments = createService();
+    const shipment = await shipments.create();
+    await shipments.update(shipment, 'shipped', { expectedStatus: 'packed', event: 'shipment.ship' });
+
+    const conflict = shipments.update(shipment, 'shipped', { expectedStatus: 'packed', event: 'shipment.ship' });
+
+    await expect(conflict).rejects.toThrow(WorkflowConflictException);
+    await expect(conflict).rejects.toMatchObject({ urn: shipment.pk, expectedStatus: 'packed' });
+  });
+
+  test('does not create missing items on update', async () => {
+    const shipments = createService();
+
+    await expect(
+      shipments.update({ pk: 'shipment-404', status: 'packed' }, 'shipped', {
+        expectedStatus: 'packed',
+        event: 'shipment.ship',
+      }),
+    ).rejects.toThrow(WorkflowConflictException);
+    expect(await shipments.load('shipment-404')).toBeNull();
+  });
+
+  test('checks and increments the revision of the item', async () => {
+    const shipments = createService({ revisionField: 'revision' });
+    const shipment = await shipments.create();
+    const context = { expectedStatus: 'packed', event: 'shipment.ship' };
+
+    const updated = await shipments.update(shipment, 'packed', context);
+    expect(updated.revision).toBe(1);
+
+    await expect(shipments.update(shipment, 'shipped', context)).rejects.toThrow(WorkflowConflictException);
+    expect(await shipments.update(updated, 'shipped', context)).toMatchObject({ status: 'shipped', revision: 2 });
+  });
+});
@@ -0,0 +1,185 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Workflow } from '@/core';
+import { WorkflowConflictException } from '@/exception';
+import { DynamoDbWorkflowEntity, type IDynamoDbDocumentClient } from '@/persistence';
+import { WorkflowTestingModule } from '@/testing';
+
+interface Shipment {
+  pk: string;
+  status: string;
+  revision?: number;
+  updatedAt?: string;
+  lastEvent?: string;
+}
+
+class ConditionalCheckFailedException extends Error {
+  name = 'ConditionalCheckFailedException';
+}
+
+/**
+ * Document client stand-in for a table keyed by `pk`. Evaluates the condition
+ * expressions DynamoDB supports for `attribute_exists`, `attribute_not_exists`
+ * and equality, joined with `AND`, and `SET` update expressions.
+ */
+class DocumentClientStub implements IDynamoDbDocumentClient {
+  readonly items = new Map<string, Record<string, any>>();
+  readonly requests: Array<Record<string, any>> = [];
+
+  async get({ Key }: { Key: Record<string, unknown> }) {
+    const item = this.items.get(String(Key.pk));
+    return { Item: item && { ...item } };
+  }
+
+  async put(input: Parameters<IDynamoDbDocumentClient['put']>[0]) {
+    this.requests.push(input);
+    const current = this.items.get(String(input.Item.pk));
+    this.check(current, input.ConditionExpression, input.ExpressionAttributeNames);
+    this.items.set(String(input.Item.pk), { ...input.Item });
+    return {};
+  }
+
+  async update(input: Parameters<IDynamoDbDocumentClient['update']>[0]) {
+    this.requests.push(input);
+    const names = input.ExpressionAttributeNames ?? {};
+    const values = input.ExpressionAttributeValues ?? {};
+    const current = this.items.get(String(input.Key.pk));
+    this.check(current, input.ConditionExpression, names, values);
+
+    const updated = { ...current, ...input.Key };
+    for (const assignment of input.UpdateExpression.replace(/^SET /, '').split(', ')) {
+      const [name, value] = assignment.split(' = ');
+      updated[names[name]] = values[value];
+    }
+    this.items.set(String(input.Key.pk), updated);
+    return { Attributes: { ...updated } };
+  }
+
+  private check(
+    item: Record<string, any> | undefined,
+    expression = '',
+    names: Record<string, string> = {},
+    values: Record<string, unknown> = {},
+  ): void {
+    const holds = expression
+      .split(' AND ')
+      .filter(Boolean)
+      .every((condition) => {
+        const exists = /^attribute_(not_)?exists\((#\w+)\)$/.exec(condition);
+        if (exists) return (item?.[names[exists[2]]] !== undefined) !== Boolean(exists[1]);
+        const [name, value] = condition.split(' = ');
+        return item?.[names[name]] === values[value];
+      });
+    if (!holds) throw new ConditionalCheckFailedException('The conditional request failed');
+  }
+}
+
+@Workflow<Shipment, string, string>({
+  name: 'ShipmentWorkflow',
+  states: { finals: ['delivered'], idles: ['packed', 'shipped'], failed: 'failed' },
+  transitions: [
+    { event: 'shipment.ship', from: ['packed'], to: 'shipped' },
+    { event: 'shipment.deliver', from: ['shipped'], to: 'delivered' },
+  ],
+  entityService: 'entity.shipment',
+})
+class ShipmentWorkflow {
+  @OnEvent('shipment.ship')
+  async ship() {}
+
+  @OnEvent('shipment.deliver')
+  async deliver() {}
+}
+
+describe('DynamoDbWorkflowEntity', () => {
+  let testing: WorkflowTestingModule | undefined;
+  let client: DocumentClientStub;
+  let sequence = 0;
+
+  const createService = (options: { revisionField?: 'revision' } = {}) => {
+    client = new DocumentClientStub();
+    return new DynamoDbWorkflowEntity<Shipment, string>(client, {
+      tableName: 'shipments',
+      idField: 'pk',
+      initialStatus: 'packed',
+      generateUrn: () => `shipment-${++sequence}`,
+      ...options,
+    });
+  };
+
+  afterEach(async () => {
+    await testing?.close();
+    testing = undefined;
+  });
+
+  test('moves items through a workflow with conditional updates and transition metadata', async () => {
+    const shipments = createService();
+    testing = await WorkflowTestingModule.create({
+      entities: [{ provide: 'entity.shipment', useValue: shipments }],
+      workflows: [ShipmentWorkflow],
+    });
+    const { pk } = await shipments.create();
+
+    await testing.scenario(pk).send('shipment.ship').send('shipment.deliver').expectFinal('delivered').run();
+
+    expect(client.items.get(pk)).toMatchObject({ pk, status: 'delivered', lastEvent: 'shipment.deliver' });
+    expect(Date.parse(client.items.get(pk)!.updatedAt)).not.toBeNaN();
+    expect(client.requests.at(-1)).toMatchObject({
+      TableName: 'shipments',
+      Key: { pk },
+      UpdateExpression: 'SET #a2 = :v1, #a3 = :v2, #a4 = :v3',
+      ConditionExpression: 'attribute_exists(#a0) AND #a1 = :v0',
+      ExpressionAttributeNames: {
+        '#a0': 'pk',
+        '#a1': 'status',
+        '#a2': 'status',
+        '#a3': 'lastEvent',
+        '#a4': 'updatedAt',
+      },
+      ExpressionAttributeValues: { ':v0': 'shipped', ':v1': 'delivered', ':v2': 'shipment.deliver' },
+      ReturnValues: 'ALL_NEW',
+    });
+  });
+
+  test('creates items only if their key is free', async () => {
+    const shipments = createService();
+    await shipments.create();
+    sequence--;
+
+    await expect(shipments.create()).rejects.toThrow(ConditionalCheckFailedException);
+  });
+
+  test('maps failed status conditions to a workflow conflict', async () => {
+    const shipments = createService();
+    const shipment = await shipments.create();
+    await shipments.update(shipment, 'shipped', { expectedStatus: 'packed', event: 'shipment.ship' });
+
+    const conflict = shipments.update(shipment, 'shipped', { expectedStatus: 'packed', event: 'shipment.ship' });
+
+    await expect(conflict).rejects.toThrow(WorkflowConflictException);
+    await expect(conflict).rejects.toMatchObject({ urn: shipment.pk, expectedStatus: 'packed' });
+  });
+
+  test('does not create missing items on update', async () => {
+    const shipments = createService();
+
+    await expect(
+      shipments.update({ pk: 'shipment-404', status: 'packed' }, 'shipped', {
+        expectedStatus: 'packed',
+        event: 'shipment.ship',
+      }),
+    ).rejects.toThrow(WorkflowConflictException);
+    expect(client.items.has('shipment-404')).toBe(false);
+  });
+
+  test('checks and increments the revision of the item', async () => {
+    const shipments = createService({ revisionField: 'revision' });
+    const shipment = await shipments.create();
+    const context = { expectedStatus: 'packed', event: 'shipment.ship' };
+
+    const updated = await shipments.update(shipment, 'packed', context);
+    expect(updated.revision).toBe(1);
+
+    await expect(shipments.update(shipment, 'shipped', context)).rejects.toThrow(WorkflowConflictException);
+    expect(await shipments.update(updated, 'shipped', context)).toMatchObject({ status: 'shipped', revision: 2 });
+  });
+});
@@ -0,0 +1,229 @@
+import { Database } from 'bun:sqlite';
+import { afterEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Workflow, type IWorkflowEntity } from '@/core';
+import { WorkflowConflictException } from '@/exception';
+import {
+  MongooseWorkflowEntity,
+  PrismaWorkflowEntity,
+  TypeOrmWorkflowEntity,
+  type IMongooseModel,
+  type IPrismaDelegate,
+  type ITypeOrmRepository,
+} from '@/persistence';
+import { WorkflowTestingModule } from '@/testing';
+
+interface Parcel {
+  id?: number;
+  _id?: string;
+  status: string;
+  weight?: number;
+  version?: number;
+}
+
+/** TypeORM repository stand-in over an in-memory SQLite database. */
+class SqliteRepository implements ITypeOrmRepository<Parcel> {
+  constructor(private readonly db: Database) {
+    db.run('CREATE TABLE parcel (id INTEGER PRIMARY KEY AUTOINCREMENT, status TEXT, weight REAL, version INTEGER)');
+  }
+
+  create(entityLike: Partial<Parcel>): Parcel {
+    return { status: '', ...entityLike };
+  }
+
+  async save(parcel: Parcel): Promise<Parcel> {
+    const { lastInsertRowid } = this.db
+      .query('INSERT INTO parcel (status, weight, version) VALUES (?, ?, ?)')
+      .run(parcel.status, parcel.weight ?? null, parcel.version ?? null);
+    return { ...parcel, id: Number(lastInsertRowid) };
+  }
+
+  async findOneBy(where: Record<string, unknown>): Promise<Parcel | null> {
+    const row = this.db.query(`SELECT * FROM parcel WHERE ${this.where(where)}`).get(...this.values(where));
+    return row ? this.toEntity(row as Record<string, unknown>) : null;
+  }
+
+  async update(criteria: Record<string, unknown>, partial: Record<string, unknown>) {
+    const set = Object.keys(partial)
+      .map((column) => `${column} = ?`)
+      .join(', ');
+    const { changes } = this.db
+      .query(`UPDATE parcel SET ${set} WHERE ${this.where(criteria)}`)
+      .run(...this.values(partial), ...this.values(criteria));
+    return { affected: changes };
+  }
+
+  private where(criteria: Record<string, unknown>): string {
+    return Object.keys(criteria)
+      .map((column) => `${column} = ?`)
+      .join(' AND ');
+  }
+
+  private values(fields: Record<string, unknown>) {
+    return Object.values(fields) as Array<string | number>;
+  }
+
+  private toEntity(row: Record<string, unknown>): Parcel {
+    return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null)) as unknown as Parcel;
+  }
+}
+
+const matches = (row: object, where: Record<string, unknown>) =>
+  Object.entries(where).every(([field, value]) => (row as Record<string, unknown>)[field] === value);
+
+/** Prisma delegate stand-in. */
+class PrismaParcelDelegate implements IPrismaDelegate<Parcel> {
+  readonly rows: Parcel[] = [];
+
+  async create({ data }: { data: Partial<Parcel> }): Promise<Parcel> {
+    const row = { status: '', ...data, id: this.rows.length + 1 };
+    this.rows.push(row);
+    return { ...row };
+  }
+
+  async findUnique({ where }: { where: Record<string, unknown> }): Promise<Parcel | null> {
+    const row = this.rows.find((r) => matches(r, where));
+    return row ? { ...row } : null;
+  }
+
+  async updateMany({ where, data }: { where: Record<string, unknown>; data: Partial<Parcel> }) {
+    const rows = this.rows.filter((r) => matches(r, where));
+    rows.forEach((row) => Object.assign(row, data));
+    return { count: rows.length };
+  }
+}
+
+/** Mongoose model stand-in, keyed by `_id`. */
+class MongooseParcelModel implements IMongooseModel<Parcel> {
+  readonly docs: Parcel[] = [];
+
+  async create(doc: Partial<Parcel>): Promise<Parcel> {
+    const created = { status: '', ...doc, _id: `parcel-${this.docs.length + 1}` };
+    this.docs.push(created);
+    return { ...created };
+  }
+
+  findOne(filter: Record<string, unknown>) {
+    return this.query(() => this.docs.find((d) => matches(d, filter)));
+  }
+
+  findOneAndUpdate(filter: Record<string, unknown>, update: Record<string, unknown>) {
+    return this.query(() => {
+      const doc = this.docs.find((d) => matches(d, filter));
+      return doc && Object.assign(doc, update.$set);
+    });
+  }
+
+  private query(run: () => Parcel | undefined) {
+    return {
+      exec: async () => {
+        const doc = run();
+        return doc ? { ...doc } : null;
+      },
+    };
+  }
+}
+
+@Workflow<Parcel, string, string>({
+  name: 'ParcelWorkflow',
+  states: { finals: ['delivered'], idles: ['registered', 'in-transit'], failed: 'failed' },
+  transitions: [
+    { event: 'parcel.ship', from: ['registered'], to: 'in-transit' },
+    { event: 'parcel.deliver', from: ['in-transit'], to: 'delivered' },
+  ],
+  entityService: 'entity.parcel',
+})
+class ParcelWorkflow {
+  @OnEvent('parcel.ship')
+  async ship() {}
+
+  @OnEvent('parcel.deliver')
+  async deliver() {}
+}
+
+const cases: Array<[string, () => IWorkflowEntity<Parcel, string>]> = [
+  [
+    'TypeOrmWorkflowEntity',
+    () =>
+      new TypeOrmWorkflowEntity<Parcel, string>(new SqliteRepository(new Database(':memory:')), {
+        initialStatus: 'registered',
+        defaults: () => ({ weight: 1.5 }),
+        versionField: 'version',
+      }),
+  ],
+  [
+    'PrismaWorkflowEntity',
+    () =>
+      new PrismaWorkflowEntity<Parcel, string>(new PrismaParcelDelegate(), {
+        initialStatus: 'registered',
+        defaults: () => ({ weight: 1.5 }),
+        versionField: 'version',
+      }),
+  ],
+  [
+    'MongooseWorkflowEntity',
+    () =>
+      new MongooseWorkflowEntity<Parcel, string>(new MongooseParcelModel(), {
+        initialStatus: 'registered',
+        defaults: () => ({ weight: 1.5 }),
+        versionField: 'version',
+      }),
+  ],
+];
+
+for (const [name, createService] of cases) {
+  describe(name, () => {
+    let testing: WorkflowTestingModule | undefined;
+
+    afterEach(async () => {
+      await testing?.close();
+      testing = undefined;
+    });
+
+    test('creates, loads and moves entities through a workflow', async () => {
+      const parcels = createService();
+      testing = await WorkflowTestingModule.create({
+        entities: [{ provide: 'entity.parcel', useValue: parcels }],
+        workflows: [ParcelWorkflow],
+      });
+      const parcel = await parcels.create();
+      const urn = parcels.urn(parcel);
+
+      expect(parcel).toMatchObject({ status: 'registered', weight: 1.5 });
+      await testing
+        .scenario(urn)
+        .send('parcel.ship')
+        .expectIdle({ state: 'in-transit' })
+        .send('parcel.deliver')
+        .expectFinal('delivered')
+        .run();
+      expect(await parcels.load(urn)).toMatchObject({ status: 'delivered', weight: 1.5, version: 1 });
+    });
+
+    test('rejects updates of an entity that left the expected state', async () => {
+      const parcels = createService();
+      const parcel = await parcels.create();
+      await parcels.update(parcel, 'in-transit');
+
+      const stale = { ...parcel, status: 'registered' };
+      await expect(
+        parcels.update(stale, 'in-transit', { expectedStatus: 'registered', event: 'parcel.ship' }),
+      ).rejects.toThrow(WorkflowConflictException);
+      expect(parcels.status((await parcels.load(parcels.urn(parcel)))!)).toBe('in-transit');
+    });
+
+    test('fails unconditional updates of missing entities', async () => {
+      const parcels = createService();
+      const parcel = await parcels.create();
+      const missing = '_id' in parcel ? { ...parcel, _id: 'parcel-9' } : { ...parcel, id: 9 };
+
+      await expect(parcels.update(missing, 'in-transit')).rejects.toThrow(`Entity ${parcels.urn(missing)} not found`);
+    });
+  });
+}
+
+test('implements version() and updateVersion() only with a version column', () => {
+  const parcels = new PrismaWorkflowEntity<Parcel, string>(new PrismaParcelDelegate());
+
+  expect(parcels.version).toBeUndefined();
+  expect(parcels.updateVersion).toBeUndefined();
+});
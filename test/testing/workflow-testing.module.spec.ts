@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { OnEvent, Workflow } from '@/core';
+import { WorkflowConflictException } from '@/exception';
+import { InMemoryEntityService, WorkflowTestingModule } from '@/testing';
+
+interface Ticket {
+  id: string;
+  status: string;
+  assignee?: string;
+}
+
+@Workflow<Ticket, string, string>({
+  name: 'TicketWorkflow',
+  states: {
+    finals: ['resolved'],
+    idles: ['open', { state: 'assigned', timeout: { hours: 4 }, onTimeout: 'ticket.escalate' }, 'escalated'],
+    failed: 'failed',
+  },
+  transitions: [
+    { event: 'ticket.triage', from: ['open'], to: 'triaged' },
+    { event: 'ticket.assign', from: ['triaged'], to: 'assigned' },
+    { event: 'ticket.escalate', from: ['assigned'], to: 'escalated' },
+    {
+      event: 'ticket.resolve',
+      from: ['assigned', 'escalated'],
+      to: 'resolved',
+      conditions: [(_ticket, payload?: { fixed?: boolean }) => payload?.fixed === true],
+    },
+  ],
+  entityService: 'entity.ticket',
+})
+class TicketWorkflow {
+  @OnEvent('ticket.triage')
+  async triage() {}
+
+  @OnEvent('ticket.assign')
+  async assign() {}
+
+  @OnEvent('ticket.escalate')
+  async escalate() {}
+
+  @OnEvent('ticket.resolve')
+  async resolve() {}
+}
+
+describe('WorkflowTestingModule', () => {
+  let testing: WorkflowTestingModule | undefined;
+
+  const boot = async () => {
+    testing = await WorkflowTestingModule.create({ workflows: [TicketWorkflow] });
+    return testing;
+  };
+
+  afterEach(async () => {
+    await testing?.close();
+    testing = undefined;
+  });
+
+  test('backs entity services that are not provided with an in-memory service', async () => {
+    const app = await boot();
+    const tickets = app.getEntityService<Ticket>();
+
+    expect(tickets).toBeInstanceOf(InMemoryEntityService);
+    expect(await tickets.create()).toEqual({ id: 'entity-1', status: 'open' });
+  });
+
+  test('runs a scripted scenario through auto-transitions and idle states', async () => {
+    const app = await boot();
+    const ticket = await app.getEntityService<Ticket>().seed({ status: 'open' });
+
+    await app
+      .scenario(ticket.id)
+      .send('ticket.triage')
+      .expectIdle({ state: 'assigned', timeout: { minutes: 240 } })
+      .expectState('assigned')
+      .send('ticket.resolve', { fixed: true })
+      .expectFinal('resolved')
+      .expectPath(['open', 'triaged', 'assigned', 'resolved'])
+      .run();
+    await app.expectPath(ticket.id, ['open', 'triaged', 'assigned', 'resolved']);
+  });
+
+  test('reports the first unmet expectation', async () => {
+    const app = await boot();
+    const ticket = await app.getEntityService<Ticket>().seed({ status: 'open' });
+
+    await expect(
+      app
+        .scenario(ticket.id)
+        .send('ticket.triage')
+        .expectIdle({ timeout: { hours: 1 } })
+        .run(),
+    ).rejects.toThrow(`Expected entity ${ticket.id} to wait {"hours":1} but waits {"hours":4}`);
+    await expect(app.scenario(ticket.id).send('ticket.resolve').expectFinal().run()).rejects.toThrow(
+      `Expected entity ${ticket.id} to be final but the last transit was idle`,
+    );
+    await expect(app.expectPath(ticket.id, ['open', 'assigned'])).rejects.toThrow(
+      `Expected entity ${ticket.id} to go through open → assigned but went through open → triaged → assigned`,
+    );
+  });
+
+  test('expects rejected events and rethrows unexpected ones', async () => {
+    const app = await boot();
+    const ticket = await app.getEntityService<Ticket>().seed({ status: 'open' });
+
+    await app
+      .scenario(ticket.id)
+      .send('ticket.escalate')
+      .expectError('No matched transition for event: ticket.escalate, status: open')
+      .expectState('open')
+      .run();
+    await expect(app.scenario(ticket.id).send('ticket.escalate').expectState('open').run()).rejects.toThrow(
+      'No matched transition for event: ticket.escalate, status: open',
+    );
+  });
+
+  test('uses the entity services it is given', async () => {
+    const tickets = new InMemoryEntityService<Ticket>({ urnPrefix: 'ticket', initialStatus: 'open' });
+    testing = await WorkflowTestingModule.create({
+      entities: [{ provide: 'entity.ticket', useValue: tickets }],
+      workflows: [TicketWorkflow],
+    });
+
+    expect(testing.getEntityService<Ticket>()).toBe(tickets);
+    expect(() => testing!.scenario('ticket-1', 'OrderWorkflow')).toThrow('Workflow OrderWorkflow is not registered');
+  });
+});
+
+describe('InMemoryEntityService', () => {
+  test('stores copies of the entities it updates', async () => {
+    const tickets = new InMemoryEntityService<Ticket>({ urnPrefix: 'ticket', defaults: () => ({ status: 'open' }) });
+    const ticket = await tickets.seed({ assignee: 'ana' });
+
+    const updated = await tickets.update(ticket, 'triaged');
+    updated.assignee = 'bo';
+
+    expect(await tickets.load('ticket-1')).toEqual({ id: 'ticket-1', status: 'triaged', assignee: 'ana' });
+    expect(await tickets.load('ticket-2')).toBeNull();
+  });
+
+  test('rejects conditional writes against a changed entity', async () => {
+    const tickets = new InMemoryEntityService<Ticket>();
+    const ticket = await tickets.seed({ status: 'open' });
+    await tickets.update(ticket, 'triaged');
+
+    await expect(
+      tickets.update(ticket, 'assigned', { expectedStatus: 'open', event: 'ticket.assign' }),
+    ).rejects.toThrow(WorkflowConflictException);
+  });
+
+  test('keeps versions and region sub-states in configurable fields', async () => {
+    const tickets = new InMemoryEntityService<Ticket & { rev?: number }>({ versionField: 'rev' });
+    const ticket = await tickets.seed({ status: 'open' });
+
+    const pinned = await tickets.updateRegion(await tickets.updateVersion(ticket, 2), 'review', 'pending');
+
+    expect(tickets.version(pinned)).toBe(2);
+    expect(tickets.regionStatus(pinned, 'review')).toBe('pending');
+    expect(tickets.get(ticket.id)).toMatchObject({ rev: 2, regions: { review: 'pending' } });
+  });
+});
@@ -0,0 +1,172 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { IWorkflowDefinition, IWorkflowDefinitionDocument } from '@/core/types';
+import { WorkflowDefinitionLoader } from '@/core/utils/definition-loader';
+import { WORKFLOW_DEFINITION_SCHEMA } from '@/core/utils/definition-schema';
+import { afterAll, describe, expect, test } from 'bun:test';
+
+const document: IWorkflowDefinitionDocument = {
+  name: 'OrderWorkflow',
+  states: {
+    finals: ['completed', 'cancelled'],
+    idles: ['pending', { state: 'review', timeout: { hours: 24 }, onTimeout: 'order.cancel' }],
+    failed: 'failed',
+  },
+  transitions: [
+    { event: 'order.submit', from: ['pending'], to: 'review', conditions: ['hasItems'] },
+    { event: 'order.approve', from: ['review'], to: 'completed' },
+    { event: ['order.cancel', 'order.reject'], from: ['pending', 'review'], to: 'cancelled' },
+  ],
+  conditions: ['isOpen'],
+  entityService: 'entity.order',
+};
+
+const yaml = `
+name: OrderWorkflow
+entityService: entity.order
+states:
+  finals: [completed, cancelled]
+  idles: [pending, { state: review, timeout: { hours: 24 }, onTimeout: order.cancel }]
+  failed: failed
+transitions:
+  - { event: order.submit, from: [pending], to: review, conditions: [hasItems] }
+`;
+
+describe('WorkflowDefinitionLoader – validate', () => {
+  test('accepts a valid document', () => {
+    expect(WorkflowDefinitionLoader.validate(document)).toEqual([]);
+  });
+
+  test('reports every violation with its path', () => {
+    const issues = WorkflowDefinitionLoader.validate({
+      name: '',
+      states: { finals: 'completed', idles: [], failed: 'failed' },
+      transitions: [{ event: 'order.submit', from: [], to: 'review', guard: 'x' }],
+      entityService: 'entity.order',
+      timeout: 10,
+    });
+
+    expect(issues).toEqual([
+      '$.name must not be empty',
+      '$.states.finals must be of type array',
+      '$.transitions[0].from must have at least 1 item(s)',
+      '$.transitions[0].guard is not allowed',
+      '$.timeout is not allowed',
+    ]);
+  });
+
+  test('reports missing required properties', () => {
+    expect(WorkflowDefinitionLoader.validate({ name: 'OrderWorkflow' })).toEqual([
+      '$.states is required',
+      '$.transitions is required',
+      '$.entityService is required',
+    ]);
+  });
+
+  test('reports idle entries matching neither form', () => {
+    const issues = WorkflowDefinitionLoader.validate({
+      ...document,
+      states: { ...document.states, idles: [{ state: 'review', onTimeout: 42 }] },
+    });
+
+    expect(issues).toEqual(['$.states.idles[0] does not match any of the allowed forms']);
+  });
+});
+
+describe('WorkflowDefinitionLoader – parse', () => {
+  test('parses a JSON document', () => {
+    expect(WorkflowDefinitionLoader.parse(JSON.stringify(document))).toEqual(document);
+  });
+
+  test('parses a YAML document with the given parser', () => {
+    const parsed = WorkflowDefinitionLoader.parse(yaml, { format: 'yaml', parseYaml: Bun.YAML.parse });
+
+    expect(parsed.states.idles).toEqual([
+      'pending',
+      { state: 'review', timeout: { hours: 24 }, onTimeout: 'order.cancel' },
+    ]);
+    expect(parsed.transitions[0].conditions).toEqual(['hasItems']);
+  });
+
+  test('requires a parser for YAML', () => {
+    expect(() => WorkflowDefinitionLoader.parse(yaml, { format: 'yaml' })).toThrow('requires the parseYaml option');
+  });
+
+  test('throws on malformed JSON', () => {
+    expect(() => WorkflowDefinitionLoader.parse('{ name: ')).toThrow('Invalid workflow definition');
+  });
+
+  test('throws listing the schema violations', () => {
+    expect(() => WorkflowDefinitionLoader.parse(JSON.stringify({ ...document, entityService: 1 }))).toThrow(
+      'Invalid workflow definition:\n  - $.entityService must be of type string',
+    );
+  });
+});
+
+describe('WorkflowDefinitionLoader – fromFile', () => {
+  const dir = mkdtempSync(join(tmpdir(), 'workflow-definitions-'));
+
+  afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+  test('infers the format from the file extension', async () => {
+    writeFileSync(join(dir, 'order.json'), JSON.stringify(document));
+    writeFileSync(join(dir, 'order.yml'), yaml);
+
+    expect((await WorkflowDefinitionLoader.fromFile(join(dir, 'order.json'))).name).toBe('OrderWorkflow');
+    expect((await WorkflowDefinitionLoader.fromFile(join(dir, 'order.yml'), { parseYaml: Bun.YAML.parse })).name).toBe(
+      'OrderWorkflow',
+    );
+  });
+});
+
+describe('WORKFLOW_DEFINITION_SCHEMA', () => {
+  test('matches the published schema file', () => {
+    const published = JSON.parse(
+      readFileSync(join(import.meta.dir, '../../schema/workflow-definition.schema.json'), 'utf8'),
+    );
+
+    expect(published).toEqual(WORKFLOW_DEFINITION_SCHEMA);
+  });
+});
+
+describe('WorkflowDefinitionLoader – resolve', () => {
+  const library = {
+    hasItems: (order: { items: number }) => order.items > 0,
+    isOpen: (order: { closed?: boolean }) => !order.closed,
+  };
+
+  test('replaces condition names with named library functions', () => {
+    const definition = WorkflowDefinitionLoader.resolve(document, library);
+    const [submit] = definition.transitions[0].conditions!;
+    const [isOpen] = definition.conditions!;
+
+    expect(submit.name).toBe('hasItems');
+    expect(submit({ items: 2 })).toBe(true);
+    expect(submit({ items: 0 })).toBe(false);
+    expect(isOpen.name).toBe('isOpen');
+    expect(definition.transitions[1].conditions).toBeUndefined();
+  });
+
+  test('drops the $schema reference', () => {
+    const definition = WorkflowDefinitionLoader.resolve({ $schema: './workflow.schema.json', ...document }, library);
+
+    expect('$schema' in definition).toBe(false);
+  });
+
+  test('throws on an unknown condition', () => {
+    expect(() => WorkflowDefinitionLoader.resolve(document, { hasItems: library.hasItems })).toThrow(
+      'Workflow OrderWorkflow refers to unknown condition "isOpen"',
+    );
+  });
+
+  test('returns definition objects unchanged', () => {
+    const definition: IWorkflowDefinition<any, string, string> = {
+      ...document,
+      transitions: [{ event: 'order.submit', from: ['pending'], to: 'review', conditions: [() => true] }],
+      conditions: undefined,
+    };
+
+    expect(WorkflowDefinitionLoader.resolve(definition)).toBe(definition);
+  });
+});
@@ -0,0 +1,210 @@
+import { WorkflowDefinitionValidator } from '@/core/utils/definition-validator';
+import { OnEvent, Workflow, WorkflowModule, type IWorkflowDefinition } from '@/core';
+import { Test } from '@nestjs/testing';
+import { describe, expect, test } from 'bun:test';
+
+const validDefinition: IWorkflowDefinition<any, string, string> = {
+  name: 'TestWorkflow',
+  states: { finals: ['DONE'], idles: ['PENDING'], failed: 'FAILED' },
+  transitions: [
+    { event: 'start', from: ['PENDING'], to: 'ACTIVE' },
+    { event: 'finish', from: ['ACTIVE'], to: 'DONE' },
+  ],
+  entityService: 'entity.test',
+};
+
+const codes = (definition: IWorkflowDefinition<any, string, string>, events = ['start', 'finish']) =>
+  WorkflowDefinitionValidator.validate(definition, events).map((i) => i.code);
+
+describe('WorkflowDefinitionValidator', () => {
+  test('returns no issues for a consistent definition', () => {
+    expect(WorkflowDefinitionValidator.validate(validDefinition, ['start', 'finish'])).toEqual([]);
+  });
+
+  test('detects dead-end states that are not declared', () => {
+    const issues = WorkflowDefinitionValidator.validate(
+      {
+        ...validDefinition,
+        transitions: [...validDefinition.transitions, { event: 'finish', from: ['ACTIVE'], to: 'DONNE' }],
+      },
+      ['start', 'finish'],
+    );
+
+    expect(issues).toEqual([
+      {
+        code: 'undeclared-state',
+        message:
+          '[TestWorkflow] State "DONNE" is a transition target but is not declared as final, idle or failed and has no outgoing transitions.',
+      },
+    ]);
+  });
+
+  test('detects misspelled states a transition leaves', () => {
+    const issues = WorkflowDefinitionValidator.validate(
+      {
+        ...validDefinition,
+        transitions: [...validDefinition.transitions, { event: 'finish', from: ['ACTIV'], to: 'DONE' }],
+      },
+      ['start', 'finish'],
+    );
+
+    expect(issues).toEqual([
+      {
+        code: 'undeclared-state',
+        message:
+          '[TestWorkflow] State "ACTIV" is left by a transition but is not declared as final, idle or failed and no transition enters it.',
+      },
+    ]);
+  });
+
+  test('accepts an undeclared initial state', () => {
+    expect(
+      codes({
+        ...validDefinition,
+        states: { ...validDefinition.states, idles: [] },
+        transitions: [{ event: 'start', from: ['NEW'], to: 'ACTIVE' }, ...validDefinition.transitions.slice(1)],
+      }),
+    ).toEqual([]);
+  });
+
+  test('detects final states with outgoing transitions', () => {
+    expect(
+      codes(
+        {
+          ...validDefinition,
+          transitions: [...validDefinition.transitions, { event: 'reopen', from: ['DONE'], to: 'ACTIVE' }],
+        },
+        ['start', 'finish', 'reopen'],
+      ),
+    ).toEqual(['final-has-outgoing']);
+  });
+
+  test('detects states unreachable from any entry point', () => {
+    expect(codes({ ...validDefinition, states: { ...validDefinition.states, finals: ['DONE', 'CANCELLED'] } })).toEqual(
+      ['unreachable-state'],
+    );
+  });
+
+  test('treats idle states inside a cycle as entry points', () => {
+    expect(
+      codes(
+        {
+          ...validDefinition,
+          transitions: [...validDefinition.transitions, { event: 'revise', from: ['ACTIVE'], to: 'PENDING' }],
+        },
+        ['start', 'finish', 'revise'],
+      ),
+    ).toEqual([]);
+  });
+
+  test('detects handlers without transitions and transitions without handlers', () => {
+    expect(codes(validDefinition, ['start', 'archive'])).toEqual([
+      'handler-without-transition',
+      'transition-without-handler',
+    ]);
+  });
+
+  test('detects a failed state that is also idle', () => {
+    expect(codes({ ...validDefinition, states: { ...validDefinition.states, idles: ['PENDING', 'FAILED'] } })).toEqual([
+      'failed-is-idle',
+    ]);
+  });
+
+  test('detects timeout events without a transition from their idle state', () => {
+    const definition: IWorkflowDefinition<any, string, string> = {
+      ...validDefinition,
+      states: { ...validDefinition.states, idles: [{ state: 'PENDING', timeout: { hours: 1 }, onTimeout: 'finish' }] },
+    };
+
+    expect(WorkflowDefinitionValidator.validate(definition, ['start', 'finish'])).toEqual([
+      {
+        code: 'invalid-timeout-event',
+        message: '[TestWorkflow] Timeout event "finish" of idle state "PENDING" has no transition from "PENDING".',
+      },
+    ]);
+    expect(codes({ ...validDefinition, defaultOnTimeout: 'expire' })).toEqual(['invalid-timeout-event']);
+  });
+
+  describe('compound states', () => {
+    const compoundDefinition: IWorkflowDefinition<any, string, string> = {
+      name: 'SubscriptionWorkflow',
+      states: {
+        finals: ['CANCELLED'],
+        idles: ['ACTIVE'],
+        failed: 'FAILED',
+        compound: [{ state: 'ACTIVE', children: ['TRIAL', 'PAID'], initial: 'TRIAL' }],
+      },
+      transitions: [
+        { event: 'subscribe', from: ['NEW'], to: 'ACTIVE' },
+        { event: 'pay', from: ['TRIAL'], to: 'PAID' },
+        { event: 'cancel', from: ['ACTIVE'], to: 'CANCELLED' },
+      ],
+      entityService: 'entity.test',
+    };
+    const events = ['subscribe', 'pay', 'cancel'];
+
+    test('resolves parents to their children', () => {
+      expect(WorkflowDefinitionValidator.validate(compoundDefinition, events)).toEqual([]);
+    });
+
+    test('detects a compound target without an initial child', () => {
+      expect(
+        codes(
+          {
+            ...compoundDefinition,
+            states: { ...compoundDefinition.states, compound: [{ state: 'ACTIVE', children: ['TRIAL', 'PAID'] }] },
+          },
+          events,
+        ),
+      ).toContain('invalid-compound-state');
+    });
+
+    test('detects a state with more than one parent', () => {
+      expect(
+        codes(
+          {
+            ...compoundDefinition,
+            states: {
+              ...compoundDefinition.states,
+              compound: [
+                { state: 'ACTIVE', children: ['TRIAL', 'PAID'], initial: 'TRIAL' },
+                { state: 'BILLED', children: ['PAID'] },
+              ],
+            },
+          },
+          events,
+        ),
+      ).toContain('invalid-compound-state');
+    });
+  });
+});
+
+describe('WorkflowModule – definition validation', () => {
+  @Workflow<any, string, string>({ ...validDefinition, name: 'BrokenWorkflow' })
+  class BrokenWorkflow {
+    @OnEvent('start')
+    async start() {}
+  }
+
+  const compile = (validation?: 'error' | 'warn' | 'off') =>
+    Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.test', useValue: {} }],
+          workflows: [BrokenWorkflow],
+          validation,
+        }),
+      ],
+    }).compile();
+
+  test('fails at startup in error mode', async () => {
+    const module = await compile('error');
+    await expect(module.init()).rejects.toThrow('Transition event "finish" has no @OnEvent handler.');
+  });
+
+  test('only warns by default', async () => {
+    const module = await compile();
+    await module.init();
+    await module.close();
+  });
+});
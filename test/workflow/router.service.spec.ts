@@ -130,3 +130,157 @@ describe('RouterService – payload validation', () => {
     expect(args).toEqual([{ entity, payload: rawPayload }]);
   });
 });
+
+describe('RouterService – workflow conditions', () => {
+  const isUnlocked = (entity: any) => !entity.locked;
+  const definition: IWorkflowDefinition<any, string, string> = {
+    ...mockDefinition,
+    transitions: [
+      { event: 'start', from: ['PENDING'], to: 'ACTIVE' },
+      { event: 'finish', from: ['ACTIVE'], to: 'DONE' },
+    ],
+    conditions: [isUnlocked],
+  };
+
+  test('matches the transition when all workflow conditions pass', () => {
+    const router = new RouterService('start', mockEntityService, definition, mockLogger, null);
+    const result = router.findValidTransition({ id: '1', status: 'PENDING', locked: false }, undefined);
+
+    expect(result.transition?.to).toBe('ACTIVE');
+    expect(result.failedGlobalCondition).toBeUndefined();
+  });
+
+  test('rejects explicit events and reports the failing guard', () => {
+    const router = new RouterService('start', mockEntityService, definition, mockLogger, null);
+    const result = router.findValidTransition({ id: '1', status: 'PENDING', locked: true }, undefined);
+
+    expect(result.transition).toBeNull();
+    expect(result.hasEventStateMatch).toBe(true);
+    expect(result.failedGlobalCondition).toBe('isUnlocked');
+  });
+
+  test('blocks auto-transitions', () => {
+    const router = new RouterService('start', mockEntityService, definition, mockLogger, null);
+    const result = router.findValidTransition({ id: '1', status: 'ACTIVE', locked: true }, undefined, {
+      skipEventCheck: true,
+    });
+
+    expect(result.transition).toBeNull();
+    expect(result.failedGlobalCondition).toBe('isUnlocked');
+  });
+
+  test('names anonymous guards by their index', () => {
+    const router = new RouterService(
+      'start',
+      mockEntityService,
+      { ...definition, conditions: [() => true, () => false] },
+      mockLogger,
+      null,
+    );
+    const result = router.findValidTransition({ id: '1', status: 'PENDING' }, undefined);
+
+    expect(result.failedGlobalCondition).toBe('conditions[1]');
+  });
+
+  test('reports the first failing condition of each rejected transition', () => {
+    const hasItems = (entity: any) => entity.items > 0;
+    const router = new RouterService(
+      'start',
+      mockEntityService,
+      {
+        ...definition,
+        conditions: [],
+        transitions: [
+          { event: 'start', from: ['PENDING'], to: 'ACTIVE', conditions: [hasItems, () => false] },
+          { event: 'start', from: ['PENDING'], to: 'ACTIVE', conditions: [() => true, () => false] },
+        ],
+      },
+      mockLogger,
+      null,
+    );
+    const result = router.findValidTransition({ id: '1', status: 'PENDING', items: 0 }, undefined);
+
+    expect(result.transition).toBeNull();
+    expect(result.failedConditions).toEqual(['hasItems', 'conditions[1]']);
+  });
+
+  test('does not evaluate workflow conditions when no transition matches the event and state', () => {
+    let calls = 0;
+    const router = new RouterService(
+      'finish',
+      mockEntityService,
+      { ...definition, conditions: [() => ++calls > 0] },
+      mockLogger,
+      null,
+    );
+    const result = router.findValidTransition({ id: '1', status: 'PENDING' }, undefined);
+
+    expect(result.hasEventStateMatch).toBe(false);
+    expect(calls).toBe(0);
+  });
+});
+
+describe('RouterService – hierarchical states', () => {
+  const definition: IWorkflowDefinition<any, string, string> = {
+    name: 'SubscriptionWorkflow',
+    states: {
+      finals: ['CANCELLED', 'CLOSED'],
+      idles: [{ state: 'ACTIVE', timeout: '1h' }, { state: 'PAID', timeout: '30d' }, 'SUSPENDED'],
+      failed: 'FAILED',
+      compound: [
+        { state: 'ACTIVE', children: ['TRIAL', 'PAID'], initial: 'TRIAL' },
+        { state: 'ENDED', children: ['CLOSED'] },
+      ],
+    },
+    transitions: [
+      { event: 'cancel', from: ['ACTIVE'], to: 'CANCELLED' },
+      { event: 'cancel', from: ['TRIAL'], to: 'CLOSED' },
+      { event: 'suspend', from: ['ACTIVE'], to: 'SUSPENDED' },
+      { event: 'resume', from: ['SUSPENDED'], to: 'ACTIVE' },
+    ],
+    entityService: 'entity.test',
+  };
+
+  const router = (event: string) => new RouterService(event, mockEntityService, definition, mockLogger, null);
+
+  test('applies transitions declared on the parent to its children', () => {
+    const result = router('suspend').findValidTransition({ id: '1', status: 'PAID' }, undefined);
+    expect(result.transition?.to).toBe('SUSPENDED');
+  });
+
+  test('prefers the transition declared closest to the entity state', () => {
+    expect(router('cancel').findValidTransition({ id: '1', status: 'TRIAL' }, undefined).transition?.to).toBe('CLOSED');
+    expect(router('cancel').findValidTransition({ id: '1', status: 'PAID' }, undefined).transition?.to).toBe(
+      'CANCELLED',
+    );
+  });
+
+  test('resolves a compound target to its initial child', () => {
+    expect(router('resume').resolveTargetState('ACTIVE')).toBe('TRIAL');
+    expect(router('resume').resolveTargetState('SUSPENDED')).toBe('SUSPENDED');
+  });
+
+  test('rejects a compound target without an initial child', () => {
+    expect(() => router('resume').resolveTargetState('ENDED')).toThrow('declares no initial child');
+  });
+
+  test('inherits idle and final declarations from the parent', () => {
+    expect(router('cancel').isInIdleStatus({ id: '1', status: 'TRIAL' })).toBe(true);
+    expect(router('cancel').isInFinalStatus({ id: '1', status: 'CLOSED' })).toBe(true);
+    expect(router('cancel').isInFinalStatus({ id: '1', status: 'PAID' })).toBe(false);
+  });
+
+  test('uses the closest idle timeout', () => {
+    expect(router('cancel').getIdleTimeout('PAID')).toBe('30d');
+    expect(router('cancel').getIdleTimeout('TRIAL')).toBe('1h');
+  });
+
+  test('reports the states left and entered, without shared ancestors', () => {
+    expect(router('cancel').getStateChange('TRIAL', 'PAID')).toEqual({ exited: ['TRIAL'], entered: ['PAID'] });
+    expect(router('cancel').getStateChange('PAID', 'CLOSED')).toEqual({
+      exited: ['PAID', 'ACTIVE'],
+      entered: ['ENDED', 'CLOSED'],
+    });
+    expect(router('cancel').getStateChange('PAID', 'PAID')).toEqual({ exited: [], entered: [] });
+  });
+});
@@ -0,0 +1,235 @@
+import type {
+  IAslChoiceState,
+  IAslStateMachine,
+  IAslTaskState,
+  IRegisteredHandler,
+  IWorkflowDefinition,
+} from '@/core/types';
+import { RetryStrategy } from '@/core/types';
+import { StepFunctionsExporter } from '@/core/utils/step-functions-exporter';
+import { describe, expect, test } from 'bun:test';
+
+const hasItems = (order: any) => order.items > 0;
+
+const definition: IWorkflowDefinition<any, string, string> = {
+  name: 'OrderWorkflow',
+  states: {
+    finals: ['completed', 'cancelled'],
+    idles: ['pending', { state: 'review', timeout: { hours: 24 }, onTimeout: 'order.cancel' }],
+    failed: 'failed',
+  },
+  transitions: [
+    { event: 'order.submit', from: ['pending'], to: 'processing', conditions: [hasItems] },
+    { event: 'order.process', from: ['processing'], to: 'review' },
+    { event: 'order.approve', from: ['review'], to: 'completed' },
+    { event: 'order.cancel', from: ['pending', 'review'], to: 'cancelled' },
+  ],
+  entityService: 'entity.order',
+};
+
+const handlers: IRegisteredHandler[] = [
+  { event: 'order.submit', name: 'submit' },
+  {
+    event: 'order.process',
+    name: 'process',
+    retryConfig: { handler: 'process', maxAttempts: 4, strategy: RetryStrategy.EXPONENTIAL, initialDelay: 1500 },
+  },
+  { event: 'order.approve', name: 'approve' },
+  { event: 'order.cancel', name: 'cancel' },
+];
+
+const functionArn = 'arn:aws:lambda:eu-west-1:123456789012:function:order-workflow';
+
+describe('StepFunctionsExporter – toAsl', () => {
+  const asl = StepFunctionsExporter.toAsl(definition, handlers, { functionArn });
+  const task = (name: string) => asl.States[name] as IAslTaskState;
+  const choice = (name: string) => asl.States[name] as IAslChoiceState;
+
+  test('dispatches the input event to the task of its handler', () => {
+    expect(asl.StartAt).toBe('Dispatch');
+    expect(choice('Dispatch').Choices.map((c) => [c.StringEquals, c.Next])).toEqual([
+      ['order.submit', 'Handle order.submit'],
+      ['order.process', 'Handle order.process'],
+      ['order.approve', 'Handle order.approve'],
+      ['order.cancel', 'Handle order.cancel'],
+    ]);
+    expect(choice('Dispatch').Default).toBe('Unknown event');
+  });
+
+  test('creates a task per handler that ends in the failed state on errors', () => {
+    expect(task('Handle order.approve')).toMatchObject({
+      Type: 'Task',
+      Comment: "@OnEvent('order.approve') approve",
+      Resource: functionArn,
+      ResultPath: '$.result',
+      Catch: [{ ErrorEquals: ['States.ALL'], ResultPath: '$.error', Next: 'failed' }],
+      Next: 'Route order.approve',
+    });
+    expect(asl.States.failed).toEqual({
+      Type: 'Fail',
+      Error: 'WorkflowFailed',
+      Cause: 'The entity ended in failed state "failed"',
+    });
+  });
+
+  test('maps @WithRetry to a Retry block', () => {
+    expect(task('Handle order.process').Retry).toEqual([
+      { ErrorEquals: ['UnretriableException'], MaxAttempts: 0 },
+      { ErrorEquals: ['WorkflowConflictException'], MaxAttempts: 3, IntervalSeconds: 1 },
+      {
+        ErrorEquals: ['States.ALL'],
+        MaxAttempts: 3,
+        IntervalSeconds: 2,
+        BackoffRate: 2,
+        MaxDelaySeconds: 60,
+        JitterStrategy: 'NONE',
+      },
+    ]);
+    expect(task('Handle order.approve').Retry).toHaveLength(2);
+  });
+
+  test('routes guarded transitions on the transit result', () => {
+    const route = choice('Route order.submit');
+
+    expect(route.Comment).toBe('Guarded by hasItems');
+    expect(route.Choices).toEqual([
+      { Variable: '$.result.status', StringEquals: 'continued', Next: 'Continue' },
+      { Variable: '$.result.status', StringEquals: 'no_transition', Next: 'Await event' },
+      { Variable: '$.result.state', StringEquals: 'pending', Next: 'pending' },
+      { Variable: '$.result.state', StringEquals: 'failed', Next: 'failed' },
+    ]);
+    expect(asl.States.Continue).toMatchObject({ Type: 'Pass', InputPath: '$.result.nextEvent', Next: 'Dispatch' });
+  });
+
+  test('routes unguarded transitions straight to their target', () => {
+    expect(choice('Route order.approve').Choices.map((c) => c.Next)).toEqual(['completed', 'failed']);
+    expect(asl.States.completed).toEqual({ Type: 'Succeed' });
+  });
+
+  test('waits in idle states with a task token', () => {
+    expect(task('pending')).toMatchObject({
+      Resource: 'arn:aws:states:::lambda:invoke.waitForTaskToken',
+      Parameters: {
+        FunctionName: functionArn,
+        Payload: { 'urn.$': '$.urn', workflow: 'OrderWorkflow', state: 'pending', 'taskToken.$': '$$.Task.Token' },
+      },
+      Next: 'Dispatch',
+    });
+    expect(task('pending').TimeoutSeconds).toBeUndefined();
+  });
+
+  test('sends the timeout event when an idle wait expires', () => {
+    expect(task('review').TimeoutSeconds).toBe(86400);
+    expect(task('review').Catch).toEqual([
+      { ErrorEquals: ['States.Timeout'], ResultPath: '$.error', Next: 'Send timeout event' },
+    ]);
+    expect(asl.States['Send timeout event']).toMatchObject({ InputPath: '$.result.onTimeout', Next: 'Dispatch' });
+  });
+
+  test('uses the callback function for waits when given', () => {
+    const withCallback = StepFunctionsExporter.toAsl(definition, handlers, {
+      functionArn,
+      callbackFunctionArn: 'order-callback',
+      comment: 'Orders',
+    });
+
+    expect(withCallback.Comment).toBe('Orders');
+    expect((withCallback.States.review as IAslTaskState).Parameters?.FunctionName).toBe('order-callback');
+    expect((withCallback.States['Await event'] as IAslTaskState).Parameters?.FunctionName).toBe('order-callback');
+  });
+
+  test('ends compensated sagas in a Fail state', () => {
+    const saga = StepFunctionsExporter.toAsl({ ...definition, saga: { compensated: 'compensated' } }, handlers, {
+      functionArn,
+    });
+
+    expect(saga.States.compensated).toMatchObject({ Type: 'Fail', Error: 'WorkflowCompensated' });
+    expect((saga.States['Route order.approve'] as IAslChoiceState).Choices.map((c) => c.Next)).toEqual([
+      'completed',
+      'failed',
+      'compensated',
+    ]);
+  });
+
+  test('rejects parallel states and child workflows', () => {
+    expect(() =>
+      StepFunctionsExporter.toAsl(
+        {
+          ...definition,
+          children: [{ state: 'review', workflow: 'AuditWorkflow', event: 'audit.start', onDone: 'x' }],
+        },
+        handlers,
+        { functionArn },
+      ),
+    ).toThrow('uses parallel states or child workflows');
+  });
+
+  test('rejects state names used by the generated states', () => {
+    expect(() =>
+      StepFunctionsExporter.toAsl({ ...definition, states: { ...definition.states, failed: 'Dispatch' } }, handlers, {
+        functionArn,
+      }),
+    ).toThrow('has a state named "Dispatch"');
+  });
+
+  test('produces a state machine that passes validation', () => {
+    expect(StepFunctionsExporter.validate(asl)).toEqual([]);
+  });
+});
+
+describe('StepFunctionsExporter – validate', () => {
+  test('reports unknown targets, missing fields and unreachable states', () => {
+    const asl: IAslStateMachine = {
+      StartAt: 'start',
+      States: {
+        start: { Type: 'Task', Resource: '', Next: 'missing', TimeoutSeconds: 0 },
+        choice: { Type: 'Choice', Choices: [] },
+        done: { Type: 'Fail', Error: '' },
+      },
+    };
+
+    expect(StepFunctionsExporter.validate(asl)).toEqual([
+      'State "start" has no Resource',
+      'State "start" must have a positive integer TimeoutSeconds',
+      'State "start" Next targets unknown state "missing"',
+      'State "choice" has no Choices',
+      'State "done" has no Error',
+      'State "choice" is unreachable from StartAt',
+      'State "done" is unreachable from StartAt',
+    ]);
+  });
+
+  test('reports misplaced States.ALL and invalid retriers', () => {
+    const asl: IAslStateMachine = {
+      StartAt: 'start',
+      States: {
+        start: {
+          Type: 'Task',
+          Resource: 'arn:fn',
+          Retry: [
+            { ErrorEquals: ['States.ALL'], MaxAttempts: -1 },
+            { ErrorEquals: ['Error'], BackoffRate: 0.5 },
+          ],
+          Next: 'end',
+        },
+        end: { Type: 'Succeed' },
+      },
+    };
+
+    expect(StepFunctionsExporter.validate(asl)).toEqual([
+      'State "start" Retry must list States.ALL alone, in its last entry',
+      'State "start" Retry must have a non-negative integer MaxAttempts',
+      'State "start" Retry must have a BackoffRate of at least 1',
+    ]);
+  });
+
+  test('reports a missing StartAt state and overlong names', () => {
+    const name = 'x'.repeat(81);
+
+    expect(StepFunctionsExporter.validate({ StartAt: 'start', States: { [name]: { Type: 'Succeed' } } })).toEqual([
+      'StartAt targets unknown state "start"',
+      `State "${name}" must have a name of 1 to 80 characters`,
+      `State "${name}" is unreachable from StartAt`,
+    ]);
+  });
+});
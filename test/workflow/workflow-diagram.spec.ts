@@ -0,0 +1,153 @@
+import type { IWorkflowDefinition } from '@/core/types';
+import { WorkflowDiagram } from '@/core/utils/workflow-diagram';
+import { describe, expect, test } from 'bun:test';
+
+const hasItems = (order: any) => order.items > 0;
+
+const definition: IWorkflowDefinition<any, string, string> = {
+  name: 'OrderWorkflow',
+  states: {
+    finals: ['completed', 'cancelled'],
+    idles: ['pending', { state: 'in-review', timeout: { hours: 24 }, onTimeout: 'order.expire' }],
+    failed: 'failed',
+    compound: [{ state: 'open', children: ['pending', 'in-review'], initial: 'pending' }],
+  },
+  transitions: [
+    { event: 'order.submit', from: ['pending'], to: 'in-review', conditions: [hasItems] },
+    { event: 'order.approve', from: ['in-review'], to: 'completed', conditions: [() => true] },
+    { event: ['order.cancel', 'order.expire'], from: ['open'], to: 'cancelled' },
+  ],
+  entityService: 'entity.order',
+};
+
+describe('WorkflowDiagram – mermaid', () => {
+  const diagram = WorkflowDiagram.toMermaid(definition);
+
+  test('renders a stateDiagram-v2 titled with the workflow name', () => {
+    expect(diagram.startsWith('---\ntitle: OrderWorkflow\n---\nstateDiagram-v2\n')).toBe(true);
+  });
+
+  test('marks entry and final states', () => {
+    expect(diagram).toContain('  [*] --> pending');
+    expect(diagram).toContain('  completed --> [*]');
+    expect(diagram).toContain('  cancelled --> [*]');
+    expect(diagram).not.toContain('failed --> [*]');
+  });
+
+  test('labels transitions with their events and conditions', () => {
+    expect(diagram).toContain('  pending --> in_review : order.submit [hasItems]');
+    expect(diagram).toContain('  in_review --> completed : order.approve [conditions[0]]');
+    expect(diagram).toContain('  open --> cancelled : order.cancel, order.expire');
+  });
+
+  test('nests compound states and aliases states that are not identifiers', () => {
+    expect(diagram).toContain('  state open {\n    pending\n    state "in-review" as in_review\n  }');
+  });
+
+  test('marks idle states with their timeout and the failed state', () => {
+    expect(diagram).toContain('  note right of in_review\n    timeout 24h → order.expire\n  end note');
+    expect(diagram).toContain('  class pending,in_review idle');
+    expect(diagram).toContain('  class failed failed');
+  });
+});
+
+describe('WorkflowDiagram – parallel states and sagas', () => {
+  const parallel: IWorkflowDefinition<any, string, string> = {
+    name: 'FulfilmentWorkflow',
+    states: { finals: ['shipped'], idles: [], failed: 'failed' },
+    transitions: [
+      { event: 'order.fulfil', from: ['paid'], to: 'fulfilling' },
+      { event: 'order.ship', from: ['fulfilling'], to: 'shipped' },
+    ],
+    parallel: [
+      {
+        state: 'fulfilling',
+        regions: [
+          {
+            name: 'payment',
+            initial: 'authorized',
+            finals: ['captured'],
+            transitions: [{ event: 'payment.capture', from: ['authorized'], to: 'captured' }],
+          },
+          { name: 'stock', initial: 'requested', finals: ['reserved'], transitions: [] },
+        ],
+      },
+    ],
+    saga: { compensated: 'refunded' },
+    entityService: 'entity.order',
+  };
+
+  test('draws one lane per region in mermaid', () => {
+    const diagram = WorkflowDiagram.toMermaid(parallel);
+
+    expect(diagram).toContain(
+      [
+        '  state fulfilling {',
+        '    state "authorized" as fulfilling__payment__authorized',
+        '    state "captured" as fulfilling__payment__captured',
+        '    [*] --> fulfilling__payment__authorized',
+        '    fulfilling__payment__authorized --> fulfilling__payment__captured : payment.capture',
+        '    fulfilling__payment__captured --> [*]',
+        '    --',
+        '    state "requested" as fulfilling__stock__requested',
+      ].join('\n'),
+    );
+  });
+
+  test('draws the compensation of a saga', () => {
+    const diagram = WorkflowDiagram.toMermaid(parallel);
+
+    expect(diagram).toContain('  failed --> refunded : compensate\n  refunded --> [*]');
+  });
+});
+
+describe('WorkflowDiagram – dot', () => {
+  const diagram = WorkflowDiagram.toDot(definition);
+
+  test('renders a digraph with styled states', () => {
+    expect(diagram.startsWith('digraph "OrderWorkflow" {')).toBe(true);
+    expect(diagram).toContain('"completed" [label="completed", peripheries=2];');
+    expect(diagram).toContain(
+      '"in_review" [label="in-review\\ntimeout 24h → order.expire", style="rounded,filled", fillcolor="#fef3c7"];',
+    );
+    expect(diagram).toContain(
+      '"failed" [label="failed", style="rounded,filled", fillcolor="#fee2e2", color="#dc2626"];',
+    );
+    expect(diagram.endsWith('}')).toBe(true);
+  });
+
+  test('draws compound states as clusters', () => {
+    expect(diagram).toContain('subgraph "cluster_open" {\n    label="open";');
+    expect(diagram).toContain('"pending" -> "cancelled" [label="order.cancel, order.expire", ltail="cluster_open"];');
+  });
+
+  test('draws the entry point', () => {
+    expect(diagram).toContain('"OrderWorkflow__start" [shape=point];\n  "OrderWorkflow__start" -> "pending";');
+  });
+});
+
+describe('WorkflowDiagram – plantuml', () => {
+  const diagram = WorkflowDiagram.toPlantUml(definition);
+
+  test('renders a state diagram with stereotypes for idle and failed states', () => {
+    expect(diagram.startsWith('@startuml OrderWorkflow\ntitle OrderWorkflow\n')).toBe(true);
+    expect(diagram).toContain('state "open" as open {\n  state "pending" as pending <<idle>>');
+    expect(diagram).toContain('state "failed" as failed <<failed>>');
+    expect(diagram).toContain('pending --> in_review : order.submit [hasItems]');
+    expect(diagram).toContain('note right of in_review\n  timeout 24h → order.expire\nend note');
+    expect(diagram.endsWith('@enduml')).toBe(true);
+  });
+});
+
+describe('WorkflowDiagram.render', () => {
+  test('dispatches on the format', () => {
+    expect(WorkflowDiagram.render(definition, 'dot')).toBe(WorkflowDiagram.toDot(definition));
+    expect(WorkflowDiagram.render(definition, 'plantuml')).toBe(WorkflowDiagram.toPlantUml(definition));
+  });
+
+  test('rejects unknown formats', () => {
+    expect(() => WorkflowDiagram.render(definition, 'svg' as any)).toThrow(
+      'Unknown diagram format: svg. Use mermaid, dot or plantuml',
+    );
+  });
+});
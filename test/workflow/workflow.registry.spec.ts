@@ -0,0 +1,121 @@
+import { Entity, OnCompensate, OnEvent, OnStateEnter, OnStatusChanged, Workflow, WithRetry } from '@/core';
+import { WorkflowRegistry } from '@/core/providers/workflow.registry';
+import { WorkflowModule } from '@/core/workflow.module';
+import { Test, TestingModule } from '@nestjs/testing';
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+
+const entityService = {
+  load: async () => null,
+  update: async (entity: any, status: any) => ({ ...entity, status }),
+  status: (entity: any) => entity.status,
+  urn: (entity: any) => entity.id,
+  create: async () => ({}),
+};
+
+@Workflow<any, string, string>({
+  name: 'BookingWorkflow',
+  states: {
+    finals: ['confirmed', 'cancelled'],
+    idles: ['pending', { state: 'held', timeout: { minutes: 15 }, onTimeout: 'booking.cancel' }],
+    failed: 'failed',
+    compound: [{ state: 'open', children: ['pending', 'held'], initial: 'pending' }],
+  },
+  transitions: [
+    { event: 'booking.hold', from: ['pending'], to: 'held' },
+    { event: 'booking.pay', from: ['held'], to: 'paid' },
+    { event: 'booking.confirm', from: ['paid'], to: 'confirmed' },
+    { event: 'booking.cancel', from: ['open'], to: 'cancelled' },
+  ],
+  saga: { compensated: 'refunded' },
+  entityService: 'entity.booking',
+})
+class BookingWorkflow {
+  @OnEvent('booking.hold')
+  async hold() {}
+
+  @OnEvent('booking.pay', { timeout: 5_000 })
+  @WithRetry({ handler: 'retry.booking', maxAttempts: 3 })
+  async pay() {}
+
+  @OnEvent('booking.confirm')
+  async confirm() {}
+
+  @OnEvent('booking.cancel')
+  async cancel() {}
+
+  @OnCompensate('booking.pay')
+  async refund(@Entity() _booking: unknown) {}
+
+  @OnStateEnter('held')
+  async notifyHeld() {}
+
+  @OnStatusChanged()
+  async audit() {}
+}
+
+describe('WorkflowRegistry', () => {
+  let module: TestingModule;
+  let registry: WorkflowRegistry;
+
+  beforeEach(async () => {
+    module = await Test.createTestingModule({
+      imports: [
+        WorkflowModule.register({
+          entities: [{ provide: 'entity.booking', useValue: entityService }],
+          workflows: [BookingWorkflow],
+        }),
+      ],
+    }).compile();
+    await module.init();
+    registry = module.get(WorkflowRegistry);
+  });
+
+  afterEach(async () => {
+    await module.close();
+  });
+
+  test('exposes the workflows discovered by the orchestrator', () => {
+    expect(registry.getWorkflows().map((w) => w.name)).toEqual(['BookingWorkflow']);
+
+    const workflow = registry.getWorkflow('BookingWorkflow')!;
+    expect(workflow.workflowClass).toBe(BookingWorkflow);
+    expect(workflow.entityService).toBe('entity.booking');
+    expect(workflow.transitions).toHaveLength(4);
+    expect(registry.getWorkflow('Unknown')).toBeUndefined();
+  });
+
+  test('lists every state the definition mentions', () => {
+    expect(registry.getWorkflow('BookingWorkflow')!.states).toEqual([
+      'pending',
+      'held',
+      'paid',
+      'confirmed',
+      'open',
+      'cancelled',
+      'failed',
+      'refunded',
+    ]);
+  });
+
+  test('exposes handlers with their retry config and timeout', () => {
+    const workflow = registry.getWorkflow('BookingWorkflow')!;
+
+    expect(workflow.handlers.map((h) => h.name)).toEqual(['hold', 'pay', 'confirm', 'cancel']);
+    expect(workflow.handlers[1]).toEqual({
+      event: 'booking.pay',
+      name: 'pay',
+      retryConfig: { handler: 'retry.booking', maxAttempts: 3 },
+      timeout: 5_000,
+    });
+    expect(workflow.compensators).toEqual([{ event: 'booking.pay', name: 'refund' }]);
+    expect(workflow.lifecycleHooks).toEqual([
+      { kind: 'enter', state: 'held', name: 'notifyHeld' },
+      { kind: 'changed', state: undefined, name: 'audit' },
+    ]);
+  });
+
+  test('finds the workflows handling an event', () => {
+    expect(registry.findByEvent('booking.pay').map((w) => w.name)).toEqual(['BookingWorkflow']);
+    expect(registry.findByEvent('order.pay')).toEqual([]);
+  });
+});